@@ -1,6 +1,22 @@
 // Unified LLM Chat API Route
 import { NextRequest } from 'next/server';
-import type { LLMProvider, ChatMessage, MCPToolDefinition, ToolCall } from '@/lib/llm-types';
+import type { LLMProvider, ChatMessage, ChatAttachment, MCPToolDefinition, ToolCall } from '@/lib/llm-types';
+import type { AttachmentImage, AttachmentSupport } from '@/lib/attachments';
+import {
+  getAttachmentSupport,
+  isAttachmentSupported,
+  getAttachmentDataUrl,
+  formatTextAttachment,
+  formatUnsupportedAttachment,
+  getToolResultImages,
+} from '@/lib/attachments';
+import {
+  createStreamResponse,
+  normalizeOpenAIStream,
+  normalizeAnthropicStream,
+  normalizeGeminiStream,
+  normalizeOllamaStream,
+} from '@/lib/llm-stream';
 
 export const runtime = 'edge';
 export const dynamic = 'force-dynamic';
@@ -30,26 +46,71 @@ interface ChatRequest {
   customHeaders?: Record<string, string>;
 }
 
+/**
+ * Splits a message into its text, with text files inlined and a placeholder
+ * for each attachment the model can't take, and the images and PDFs to send
+ * as provider content blocks.
+ */
+function splitAttachments(msg: ChatMessage, support: AttachmentSupport): { text: string; media: ChatAttachment[] } {
+  const textParts = msg.content ? [msg.content] : [];
+  const media: ChatAttachment[] = [];
+  for (const attachment of msg.attachments || []) {
+    if (attachment.kind === 'text') {
+      textParts.push(formatTextAttachment(attachment));
+    } else if (isAttachmentSupported(attachment, support)) {
+      media.push(attachment);
+    } else {
+      textParts.push(formatUnsupportedAttachment(attachment));
+    }
+  }
+  return { text: textParts.join('\n\n'), media };
+}
+
+// Providers without image support in tool results get tool images in a follow-up user message
+const TOOL_IMAGES_TEXT = 'Images returned by the tool calls above:';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
 // Convert our messages to provider-specific format
-function convertMessagesForOpenAI(messages: ChatMessage[], systemPrompt?: string) {
+function convertMessagesForOpenAI(messages: ChatMessage[], systemPrompt: string | undefined, support: AttachmentSupport) {
   const result: Array<{
     role: string;
-    content: string | null;
+    content: string | null | OpenAIContentPart[];
     tool_calls?: Array<{ id: string; type: string; function: { name: string; arguments: string } }>;
     tool_call_id?: string;
   }> = [];
+  let toolImages: AttachmentImage[] = [];
+
+  // Tool messages only carry text, so images from a run of tool results follow it
+  const flushToolImages = () => {
+    if (toolImages.length === 0) return;
+    result.push({
+      role: 'user',
+      content: [
+        { type: 'text', text: TOOL_IMAGES_TEXT },
+        ...toolImages.map((image): OpenAIContentPart => ({ type: 'image_url', image_url: { url: getAttachmentDataUrl(image) } })),
+      ],
+    });
+    toolImages = [];
+  };
 
   if (systemPrompt) {
     result.push({ role: 'system', content: systemPrompt });
   }
 
   for (const msg of messages) {
+    if (msg.role !== 'tool') flushToolImages();
+
     if (msg.role === 'tool') {
       result.push({
         role: 'tool',
         content: msg.content,
         tool_call_id: msg.toolCallId,
       });
+      if (support.images) toolImages.push(...getToolResultImages(msg));
     } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
       result.push({
         role: 'assistant',
@@ -63,6 +124,15 @@ function convertMessagesForOpenAI(messages: ChatMessage[], systemPrompt?: string
           },
         })),
       });
+    } else if (msg.role === 'user' && msg.attachments?.length) {
+      const { text, media } = splitAttachments(msg, support);
+      const content: OpenAIContentPart[] = text ? [{ type: 'text', text }] : [];
+      for (const attachment of media) {
+        content.push(attachment.kind === 'image'
+          ? { type: 'image_url', image_url: { url: getAttachmentDataUrl(attachment) } }
+          : { type: 'file', file: { filename: attachment.name, file_data: getAttachmentDataUrl(attachment) } });
+      }
+      result.push({ role: 'user', content });
     } else {
       result.push({
         role: msg.role,
@@ -70,6 +140,7 @@ function convertMessagesForOpenAI(messages: ChatMessage[], systemPrompt?: string
       });
     }
   }
+  flushToolImages();
 
   return result;
 }
@@ -87,32 +158,50 @@ function convertToolsForOpenAI(tools?: MCPToolDefinition[]) {
   }));
 }
 
-function convertMessagesForAnthropic(messages: ChatMessage[], systemPrompt?: string) {
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[];
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  source?: { type: 'base64'; media_type: string; data: string };
+}
+
+function toAnthropicMediaBlock(media: Pick<ChatAttachment, 'mimeType' | 'data'>, type: 'image' | 'document'): AnthropicContentBlock {
+  return { type, source: { type: 'base64', media_type: media.mimeType, data: media.data } };
+}
+
+function convertMessagesForAnthropic(messages: ChatMessage[], systemPrompt: string | undefined, support: AttachmentSupport) {
   const result: Array<{
     role: string;
-    content: string | Array<{ type: string; tool_use_id?: string; content?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
+    content: string | AnthropicContentBlock[];
   }> = [];
 
   for (const msg of messages) {
     if (msg.role === 'system') continue; // System handled separately
 
-    // Skip messages with empty content (except tool messages and messages with tool calls)
-    if (!msg.content && msg.role !== 'tool' && (!msg.toolCalls || msg.toolCalls.length === 0)) {
+    // Skip messages with empty content (except tool messages and messages with tool calls or attachments)
+    if (!msg.content && msg.role !== 'tool' && (!msg.toolCalls || msg.toolCalls.length === 0) && !msg.attachments?.length) {
       continue;
     }
 
     if (msg.role === 'tool') {
-      // Anthropic expects tool results in user messages
+      // Anthropic expects tool results in user messages; images can go inside the result
+      const images = support.images ? getToolResultImages(msg) : [];
       result.push({
         role: 'user',
         content: [{
           type: 'tool_result',
           tool_use_id: msg.toolCallId || '',
-          content: msg.content,
+          content: images.length > 0
+            ? [{ type: 'text', text: msg.content }, ...images.map(image => toAnthropicMediaBlock(image, 'image'))]
+            : msg.content,
         }],
       });
     } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
-      const content: Array<{ type: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }> = [];
+      const content: AnthropicContentBlock[] = [];
       if (msg.content) {
         content.push({ type: 'text', text: msg.content });
       }
@@ -125,6 +214,11 @@ function convertMessagesForAnthropic(messages: ChatMessage[], systemPrompt?: str
         });
       }
       result.push({ role: 'assistant', content });
+    } else if (msg.role === 'user' && msg.attachments?.length) {
+      const { text, media } = splitAttachments(msg, support);
+      const content = media.map(attachment => toAnthropicMediaBlock(attachment, attachment.kind === 'image' ? 'image' : 'document'));
+      if (text) content.push({ type: 'text', text });
+      result.push({ role: 'user', content });
     } else {
       result.push({
         role: msg.role,
@@ -146,14 +240,35 @@ function convertToolsForAnthropic(tools?: MCPToolDefinition[]) {
   }));
 }
 
-function convertMessagesForGemini(messages: ChatMessage[], systemPrompt?: string) {
+type GeminiPart = {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args: Record<string, unknown> };
+  functionResponse?: { name: string; response: unknown };
+};
+
+function convertMessagesForGemini(messages: ChatMessage[], systemPrompt: string | undefined, support: AttachmentSupport) {
   const contents: Array<{
     role: string;
-    parts: Array<{ text?: string; functionCall?: { name: string; args: Record<string, unknown> }; functionResponse?: { name: string; response: unknown } }>;
+    parts: GeminiPart[];
   }> = [];
+  let toolImages: AttachmentImage[] = [];
+
+  const flushToolImages = () => {
+    if (toolImages.length === 0) return;
+    contents.push({
+      role: 'user',
+      parts: [
+        { text: TOOL_IMAGES_TEXT },
+        ...toolImages.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+      ],
+    });
+    toolImages = [];
+  };
 
   for (const msg of messages) {
     if (msg.role === 'system') continue;
+    if (msg.role !== 'tool') flushToolImages();
 
     if (msg.role === 'tool') {
       // Find the corresponding tool call to get the function name
@@ -174,8 +289,9 @@ function convertMessagesForGemini(messages: ChatMessage[], systemPrompt?: string
           },
         }],
       });
+      if (support.images) toolImages.push(...getToolResultImages(msg));
     } else if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
-      const parts: Array<{ text?: string; functionCall?: { name: string; args: Record<string, unknown> } }> = [];
+      const parts: GeminiPart[] = [];
       if (msg.content) {
         parts.push({ text: msg.content });
       }
@@ -188,6 +304,13 @@ function convertMessagesForGemini(messages: ChatMessage[], systemPrompt?: string
         });
       }
       contents.push({ role: 'model', parts });
+    } else if (msg.role === 'user' && msg.attachments?.length) {
+      const { text, media } = splitAttachments(msg, support);
+      const parts: GeminiPart[] = media.map(attachment => ({
+        inlineData: { mimeType: attachment.mimeType, data: attachment.data },
+      }));
+      if (text) parts.push({ text });
+      contents.push({ role: 'user', parts });
     } else {
       contents.push({
         role: msg.role === 'assistant' ? 'model' : 'user',
@@ -195,6 +318,7 @@ function convertMessagesForGemini(messages: ChatMessage[], systemPrompt?: string
       });
     }
   }
+  flushToolImages();
 
   return { contents, systemInstruction: systemPrompt ? { parts: [{ text: systemPrompt }] } : undefined };
 }
@@ -211,8 +335,9 @@ function convertToolsForGemini(tools?: MCPToolDefinition[]) {
   }];
 }
 
-function convertMessagesForOllama(messages: ChatMessage[], systemPrompt?: string) {
-  const result: Array<{ role: string; content: string }> = [];
+function convertMessagesForOllama(messages: ChatMessage[], systemPrompt: string | undefined, support: AttachmentSupport) {
+  // Ollama takes images as base64 strings next to the message text
+  const result: Array<{ role: string; content: string; images?: string[] }> = [];
 
   if (systemPrompt) {
     result.push({ role: 'system', content: systemPrompt });
@@ -220,9 +345,18 @@ function convertMessagesForOllama(messages: ChatMessage[], systemPrompt?: string
 
   for (const msg of messages) {
     if (msg.role === 'tool') {
+      const images = support.images ? getToolResultImages(msg).map(image => image.data) : [];
       result.push({
         role: 'user',
         content: `Tool result: ${msg.content}`,
+        ...(images.length > 0 ? { images } : {}),
+      });
+    } else if (msg.role === 'user' && msg.attachments?.length) {
+      const { text, media } = splitAttachments(msg, support);
+      result.push({
+        role: 'user',
+        content: text,
+        ...(media.length > 0 ? { images: media.map(attachment => attachment.data) } : {}),
       });
     } else {
       result.push({
@@ -314,7 +448,7 @@ function parseGeminiToolCalls(response: {
 }
 
 async function callOpenAI(request: ChatRequest): Promise<Response> {
-  const messages = convertMessagesForOpenAI(request.messages, request.systemPrompt);
+  const messages = convertMessagesForOpenAI(request.messages, request.systemPrompt, getAttachmentSupport(request.provider, request.model));
   const tools = convertToolsForOpenAI(request.tools);
 
   const body: Record<string, unknown> = {
@@ -323,6 +457,11 @@ async function callOpenAI(request: ChatRequest): Promise<Response> {
     stream: request.stream,
   };
 
+  if (request.stream) {
+    // Final chunk carries token usage
+    body.stream_options = { include_usage: true };
+  }
+
   if (tools) {
     body.tools = tools;
     body.tool_choice = 'auto';
@@ -342,14 +481,8 @@ async function callOpenAI(request: ChatRequest): Promise<Response> {
     throw new Error(`OpenAI API error: ${response.status} - ${error}`);
   }
 
-  if (request.stream) {
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+  if (request.stream && response.body) {
+    return createStreamResponse(normalizeOpenAIStream(response.body));
   }
 
   const data = await response.json();
@@ -372,7 +505,7 @@ async function callOpenAI(request: ChatRequest): Promise<Response> {
 }
 
 async function callAnthropic(request: ChatRequest): Promise<Response> {
-  const { messages, system } = convertMessagesForAnthropic(request.messages, request.systemPrompt);
+  const { messages, system } = convertMessagesForAnthropic(request.messages, request.systemPrompt, getAttachmentSupport(request.provider, request.model));
   const tools = convertToolsForAnthropic(request.tools);
 
   const body: Record<string, unknown> = {
@@ -405,14 +538,8 @@ async function callAnthropic(request: ChatRequest): Promise<Response> {
     throw new Error(`Anthropic API error: ${response.status} - ${error}`);
   }
 
-  if (request.stream) {
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+  if (request.stream && response.body) {
+    return createStreamResponse(normalizeAnthropicStream(response.body));
   }
 
   const data = await response.json();
@@ -435,7 +562,7 @@ async function callAnthropic(request: ChatRequest): Promise<Response> {
 }
 
 async function callGemini(request: ChatRequest): Promise<Response> {
-  const { contents, systemInstruction } = convertMessagesForGemini(request.messages, request.systemPrompt);
+  const { contents, systemInstruction } = convertMessagesForGemini(request.messages, request.systemPrompt, getAttachmentSupport(request.provider, request.model));
   const tools = convertToolsForGemini(request.tools);
 
   const body: Record<string, unknown> = {
@@ -450,7 +577,9 @@ async function callGemini(request: ChatRequest): Promise<Response> {
     body.tools = tools;
   }
 
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${request.apiKey}`;
+  const url = request.stream
+    ? `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:streamGenerateContent?alt=sse&key=${request.apiKey}`
+    : `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${request.apiKey}`;
 
   const response = await fetch(url, {
     method: 'POST',
@@ -465,6 +594,10 @@ async function callGemini(request: ChatRequest): Promise<Response> {
     throw new Error(`Gemini API error: ${response.status} - ${error}`);
   }
 
+  if (request.stream && response.body) {
+    return createStreamResponse(normalizeGeminiStream(response.body));
+  }
+
   const data = await response.json();
   const { content, toolCalls } = parseGeminiToolCalls(data);
 
@@ -485,7 +618,7 @@ async function callGemini(request: ChatRequest): Promise<Response> {
 }
 
 async function callOllama(request: ChatRequest): Promise<Response> {
-  const messages = convertMessagesForOllama(request.messages, request.systemPrompt);
+  const messages = convertMessagesForOllama(request.messages, request.systemPrompt, getAttachmentSupport(request.provider, request.model));
   const baseUrl = request.baseUrl || 'http://localhost:11434';
 
   const body: Record<string, unknown> = {
@@ -523,14 +656,8 @@ async function callOllama(request: ChatRequest): Promise<Response> {
     throw new Error(`Ollama API error: ${response.status} - ${error}`);
   }
 
-  if (request.stream) {
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+  if (request.stream && response.body) {
+    return createStreamResponse(normalizeOllamaStream(response.body));
   }
 
   const data = await response.json();
@@ -552,7 +679,7 @@ async function callOpenAICompatible(request: ChatRequest): Promise<Response> {
     throw new Error('Base URL is required for this provider');
   }
 
-  const messages = convertMessagesForOpenAI(request.messages, request.systemPrompt);
+  const messages = convertMessagesForOpenAI(request.messages, request.systemPrompt, getAttachmentSupport(request.provider, request.model));
   const tools = convertToolsForOpenAI(request.tools);
 
   const body: Record<string, unknown> = {
@@ -561,6 +688,11 @@ async function callOpenAICompatible(request: ChatRequest): Promise<Response> {
     stream: request.stream,
   };
 
+  if (request.stream) {
+    // Final chunk carries token usage
+    body.stream_options = { include_usage: true };
+  }
+
   if (tools) {
     body.tools = tools;
     body.tool_choice = 'auto';
@@ -603,14 +735,8 @@ async function callOpenAICompatible(request: ChatRequest): Promise<Response> {
     throw new Error(`API error (${request.provider}): ${response.status} - ${error}`);
   }
 
-  if (request.stream) {
-    return new Response(response.body, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
+  if (request.stream && response.body) {
+    return createStreamResponse(normalizeOpenAIStream(response.body));
   }
 
   const data = await response.json();
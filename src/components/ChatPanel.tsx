@@ -1,14 +1,46 @@
 'use client';
 
-import { useState, useRef, useEffect, memo, useCallback } from 'react';
-import { Send, Bot, User, Loader2, Wrench, Settings, AlertCircle, RefreshCw, Trash2, Check, X, ChevronRight } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, memo, useCallback } from 'react';
+import { Send, Bot, User, Loader2, Wrench, Settings, AlertCircle, RefreshCw, Trash2, Check, X, ChevronLeft, ChevronRight, Pencil, Square, PanelLeft, SlidersHorizontal, Download, History, Paperclip, FileText } from 'lucide-react';
+import { toast } from 'sonner';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { MCPTool, ToolCallResult } from '@/lib/types';
-import type { ChatMessage, ToolCall, LLMSettings, MCPToolDefinition, ToolResultContent } from '@/lib/llm-types';
+import type { MCPTool, MCPResource, MCPResourceTemplate, MCPPrompt, MCPActiveRequestStatus, ToolCallResult, ToolApprovalRequest } from '@/lib/types';
+import type { ChatMessage, ChatAttachment, ChatBranchSet, ChatConversation, ToolCall, LLMSettings, MCPToolDefinition, ToolResultContent, Workflow } from '@/lib/llm-types';
 import { LLM_PROVIDERS, DEFAULT_LLM_SETTINGS } from '@/lib/llm-types';
 import { LLMSettingsModal, useLLMSettings } from './LLMSettings';
 import { useLLMChat } from '@/lib/useLLMChat';
+import type { MessageBranchInfo } from '@/lib/useLLMChat';
+import { useConversations } from '@/lib/useConversations';
+import { ConversationList } from './ConversationList';
+import { ConversationSettingsModal } from './ConversationSettingsModal';
+import { ConversationReplayModal } from './ConversationReplayModal';
+import {
+  exportConversationJSON,
+  exportConversationMarkdown,
+  parseConversationExport,
+  getExportFileName,
+  downloadTextFile,
+} from '@/lib/conversationExport';
+import { validateToolResult } from '@/lib/jsonSchema';
+import { StructuredContentView } from './StructuredContentView';
+import { OrchestratorResultView, isOrchestratorResult } from './OrchestratorTrace';
+import { TurnBudgetMeter, ConversationUsage } from './UsageMeter';
+import { summarizeUsage, getTurnBudget, getTurnLimits } from '@/lib/usage';
+import { namespaceTools, findToolByName, splitToolName, TOOL_NAMESPACE_SEPARATOR } from '@/lib/toolNames';
+import {
+  readAttachment,
+  getAttachmentDataUrl,
+  getAttachmentSupport,
+  isAttachmentSupported,
+  formatFileSize,
+  ACCEPTED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+} from '@/lib/attachments';
+import { getMentionItems, findMentionQuery, filterMentionItems, getMentionArguments, getMentionLabel, resolveMention } from '@/lib/mentions';
+import type { MentionItem, MentionContext, ServerScoped } from '@/lib/mentions';
+import { MentionPicker } from './MentionPicker';
+import { RequestProgress } from './RequestProgress';
 
 // Extended tool type that includes server info
 interface MCPToolWithServer extends MCPTool {
@@ -23,37 +55,310 @@ interface ConnectedServer {
 
 interface ChatPanelProps {
   tools: MCPToolWithServer[];
-  onCallTool: (name: string, args: Record<string, unknown>, serverId?: string) => Promise<ToolCallResult>;
+  onCallTool: (name: string, args: Record<string, unknown>, serverId?: string, signal?: AbortSignal) => Promise<ToolCallResult>;
   disabled?: boolean;
   connectedServers?: ConnectedServer[];
+  workflows?: Workflow[];
+  onApproveToolCall?: (request: Omit<ToolApprovalRequest, 'id'>, signal?: AbortSignal) => Promise<boolean>;
+  orchestratorTimeoutMs?: number; // Time limit for orchestrator and workflow runs
+  // Offered as @-mentions in the input
+  resources?: ServerScoped<MCPResource>[];
+  resourceTemplates?: ServerScoped<MCPResourceTemplate>[];
+  prompts?: ServerScoped<MCPPrompt>[];
+  onReadResource?: (serverId: string, uri: string) => Promise<unknown>;
+  onGetPrompt?: (serverId: string, name: string, args?: Record<string, string>) => Promise<unknown>;
+  // Tool calls in flight, shown with progress while a turn is running
+  activeRequests?: MCPActiveRequestStatus[];
+  onCancelRequest?: (request: MCPActiveRequestStatus) => void;
 }
 
-// Convert MCP tools to LLM tool format, preserving server info
+interface ConversationViewProps {
+  conversation: ChatConversation;
+  tools: MCPToolWithServer[]; // Tools enabled for this conversation
+  connectedServers: ConnectedServer[];
+  settings: LLMSettings; // Global settings with the conversation's overrides applied
+  workflows: Workflow[];
+  orchestratorTimeoutMs?: number;
+  mentionItems: MentionItem[]; // From the conversation's enabled servers
+  mentionContext: MentionContext | null;
+  activeRequests: MCPActiveRequestStatus[];
+  isSettingsLoaded: boolean;
+  onCallTool: (name: string, args: Record<string, unknown>, serverId?: string, signal?: AbortSignal) => Promise<ToolCallResult>;
+  onApproveToolCall?: (request: Omit<ToolApprovalRequest, 'id'>, signal?: AbortSignal) => Promise<boolean>;
+  onCancelRequest?: (request: MCPActiveRequestStatus) => void;
+  onMessagesChange: (messages: ChatMessage[], branches: Record<string, ChatBranchSet>) => void;
+  onToggleServer: (serverId: string) => void;
+  onToggleConversations: () => void;
+  onOpenSettings: () => void;
+  onOpenConversationSettings: () => void;
+  onOpenReplay: () => void;
+}
+
+// Apply a conversation's provider/model/system prompt over the global settings
+function getConversationSettings(settings: LLMSettings, conversation: ChatConversation): LLMSettings {
+  const systemPrompt = conversation.systemPrompt || settings.systemPrompt;
+  const provider = conversation.provider || settings.activeProvider;
+  if (!provider) return { ...settings, systemPrompt };
+  return {
+    ...settings,
+    activeProvider: provider,
+    providers: {
+      ...settings.providers,
+      [provider]: { ...settings.providers[provider], model: conversation.model || settings.providers[provider].model },
+    },
+    systemPrompt,
+  };
+}
+
+// Tools from the conversation's enabled servers, minus individually disabled tools
+function getConversationTools(tools: MCPToolWithServer[], conversation: ChatConversation): MCPToolWithServer[] {
+  return tools.filter(tool =>
+    (!conversation.enabledServerIds || !tool.serverId || conversation.enabledServerIds.includes(tool.serverId)) &&
+    !conversation.disabledTools?.includes(`${tool.serverId}:${tool.name}`)
+  );
+}
+
+// Convert MCP tools to LLM tool format under namespaced `server__tool` names, preserving server info
 function convertToLLMTools(tools: MCPToolWithServer[]): MCPToolDefinition[] {
-  return tools.map(tool => ({
+  return namespaceTools(tools.map(tool => ({
     name: tool.name,
     description: tool.description,
     inputSchema: tool.inputSchema,
     serverId: tool.serverId,
     serverName: tool.serverName,
-  }));
+    annotations: tool.annotations,
+  })));
 }
 
-export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled, connectedServers = [] }: ChatPanelProps) {
-  const [input, setInput] = useState('');
+export const ChatPanel = memo(function ChatPanel({
+  tools,
+  onCallTool,
+  disabled,
+  connectedServers = [],
+  workflows = [],
+  onApproveToolCall,
+  orchestratorTimeoutMs,
+  resources = [],
+  resourceTemplates = [],
+  prompts = [],
+  onReadResource,
+  onGetPrompt,
+  activeRequests = [],
+  onCancelRequest,
+}: ChatPanelProps) {
   const [showSettings, setShowSettings] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [showConversationSettings, setShowConversationSettings] = useState(false);
+  const [showConversations, setShowConversations] = useState(true);
+  const [showReplay, setShowReplay] = useState(false);
 
   const { settings, updateSettings, isLoaded } = useLLMSettings();
+  const {
+    conversations,
+    activeConversation,
+    isLoaded: conversationsLoaded,
+    setActiveConversationId,
+    createConversation,
+    updateConversation,
+    setConversationMessages,
+    renameConversation,
+    togglePinned,
+    deleteConversation,
+  } = useConversations();
+
+  // New conversations start from the globally selected provider and model
+  const handleNewConversation = useCallback(() => {
+    if (activeConversation && activeConversation.messages.length === 0) return;
+    createConversation({
+      provider: settings.activeProvider || undefined,
+      model: settings.activeProvider ? settings.providers[settings.activeProvider].model : undefined,
+    });
+  }, [activeConversation, createConversation, settings]);
+
+  // Always have a conversation to chat in
+  useEffect(() => {
+    if (conversationsLoaded && isLoaded && !activeConversation) {
+      handleNewConversation();
+    }
+  }, [conversationsLoaded, isLoaded, activeConversation, handleNewConversation]);
+
+  // Changing the global provider/model from the chat applies to the open conversation
+  const handleSettingsChange = useCallback((newSettings: LLMSettings) => {
+    updateSettings(newSettings);
+    if (activeConversation) {
+      const provider = newSettings.activeProvider;
+      updateConversation(activeConversation.id, {
+        provider: provider || undefined,
+        model: provider ? newSettings.providers[provider].model : undefined,
+      });
+    }
+  }, [updateSettings, activeConversation, updateConversation]);
+
+  const handleToggleServer = useCallback((serverId: string) => {
+    if (!activeConversation) return;
+    const enabled = activeConversation.enabledServerIds || connectedServers.map(s => s.id);
+    updateConversation(activeConversation.id, {
+      enabledServerIds: enabled.includes(serverId)
+        ? enabled.filter(id => id !== serverId)
+        : [...enabled, serverId],
+    });
+  }, [activeConversation, connectedServers, updateConversation]);
+
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      const imported = parseConversationExport(await file.text());
+      const conversation = createConversation(imported);
+      toast.success(`Imported "${conversation.title}"`);
+    } catch (err) {
+      toast.error('Import failed', {
+        description: err instanceof Error ? err.message : 'Could not read the file',
+      });
+    }
+  }, [createConversation]);
+
+  const mentionItems = useMemo(
+    () => getMentionItems(resources, resourceTemplates, prompts),
+    [resources, resourceTemplates, prompts]
+  );
+  const mentionContext = useMemo(
+    () => onReadResource && onGetPrompt ? { readResource: onReadResource, getPrompt: onGetPrompt } : null,
+    [onReadResource, onGetPrompt]
+  );
+
+  const activeConversationId = activeConversation?.id;
+  const handleMessagesChange = useCallback((messages: ChatMessage[], branches: Record<string, ChatBranchSet>) => {
+    if (activeConversationId) setConversationMessages(activeConversationId, messages, branches);
+  }, [activeConversationId, setConversationMessages]);
+
+  return (
+    <div className="flex h-full bg-[var(--background)]">
+      {showConversations && (
+        <ConversationList
+          conversations={conversations}
+          activeConversationId={activeConversationId || null}
+          onSelect={setActiveConversationId}
+          onCreate={handleNewConversation}
+          onImport={handleImport}
+          onRename={renameConversation}
+          onTogglePin={togglePinned}
+          onDelete={deleteConversation}
+        />
+      )}
+
+      <div className="flex-1 min-w-0">
+        {activeConversation ? (
+          <ConversationView
+            key={activeConversation.id}
+            conversation={activeConversation}
+            tools={getConversationTools(tools, activeConversation)}
+            connectedServers={connectedServers}
+            settings={getConversationSettings(settings, activeConversation)}
+            isSettingsLoaded={isLoaded}
+            workflows={workflows}
+            orchestratorTimeoutMs={orchestratorTimeoutMs}
+            mentionItems={mentionItems.filter(item =>
+              !activeConversation.enabledServerIds || activeConversation.enabledServerIds.includes(item.serverId)
+            )}
+            mentionContext={mentionContext}
+            activeRequests={activeRequests}
+            onCallTool={onCallTool}
+            onApproveToolCall={onApproveToolCall}
+            onCancelRequest={onCancelRequest}
+            onMessagesChange={handleMessagesChange}
+            onToggleServer={handleToggleServer}
+            onToggleConversations={() => setShowConversations(!showConversations)}
+            onOpenSettings={() => setShowSettings(true)}
+            onOpenConversationSettings={() => setShowConversationSettings(true)}
+            onOpenReplay={() => setShowReplay(true)}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-[var(--foreground-muted)]" />
+          </div>
+        )}
+      </div>
+
+      {/* Settings Modal */}
+      <LLMSettingsModal
+        isOpen={showSettings}
+        onClose={() => setShowSettings(false)}
+        onSettingsChange={handleSettingsChange}
+        currentSettings={settings}
+      />
+
+      {/* Conversation Settings Modal */}
+      {showConversationSettings && activeConversation && (
+        <ConversationSettingsModal
+          conversation={activeConversation}
+          settings={settings}
+          tools={tools}
+          connectedServers={connectedServers}
+          onSave={(patch) => updateConversation(activeConversation.id, patch)}
+          onClose={() => setShowConversationSettings(false)}
+        />
+      )}
+
+      {/* Replay Modal */}
+      {showReplay && activeConversation && (
+        <ConversationReplayModal
+          conversation={activeConversation}
+          tools={tools}
+          onCallTool={onCallTool}
+          onApproveToolCall={onApproveToolCall}
+          onClose={() => setShowReplay(false)}
+        />
+      )}
+    </div>
+  );
+});
+
+// A single conversation; keyed by conversation id so switching remounts the chat state
+function ConversationView({
+  conversation,
+  tools,
+  connectedServers,
+  settings,
+  isSettingsLoaded: isLoaded,
+  workflows,
+  orchestratorTimeoutMs,
+  mentionItems,
+  mentionContext,
+  activeRequests,
+  onCallTool,
+  onApproveToolCall,
+  onCancelRequest,
+  onMessagesChange,
+  onToggleServer,
+  onToggleConversations,
+  onOpenSettings,
+  onOpenConversationSettings,
+  onOpenReplay,
+}: ConversationViewProps) {
+  const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  // The `@query` being typed, the highlighted match and a picked item awaiting arguments
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [pendingMention, setPendingMention] = useState<MentionItem | null>(null);
+  const [isResolvingMention, setIsResolvingMention] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Handle tool execution from LLM - routes to correct server based on serverId
-  const handleToolCall = useCallback(async (toolCall: ToolCall): Promise<ToolCallResult> => {
-    const result = await onCallTool(toolCall.name, toolCall.arguments, toolCall.serverId);
+  const handleToolCall = useCallback(async (toolCall: ToolCall, signal?: AbortSignal): Promise<ToolCallResult> => {
+    const result = await onCallTool(toolCall.name, toolCall.arguments, toolCall.serverId, signal);
     return result;
   }, [onCallTool]);
 
-  const llmTools = convertToLLMTools(tools);
+  const llmTools = useMemo(() => convertToLLMTools(tools), [tools]);
+
+  // Tool calls use namespaced names; map back to the MCP tool for its output schema
+  const getOutputSchema = useCallback((toolName: string) => {
+    const toolDef = findToolByName(llmTools, toolName);
+    return tools.find(t => t.name === (toolDef?.originalName || toolName) && t.serverId === toolDef?.serverId)?.outputSchema;
+  }, [llmTools, tools]);
 
   const {
     messages,
@@ -62,10 +367,20 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
     sendMessage,
     clearMessages,
     retryLastMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
+    stopGeneration,
   } = useLLMChat({
     settings,
     tools: llmTools,
     onToolCall: handleToolCall,
+    workflows,
+    onApproveToolCall,
+    orchestratorTimeoutMs,
+    initialMessages: conversation.messages,
+    initialBranches: conversation.branches,
+    onMessagesChange,
   });
 
   // Compute activity status for the thinking indicator
@@ -74,6 +389,8 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
 
     // Check if there are any running tool calls in the last assistant message
     const lastAssistantMsg = [...messages].reverse().find(m => m.role === 'assistant');
+    // Tokens arriving in the bubble are indicator enough
+    if (lastAssistantMsg?.isStreaming && lastAssistantMsg.content) return null;
     if (lastAssistantMsg?.toolCalls) {
       const runningTool = lastAssistantMsg.toolCalls.find(tc => tc.status === 'running');
       if (runningTool) {
@@ -91,6 +408,9 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
 
   const activityStatus = getActivityStatus();
 
+  const usageSummary = useMemo(() => summarizeUsage(messages), [messages]);
+  const turnBudget = getTurnBudget(messages, getTurnLimits(settings));
+
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
@@ -101,14 +421,133 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
 
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!input.trim() || isLoading || !activeProvider) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading || !activeProvider) return;
 
     const message = input.trim();
+    const messageAttachments = attachments;
     setInput('');
-    await sendMessage(message);
+    setAttachments([]);
+    await sendMessage(message, messageAttachments);
+  };
+
+  // Pending attachments are capped per message; extras are dropped with a notice
+  const appendAttachments = (added: ChatAttachment[]) => {
+    if (attachments.length + added.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+    setAttachments(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS_PER_MESSAGE));
+  };
+
+  // Files picked, pasted or dropped into the input; rejected files are reported and skipped
+  const addFiles = async (files: File[]) => {
+    const available = Math.max(0, MAX_ATTACHMENTS_PER_MESSAGE - attachments.length);
+    const added: ChatAttachment[] = [];
+    for (const file of files.slice(0, available)) {
+      try {
+        added.push(await readAttachment(file));
+      } catch (err) {
+        toast.error('Could not attach file', {
+          description: err instanceof Error ? err.message : file.name,
+        });
+      }
+    }
+    if (files.length > available) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+    }
+    if (added.length > 0) appendAttachments(added);
+  };
+
+  const mentionMatches = mention && mentionContext ? filterMentionItems(mentionItems, mention.query) : [];
+  const isMentionPickerOpen = !!mentionContext && (!!mention || !!pendingMention);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    const query = mentionItems.length > 0 ? findMentionQuery(e.target.value, e.target.selectionStart) : null;
+    if (query?.query !== mention?.query) setMentionIndex(0);
+    setMention(query);
+  };
+
+  // Remove the typed `@query`; items with arguments wait for the form
+  const selectMention = (item: MentionItem) => {
+    if (mention) {
+      setInput(input.slice(0, mention.start) + input.slice(mention.start + mention.query.length + 1));
+    }
+    setMention(null);
+    if (getMentionArguments(item).length > 0) {
+      setPendingMention(item);
+    } else {
+      void insertMention(item, {});
+    }
+  };
+
+  const insertMention = async (item: MentionItem, args: Record<string, string>) => {
+    if (!mentionContext) return;
+    setIsResolvingMention(true);
+    try {
+      appendAttachments(await resolveMention(item, args, mentionContext));
+      setPendingMention(null);
+      inputRef.current?.focus();
+    } catch (err) {
+      toast.error(`Could not insert @${getMentionLabel(item)}`, {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsResolvingMention(false);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    void addFiles(files);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isLoading || !activeProvider) return;
+    void addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Export the conversation as currently shown, with its effective provider/model
+  const handleExport = (format: 'json' | 'md') => {
+    setShowExportMenu(false);
+    const exported: ChatConversation = {
+      ...conversation,
+      messages,
+      provider: settings.activeProvider || undefined,
+      model: settings.activeProvider ? settings.providers[settings.activeProvider].model : undefined,
+      systemPrompt: settings.systemPrompt,
+    };
+    if (format === 'json') {
+      downloadTextFile(getExportFileName(exported, 'json'), exportConversationJSON(exported), 'application/json');
+    } else {
+      downloadTextFile(getExportFileName(exported, 'md'), exportConversationMarkdown(exported), 'text/markdown');
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mention && mentionContext) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+      if (mentionMatches.length > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setMentionIndex((mentionIndex + step + mentionMatches.length) % mentionMatches.length);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+          e.preventDefault();
+          selectMention(mentionMatches[Math.min(mentionIndex, mentionMatches.length - 1)]);
+          return;
+        }
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
@@ -123,11 +562,26 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
     ? settings.providers[settings.activeProvider]
     : null;
 
+  // Images and PDFs the selected model can't take are sent as a note instead
+  const attachmentSupport = settings.activeProvider && activeConfig
+    ? getAttachmentSupport(settings.activeProvider, activeConfig.model)
+    : null;
+  const unsupportedAttachments = attachmentSupport
+    ? attachments.filter(a => !isAttachmentSupported(a, attachmentSupport))
+    : [];
+
   return (
     <div className="flex flex-col h-full bg-[var(--background)]">
       {/* Chat header */}
       <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--border)]">
         <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={onToggleConversations}
+            className="p-1.5 -ml-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+            title="Toggle conversations"
+          >
+            <PanelLeft className="w-4 h-4 text-[var(--foreground-muted)]" />
+          </button>
           {activeProvider ? (
             <>
               <div className="w-2 h-2 rounded-full bg-[var(--success)] pulse-glow" />
@@ -149,22 +603,65 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
           {/* Connected servers */}
           {connectedServers.length > 0 && (
             <div className="flex items-center gap-1.5 ml-2 pl-2 border-l border-[var(--border)]">
-              {connectedServers.map(server => (
-                <span
-                  key={server.id}
-                  className="px-2 py-0.5 text-xs bg-[var(--background-tertiary)] rounded-full text-[var(--foreground-muted)] flex items-center gap-1"
-                >
-                  <div className="w-1.5 h-1.5 rounded-full bg-[var(--success)]" />
-                  {server.name}
-                </span>
-              ))}
+              {connectedServers.map(server => {
+                const enabled = !conversation.enabledServerIds || conversation.enabledServerIds.includes(server.id);
+                return (
+                  <button
+                    key={server.id}
+                    onClick={() => onToggleServer(server.id)}
+                    className={`px-2 py-0.5 text-xs bg-[var(--background-tertiary)] rounded-full text-[var(--foreground-muted)] flex items-center gap-1 hover:text-[var(--foreground)] transition-colors ${enabled ? '' : 'opacity-50 line-through'}`}
+                    title={enabled ? 'Disable for this conversation' : 'Enable for this conversation'}
+                  >
+                    <div className={`w-1.5 h-1.5 rounded-full ${enabled ? 'bg-[var(--success)]' : 'bg-[var(--foreground-muted)]'}`} />
+                    {server.name}
+                  </button>
+                );
+              })}
             </div>
           )}
         </div>
         <div className="flex items-center gap-2">
+          <ConversationUsage summary={usageSummary} />
           <span className="text-xs text-[var(--foreground-muted)]">
             {tools.length} tools
           </span>
+          {messages.length > 0 && (
+            <>
+              <button
+                onClick={onOpenReplay}
+                disabled={isLoading}
+                className="p-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors disabled:opacity-50"
+                title="Replay tool calls"
+              >
+                <History className="w-4 h-4 text-[var(--foreground-muted)]" />
+              </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  className="p-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+                  title="Export conversation"
+                >
+                  <Download className="w-4 h-4 text-[var(--foreground-muted)]" />
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 top-full mt-1 z-10 w-36 py-1 bg-[var(--background-secondary)] border border-[var(--border)] rounded-lg shadow-lg">
+                    <button
+                      onClick={() => handleExport('json')}
+                      className="w-full px-3 py-1.5 text-left text-sm hover:bg-[var(--background-tertiary)]"
+                    >
+                      JSON
+                    </button>
+                    <button
+                      onClick={() => handleExport('md')}
+                      className="w-full px-3 py-1.5 text-left text-sm hover:bg-[var(--background-tertiary)]"
+                    >
+                      Markdown
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
           {messages.length > 0 && (
             <button
               onClick={clearMessages}
@@ -175,7 +672,14 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
             </button>
           )}
           <button
-            onClick={() => setShowSettings(true)}
+            onClick={onOpenConversationSettings}
+            className="p-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+            title="Conversation Settings"
+          >
+            <SlidersHorizontal className="w-4 h-4 text-[var(--foreground-muted)]" />
+          </button>
+          <button
+            onClick={onOpenSettings}
             className="p-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
             title="LLM Settings"
           >
@@ -196,7 +700,7 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
               Connect to OpenAI, Anthropic, Google Gemini, NVIDIA NIM, or any custom endpoint to start chatting.
             </p>
             <button
-              onClick={() => setShowSettings(true)}
+              onClick={onOpenSettings}
               className="px-4 py-2 bg-[var(--accent)] text-white rounded-lg text-sm font-medium hover:opacity-90 transition-opacity"
             >
               Open Settings
@@ -233,7 +737,15 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
         )}
 
         {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <MessageBubble
+            key={message.id}
+            message={message}
+            getOutputSchema={getOutputSchema}
+            branchInfo={getBranchInfo(message.id)}
+            canEdit={!isLoading && !!activeProvider}
+            onEdit={(content) => editMessage(message.id, content)}
+            onSwitchBranch={(index) => switchBranch(message.id, index)}
+          />
         ))}
 
         {activityStatus && (
@@ -265,49 +777,168 @@ export const ChatPanel = memo(function ChatPanel({ tools, onCallTool, disabled,
       </div>
 
       {/* Input area */}
-      <div className="p-4 border-t border-[var(--border)]">
+      <div
+        className={`p-4 border-t border-[var(--border)] ${isDragging ? 'bg-[var(--accent)]/5' : ''}`}
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        {isLoading && (
+          <div className="mb-3 space-y-2">
+            <TurnBudgetMeter budget={turnBudget} />
+            {activeRequests.map(request => (
+              <RequestProgress
+                key={request.requestId}
+                request={request}
+                showServer={connectedServers.length > 1}
+                onCancel={() => onCancelRequest?.(request)}
+              />
+            ))}
+          </div>
+        )}
+        {attachments.length > 0 && (
+          <div className="mb-2 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {attachments.map(attachment => (
+                <AttachmentPreview
+                  key={attachment.id}
+                  attachment={attachment}
+                  onRemove={() => setAttachments(prev => prev.filter(a => a.id !== attachment.id))}
+                />
+              ))}
+            </div>
+            {unsupportedAttachments.length > 0 && (
+              <div className="flex items-center gap-1.5 text-xs text-yellow-500">
+                <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+                {activeConfig?.model} can&apos;t read {unsupportedAttachments.map(a => a.name).join(', ')}; the model will only be told they were attached
+              </div>
+            )}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="relative">
+          {isMentionPickerOpen && (
+            <MentionPicker
+              items={mentionMatches}
+              activeIndex={mentionIndex}
+              onActiveIndexChange={setMentionIndex}
+              onSelect={selectMention}
+              pendingItem={pendingMention}
+              isResolving={isResolvingMention}
+              onSubmitArguments={(args) => pendingMention && insertMention(pendingMention, args)}
+              onCancelArguments={() => {
+                setPendingMention(null);
+                inputRef.current?.focus();
+              }}
+            />
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_ATTACHMENT_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              void addFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || !activeProvider}
+            className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-lg text-[var(--foreground-muted)] hover:text-[var(--foreground)] hover:bg-[var(--background-secondary)] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Attach images, PDFs or text files"
+          >
+            <Paperclip className="w-4 h-4" />
+          </button>
           <textarea
             ref={inputRef}
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={handleInputChange}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onBlur={() => setMention(null)}
             placeholder={
               !activeProvider
                 ? 'Configure an LLM provider to start chatting...'
+                : mentionItems.length > 0 && mentionContext
+                ? 'Type a message... (@ to add resources and prompts)'
                 : 'Type a message...'
             }
             disabled={isLoading || !activeProvider}
             rows={1}
-            className="w-full px-4 py-3 pr-12 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed text-sm placeholder:text-[var(--foreground-muted)]"
+            className="w-full pl-11 pr-12 py-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-[var(--accent)] focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed text-sm placeholder:text-[var(--foreground-muted)]"
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim() || !activeProvider}
-            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[var(--accent)]"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 text-white animate-spin" />
-            ) : (
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={stopGeneration}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accent-hover)]"
+              title="Stop generating"
+            >
+              <Square className="w-4 h-4 text-white fill-white" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={(!input.trim() && attachments.length === 0) || !activeProvider}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accent-hover)] disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-[var(--accent)]"
+            >
               <Send className="w-4 h-4 text-white" />
-            )}
-          </button>
+            </button>
+          )}
         </form>
       </div>
-
-      {/* Settings Modal */}
-      <LLMSettingsModal
-        isOpen={showSettings}
-        onClose={() => setShowSettings(false)}
-        onSettingsChange={updateSettings}
-        currentSettings={settings}
-      />
     </div>
   );
-});
+}
 
 // Message bubble component
-function MessageBubble({ message }: { message: ChatMessage }) {
+interface MessageBubbleProps {
+  message: ChatMessage;
+  getOutputSchema: (toolName: string) => Record<string, unknown> | undefined;
+  branchInfo: MessageBranchInfo | null;
+  canEdit: boolean;
+  onEdit: (content: string) => void;
+  onSwitchBranch: (index: number) => void;
+}
+
+// Previous/next arrows between the branches that fork at a message
+function BranchNavigator({ branchInfo, disabled, onSwitch }: {
+  branchInfo: MessageBranchInfo;
+  disabled: boolean;
+  onSwitch: (index: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-[var(--foreground-muted)]">
+      <button
+        onClick={() => onSwitch(branchInfo.index - 1)}
+        disabled={disabled || branchInfo.index === 0}
+        className="p-0.5 hover:text-[var(--foreground)] disabled:opacity-40 disabled:hover:text-[var(--foreground-muted)]"
+        title="Previous branch"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">{branchInfo.index + 1}/{branchInfo.count}</span>
+      <button
+        onClick={() => onSwitch(branchInfo.index + 1)}
+        disabled={disabled || branchInfo.index === branchInfo.count - 1}
+        className="p-0.5 hover:text-[var(--foreground)] disabled:opacity-40 disabled:hover:text-[var(--foreground-muted)]"
+        title="Next branch"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
+
+function MessageBubble({ message, getOutputSchema, branchInfo, canEdit, onEdit, onSwitchBranch }: MessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const isUser = message.role === 'user';
   const isTool = message.role === 'tool';
   const isAssistant = message.role === 'assistant';
@@ -349,17 +980,73 @@ function MessageBubble({ message }: { message: ChatMessage }) {
         {isAssistant && message.toolCalls && message.toolCalls.length > 0 && (
           <div className="mb-2 space-y-2">
             {message.toolCalls.map(toolCall => (
-              <ToolCallBubble key={toolCall.id} toolCall={toolCall} />
+              <ToolCallBubble
+                key={toolCall.id}
+                toolCall={toolCall}
+                outputSchema={getOutputSchema(toolCall.name)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Editing a user message forks the conversation */}
+        {isEditing && (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  if (draft.trim() || message.attachments?.length) {
+                    setIsEditing(false);
+                    onEdit(draft);
+                  }
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              autoFocus
+              rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+              className="w-full min-w-[16rem] px-4 py-2.5 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-2xl resize-y text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-xs font-medium transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  setIsEditing(false);
+                  onEdit(draft);
+                }}
+                disabled={(!draft.trim() && !message.attachments?.length) || !canEdit}
+                className="px-3 py-1 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Attachments (kept when the message is edited) */}
+        {message.attachments && message.attachments.length > 0 && (
+          <div className={`flex flex-wrap gap-2 mb-1 ${isUser ? 'justify-end' : ''}`}>
+            {message.attachments.map(attachment => (
+              <AttachmentPreview key={attachment.id} attachment={attachment} />
             ))}
           </div>
         )}
 
         {/* Message content */}
-        {message.content && (
+        {(message.content || !!message.attachments?.length) && !isEditing && (
           <>
-            <div className={`rounded-2xl px-4 py-2.5 ${
+            {message.content && <div className={`rounded-2xl px-4 py-2.5 ${
               isUser
                 ? 'bg-[var(--accent)] text-white rounded-br-md'
+                : message.stopReason === 'budget'
+                ? 'bg-yellow-500/10 border border-yellow-500/20 text-yellow-500 rounded-bl-md'
                 : message.error
                 ? 'bg-red-500/10 border border-red-500/20 text-red-400 rounded-bl-md'
                 : 'bg-[var(--background-tertiary)] border border-[var(--border)] rounded-bl-md'
@@ -382,12 +1069,32 @@ function MessageBubble({ message }: { message: ChatMessage }) {
                   <ReactMarkdown remarkPlugins={[remarkGfm]}>
                     {message.content}
                   </ReactMarkdown>
+                  {message.isStreaming && (
+                    <span className="inline-block w-1.5 h-4 -mb-0.5 bg-[var(--foreground-muted)] animate-pulse" />
+                  )}
                 </div>
               )}
-            </div>
-            <div className="text-xs text-[var(--foreground-muted)] mt-1 px-1">
-              {new Date(message.timestamp).toLocaleTimeString()}
-            </div>
+            </div>}
+            {!message.isStreaming && (
+              <div className={`flex items-center gap-2 text-xs text-[var(--foreground-muted)] mt-1 px-1 ${isUser ? 'justify-end' : ''}`}>
+                {isUser && canEdit && (
+                  <button
+                    onClick={() => {
+                      setDraft(message.content);
+                      setIsEditing(true);
+                    }}
+                    className="p-0.5 hover:text-[var(--foreground)]"
+                    title="Edit and branch"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                )}
+                {isUser && branchInfo && (
+                  <BranchNavigator branchInfo={branchInfo} disabled={!canEdit} onSwitch={onSwitchBranch} />
+                )}
+                {new Date(message.timestamp).toLocaleTimeString()}
+              </div>
+            )}
           </>
         )}
 
@@ -411,9 +1118,47 @@ function MessageBubble({ message }: { message: ChatMessage }) {
   );
 }
 
+// Image thumbnail or file chip for an attachment; removable while composing
+function AttachmentPreview({ attachment, onRemove }: { attachment: ChatAttachment; onRemove?: () => void }) {
+  return (
+    <div className="relative group" title={`${attachment.name} (${formatFileSize(attachment.size)})`}>
+      {attachment.kind === 'image' ? (
+        <img
+          src={getAttachmentDataUrl(attachment)}
+          alt={attachment.name}
+          className="h-16 w-16 object-cover rounded-lg border border-[var(--border)]"
+        />
+      ) : (
+        <div className="h-16 max-w-[12rem] flex items-center gap-2 px-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg">
+          <FileText className="w-4 h-4 flex-shrink-0 text-[var(--foreground-muted)]" />
+          <div className="min-w-0 text-xs">
+            <div className="truncate font-medium">{attachment.name}</div>
+            <div className="text-[var(--foreground-muted)]">
+              {attachment.source?.type === 'resource' ? `Resource · ${attachment.source.serverName}`
+                : attachment.source?.type === 'prompt' ? `Prompt · ${attachment.source.serverName}`
+                : `${attachment.kind === 'pdf' ? 'PDF' : 'Text'} · ${formatFileSize(attachment.size)}`}
+            </div>
+          </div>
+        </div>
+      )}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-[var(--background-secondary)] border border-[var(--border)] text-[var(--foreground-muted)] hover:text-[var(--foreground)] opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Remove attachment"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
 // Tool call indicator - subtle like Claude's interface
-function ToolCallBubble({ toolCall }: { toolCall: ToolCall }) {
+function ToolCallBubble({ toolCall, outputSchema }: { toolCall: ToolCall; outputSchema?: Record<string, unknown> }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const toolName = splitToolName(toolCall.name);
 
   const statusText = {
     pending: 'Preparing to use',
@@ -423,8 +1168,11 @@ function ToolCallBubble({ toolCall }: { toolCall: ToolCall }) {
   };
 
   // Extract result content for display
-  const resultContent = toolCall.result as { content?: ToolResultContent[]; isError?: boolean } | undefined;
+  const resultContent = toolCall.result as { content?: ToolResultContent[]; isError?: boolean; structuredContent?: Record<string, unknown> } | undefined;
   const hasResult = toolCall.status === 'completed' && resultContent?.content;
+  const outputViolations = toolCall.status === 'completed' && resultContent
+    ? validateToolResult(outputSchema, resultContent)
+    : [];
 
   // Format result text for display
   const getResultText = () => {
@@ -461,8 +1209,20 @@ function ToolCallBubble({ toolCall }: { toolCall: ToolCall }) {
           <Wrench className="w-3 h-3" />
         )}
         <span className="italic">
-          {statusText[toolCall.status]} <span className="font-medium not-italic">{toolCall.name}</span>
+          {statusText[toolCall.status]}{' '}
+          <span className="font-medium not-italic">
+            {toolName.server && <span className="opacity-60">{toolName.server}{TOOL_NAMESPACE_SEPARATOR}</span>}
+            {toolName.tool}
+          </span>
         </span>
+        {toolCall.startedAt && toolCall.completedAt && (
+          <span className="opacity-60">{((toolCall.completedAt - toolCall.startedAt) / 1000).toFixed(1)}s</span>
+        )}
+        {outputViolations.length > 0 && (
+          <span title="Result doesn't match the tool's output schema">
+            <AlertCircle className="w-3 h-3 text-yellow-500" />
+          </span>
+        )}
         <ChevronRight className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
       </button>
       {isExpanded && (
@@ -485,6 +1245,32 @@ function ToolCallBubble({ toolCall }: { toolCall: ToolCall }) {
               </pre>
             </div>
           )}
+          {/* Orchestrator and workflow runs: return value, nested tool calls and logs */}
+          {isOrchestratorResult(toolCall.result) && (
+            <div className="mt-2">
+              <OrchestratorResultView result={toolCall.result} />
+            </div>
+          )}
+          {/* Structured content */}
+          {toolCall.status === 'completed' && resultContent?.structuredContent !== undefined && (
+            <div className="mt-2">
+              <div className="text-[10px] uppercase tracking-wide opacity-50 mb-1">Structured Output</div>
+              <StructuredContentView value={resultContent.structuredContent} compact />
+            </div>
+          )}
+          {/* Output schema violations */}
+          {outputViolations.length > 0 && (
+            <div className="mt-2 text-yellow-500">
+              <div className="text-[10px] uppercase tracking-wide opacity-75 mb-1">Output schema violations</div>
+              <ul className="space-y-0.5 text-[10px]">
+                {outputViolations.map((violation, index) => (
+                  <li key={index}>
+                    <span className="font-mono">{violation.path}</span>: {violation.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           {/* Error section */}
           {toolCall.error && (
             <div className="text-red-400 mt-1">
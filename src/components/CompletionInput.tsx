@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import type { MCPCompletionResult } from '@/lib/types';
+
+// Wait for a pause in typing before asking the server
+const COMPLETION_DEBOUNCE_MS = 250;
+
+interface CompletionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Suggestions for the current value; omit when the server lacks the completions capability
+  onComplete?: (value: string) => Promise<MCPCompletionResult>;
+  placeholder?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Text input with as-you-type suggestions from `completion/complete`.
+ * Failed requests just hide the suggestions.
+ */
+export function CompletionInput({ value, onChange, onComplete, placeholder, autoFocus, disabled, className }: CompletionInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [completion, setCompletion] = useState<MCPCompletionResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isDismissed, setIsDismissed] = useState(false);
+  // Callers pass inline callbacks; the latest one is read when the timer fires
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const requestIdRef = useRef(0);
+  const canComplete = !!onComplete;
+
+  useEffect(() => {
+    if (!isFocused || !canComplete) return;
+    const requestId = ++requestIdRef.current;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const result = await onCompleteRef.current?.(value);
+        if (requestId !== requestIdRef.current) return;
+        setCompletion(result || null);
+        setActiveIndex(-1);
+      } catch {
+        if (requestId === requestIdRef.current) setCompletion(null);
+      } finally {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      }
+    }, COMPLETION_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [value, isFocused, canComplete]);
+
+  const suggestions = (completion?.values || []).filter(s => s !== value);
+  const isOpen = isFocused && !isDismissed && suggestions.length > 0;
+  const hiddenCount = completion?.total !== undefined ? completion.total - completion.values.length : 0;
+
+  const select = (suggestion: string) => {
+    onChange(suggestion);
+    setIsDismissed(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      select(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setIsDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsDismissed(false);
+        }}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        className={className}
+      />
+      {isLoading && isFocused && (
+        <Loader2 className="absolute right-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 animate-spin text-[var(--foreground-muted)]" />
+      )}
+      {isOpen && (
+        <div className="absolute z-50 left-0 right-0 mt-1 max-h-48 overflow-y-auto bg-[var(--background-secondary)] border border-[var(--border)] rounded-lg shadow-xl">
+          {suggestions.map((suggestion, index) => (
+            <button
+              key={suggestion}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`w-full text-left px-3 py-1.5 text-sm truncate transition-colors ${index === activeIndex ? 'bg-[var(--background-tertiary)]' : ''}`}
+            >
+              {suggestion}
+            </button>
+          ))}
+          {(completion?.hasMore || hiddenCount > 0) && (
+            <div className="px-3 py-1.5 text-xs text-[var(--foreground-muted)] border-t border-[var(--border)]">
+              {completion?.total !== undefined
+                ? `Showing ${completion.values.length} of ${completion.total}`
+                : 'More matches available'}
+              {' '}&middot; keep typing to narrow
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
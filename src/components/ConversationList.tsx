@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useRef, memo } from 'react';
+import { Plus, Upload, Search, Pin, PinOff, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react';
+import type { ChatConversation } from '@/lib/llm-types';
+import { searchConversations, sortConversations } from '@/lib/useConversations';
+
+interface ConversationListProps {
+  conversations: ChatConversation[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onImport: (file: File) => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface ConversationItemProps {
+  conversation: ChatConversation;
+  snippet?: string;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onDelete: () => void;
+}
+
+const ConversationItem = memo(function ConversationItem({
+  conversation,
+  snippet,
+  isActive,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ConversationItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const commitRename = () => {
+    onRename(title);
+    setIsRenaming(false);
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="flex items-center gap-1 px-2 py-1.5">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsRenaming(false);
+          }}
+          autoFocus
+          className="flex-1 min-w-0 px-2 py-1 bg-[var(--background-tertiary)] border border-[var(--border)] rounded text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        />
+        <button onClick={commitRename} className="p-1 hover:bg-[var(--background-tertiary)] rounded" title="Save">
+          <Check className="w-3.5 h-3.5 text-[var(--success)]" />
+        </button>
+        <button onClick={() => setIsRenaming(false)} className="p-1 hover:bg-[var(--background-tertiary)] rounded" title="Cancel">
+          <X className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`group relative rounded-lg transition-colors ${
+        isActive ? 'bg-[var(--background-tertiary)]' : 'hover:bg-[var(--background-tertiary)]/50'
+      }`}
+    >
+      <button onClick={onSelect} className="w-full text-left px-3 py-2 pr-16">
+        <div className="flex items-center gap-1.5">
+          {conversation.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-[var(--accent)]" />}
+          <span className="text-sm truncate">{conversation.title}</span>
+        </div>
+        <p className="text-xs text-[var(--foreground-muted)] truncate">
+          {snippet || `${conversation.messages.length} messages · ${new Date(conversation.updatedAt).toLocaleDateString()}`}
+        </p>
+      </button>
+
+      <div className={`absolute right-1 top-1/2 -translate-y-1/2 flex items-center ${confirmDelete ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity`}>
+        {confirmDelete ? (
+          <>
+            <button onClick={onDelete} className="p-1 hover:bg-red-500/20 rounded" title="Confirm delete">
+              <Check className="w-3.5 h-3.5 text-red-400" />
+            </button>
+            <button onClick={() => setConfirmDelete(false)} className="p-1 hover:bg-[var(--background)] rounded" title="Cancel">
+              <X className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={onTogglePin} className="p-1 hover:bg-[var(--background)] rounded" title={conversation.pinned ? 'Unpin' : 'Pin'}>
+              {conversation.pinned
+                ? <PinOff className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+                : <Pin className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />}
+            </button>
+            <button
+              onClick={() => {
+                setTitle(conversation.title);
+                setIsRenaming(true);
+              }}
+              className="p-1 hover:bg-[var(--background)] rounded"
+              title="Rename"
+            >
+              <Pencil className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+            </button>
+            <button onClick={() => setConfirmDelete(true)} className="p-1 hover:bg-[var(--background)] rounded" title="Delete">
+              <Trash2 className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
+export const ConversationList = memo(function ConversationList({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onImport,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ConversationListProps) {
+  const [search, setSearch] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const results = searchConversations(sortConversations(conversations), search);
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col border-r border-[var(--border)] bg-[var(--background-secondary)]">
+      <div className="p-3 space-y-2 border-b border-[var(--border)]">
+        <div className="flex gap-2">
+          <button
+            onClick={onCreate}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Chat
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg transition-colors"
+            title="Import conversation (JSON)"
+          >
+            <Upload className="w-4 h-4 text-[var(--foreground-muted)]" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            className="w-full pl-8 pr-3 py-1.5 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-0.5">
+        {results.map(({ conversation, snippet }) => (
+          <ConversationItem
+            key={conversation.id}
+            conversation={conversation}
+            snippet={search ? snippet : undefined}
+            isActive={conversation.id === activeConversationId}
+            onSelect={() => onSelect(conversation.id)}
+            onRename={(title) => onRename(conversation.id, title)}
+            onTogglePin={() => onTogglePin(conversation.id)}
+            onDelete={() => onDelete(conversation.id)}
+          />
+        ))}
+
+        {results.length === 0 && (
+          <div className="flex flex-col items-center text-center py-8 text-sm text-[var(--foreground-muted)]">
+            <MessageSquare className="w-6 h-6 mb-2" />
+            {search ? <>No conversations matching &quot;{search}&quot;</> : 'No conversations yet'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
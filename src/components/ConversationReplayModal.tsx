@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { X, History, Play, Loader2, Check, AlertCircle, MinusCircle, ChevronRight, GitCompare } from 'lucide-react';
+import type { MCPTool, ToolCallResult, ToolApprovalRequest } from '@/lib/types';
+import type { ChatConversation, ToolCall } from '@/lib/llm-types';
+import { getReplayableToolCalls } from '@/lib/conversationExport';
+import { diffJson } from '@/lib/jsonDiff';
+import type { JsonDiffEntry } from '@/lib/jsonDiff';
+import { namespaceTools } from '@/lib/toolNames';
+import { JsonDiffView } from './JsonDiffView';
+
+interface ConversationReplayModalProps {
+  conversation: ChatConversation;
+  tools: Array<MCPTool & { serverId?: string; serverName?: string }>;
+  onCallTool: (name: string, args: Record<string, unknown>, serverId?: string) => Promise<ToolCallResult>;
+  onApproveToolCall?: (request: Omit<ToolApprovalRequest, 'id'>) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface ReplayOutcome {
+  status: 'running' | 'completed' | 'skipped';
+  serverName?: string;
+  reason?: string; // Why the call was skipped
+  diff?: JsonDiffEntry[];
+}
+
+// Errors are compared as `{ error }` so a call that now fails (or now succeeds) shows up in the diff
+function getRecordedOutcome(toolCall: ToolCall): unknown {
+  return toolCall.status === 'error' ? { error: toolCall.error } : toolCall.result;
+}
+
+export function ConversationReplayModal({
+  conversation,
+  tools,
+  onCallTool,
+  onApproveToolCall,
+  onClose,
+}: ConversationReplayModalProps) {
+  const [mounted, setMounted] = useState(false);
+  const [outcomes, setOutcomes] = useState<Record<string, ReplayOutcome>>({});
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const replayable = getReplayableToolCalls(conversation.messages);
+
+  useEffect(() => {
+    setMounted(true);
+    cancelledRef.current = false;
+    return () => {
+      setMounted(false);
+      cancelledRef.current = true;
+    };
+  }, []);
+
+  const setOutcome = (id: string, outcome: ReplayOutcome) => {
+    setOutcomes(prev => ({ ...prev, [id]: outcome }));
+  };
+
+  // Recorded calls use namespaced names (`server__tool`); older ones the bare MCP name.
+  // Prefer the server that handled the original call, then any server offering the tool.
+  const resolveTool = (toolCall: ToolCall) => {
+    const namespaced = namespaceTools(tools).find(t => t.name === toolCall.name);
+    const name = namespaced?.originalName || toolCall.name;
+    return tools.find(t => t.name === name && t.serverId === (namespaced?.serverId || toolCall.serverId)) ||
+      tools.find(t => t.name === name);
+  };
+
+  const replayToolCall = async (toolCall: ToolCall) => {
+    const tool = resolveTool(toolCall);
+    if (!tool) {
+      setOutcome(toolCall.id, { status: 'skipped', reason: 'Tool is not available on any connected server' });
+      return;
+    }
+
+    setOutcome(toolCall.id, { status: 'running', serverName: tool.serverName });
+
+    if (onApproveToolCall) {
+      const approved = await onApproveToolCall({
+        toolName: tool.name,
+        serverId: tool.serverId,
+        serverName: tool.serverName,
+        arguments: toolCall.arguments,
+        annotations: tool.annotations,
+        source: 'replay',
+      });
+      if (!approved) {
+        setOutcome(toolCall.id, { status: 'skipped', serverName: tool.serverName, reason: 'Denied' });
+        return;
+      }
+    }
+
+    let replayed: unknown;
+    try {
+      replayed = await onCallTool(tool.name, toolCall.arguments, tool.serverId);
+    } catch (err) {
+      replayed = { error: err instanceof Error ? err.message : 'Tool execution failed' };
+    }
+
+    setOutcome(toolCall.id, {
+      status: 'completed',
+      serverName: tool.serverName,
+      diff: diffJson(getRecordedOutcome(toolCall), replayed),
+    });
+  };
+
+  const replayAll = async () => {
+    setIsReplaying(true);
+    setOutcomes({});
+    for (const { toolCall } of replayable) {
+      if (cancelledRef.current) break;
+      await replayToolCall(toolCall);
+    }
+    setIsReplaying(false);
+  };
+
+  const completed = Object.values(outcomes).filter(o => o.status === 'completed');
+  const changedCount = completed.filter(o => o.diff && o.diff.length > 0).length;
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && !isReplaying && onClose()}
+    >
+      <div className="bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl w-full max-w-2xl shadow-2xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[var(--border)] flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-[var(--accent)]/10 rounded-lg">
+              <History className="w-5 h-5 text-[var(--accent)]" />
+            </div>
+            <div>
+              <h3 className="text-base font-semibold">Replay Tool Calls</h3>
+              <p className="text-xs text-[var(--foreground-muted)]">
+                Re-runs {replayable.length} recorded tool call{replayable.length === 1 ? '' : 's'} against connected servers and compares the results
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-2 overflow-y-auto flex-1">
+          {replayable.length === 0 && (
+            <div className="text-center py-8 text-sm text-[var(--foreground-muted)]">
+              This conversation has no recorded MCP tool calls
+            </div>
+          )}
+
+          {replayable.map(({ toolCall }, index) => {
+            const outcome = outcomes[toolCall.id];
+            const isExpanded = expandedId === toolCall.id;
+            const hasDiff = outcome?.status === 'completed' && outcome.diff;
+            return (
+              <div key={toolCall.id} className="border border-[var(--border)] rounded-lg bg-[var(--background-tertiary)]/50">
+                <button
+                  onClick={() => hasDiff && setExpandedId(isExpanded ? null : toolCall.id)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-left"
+                >
+                  <ChevronRight className={`w-3.5 h-3.5 text-[var(--foreground-muted)] transition-transform ${isExpanded ? 'rotate-90' : ''} ${hasDiff ? '' : 'invisible'}`} />
+                  <span className="text-xs text-[var(--foreground-muted)] w-5">{index + 1}</span>
+                  <span className="font-mono text-sm truncate">{toolCall.name}</span>
+                  {outcome?.serverName && (
+                    <span className="text-xs text-[var(--foreground-muted)] truncate">{outcome.serverName}</span>
+                  )}
+                  <span className="ml-auto flex items-center gap-1.5 text-xs flex-shrink-0">
+                    {!outcome && <span className="text-[var(--foreground-muted)]">Recorded {toolCall.status === 'error' ? 'error' : 'result'}</span>}
+                    {outcome?.status === 'running' && (
+                      <>
+                        <Loader2 className="w-3.5 h-3.5 animate-spin text-[var(--foreground-muted)]" />
+                        <span className="text-[var(--foreground-muted)]">Running</span>
+                      </>
+                    )}
+                    {outcome?.status === 'skipped' && (
+                      <>
+                        <MinusCircle className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+                        <span className="text-[var(--foreground-muted)]">Skipped: {outcome.reason}</span>
+                      </>
+                    )}
+                    {outcome?.status === 'completed' && outcome.diff?.length === 0 && (
+                      <>
+                        <Check className="w-3.5 h-3.5 text-[var(--success)]" />
+                        <span className="text-[var(--success)]">Identical</span>
+                      </>
+                    )}
+                    {outcome?.status === 'completed' && !!outcome.diff?.length && (
+                      <>
+                        <AlertCircle className="w-3.5 h-3.5 text-yellow-500" />
+                        <span className="text-yellow-500">{outcome.diff.length} difference{outcome.diff.length === 1 ? '' : 's'}</span>
+                      </>
+                    )}
+                  </span>
+                </button>
+
+                {isExpanded && outcome?.diff && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <div className="flex items-center gap-1.5 text-xs text-[var(--foreground-muted)]">
+                      <GitCompare className="w-3 h-3" />
+                      Recorded → replayed
+                    </div>
+                    <JsonDiffView diff={outcome.diff} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 p-4 border-t border-[var(--border)] flex-shrink-0">
+          <span className="flex-1 text-xs text-[var(--foreground-muted)]">
+            {completed.length > 0 && `${completed.length} replayed, ${changedCount} changed`}
+          </span>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isReplaying}
+            className="px-3 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={replayAll}
+            disabled={isReplaying || replayable.length === 0}
+            className="flex items-center gap-1.5 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            {isReplaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            {completed.length > 0 ? 'Replay Again' : 'Replay'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!mounted) return null;
+  return createPortal(modalContent, document.body);
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, SlidersHorizontal, Server, Wrench } from 'lucide-react';
+import type { MCPTool } from '@/lib/types';
+import type { ChatConversation, LLMProvider, LLMSettings } from '@/lib/llm-types';
+import { LLM_PROVIDERS } from '@/lib/llm-types';
+
+interface ConversationSettingsModalProps {
+  conversation: ChatConversation;
+  settings: LLMSettings;
+  tools: Array<MCPTool & { serverId?: string; serverName?: string }>;
+  connectedServers: Array<{ id: string; name: string }>;
+  onSave: (patch: Partial<ChatConversation>) => void;
+  onClose: () => void;
+}
+
+export function ConversationSettingsModal({
+  conversation,
+  settings,
+  tools,
+  connectedServers,
+  onSave,
+  onClose,
+}: ConversationSettingsModalProps) {
+  const [mounted, setMounted] = useState(false);
+  const [provider, setProvider] = useState<LLMProvider | ''>(conversation.provider || '');
+  const [model, setModel] = useState(conversation.model || '');
+  const [systemPrompt, setSystemPrompt] = useState(conversation.systemPrompt || '');
+  const [enabledServerIds, setEnabledServerIds] = useState<string[]>(
+    conversation.enabledServerIds || connectedServers.map(s => s.id)
+  );
+  const [disabledTools, setDisabledTools] = useState<string[]>(conversation.disabledTools || []);
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  const providerInfo = LLM_PROVIDERS.find(p => p.id === provider);
+  const effectiveProvider = provider || settings.activeProvider;
+
+  const toggleServer = (serverId: string) => {
+    setEnabledServerIds(prev =>
+      prev.includes(serverId) ? prev.filter(id => id !== serverId) : [...prev, serverId]
+    );
+  };
+
+  const toggleTool = (key: string) => {
+    setDisabledTools(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleSave = () => {
+    const allServersEnabled = connectedServers.every(s => enabledServerIds.includes(s.id));
+    onSave({
+      provider: provider || undefined,
+      model: provider ? model.trim() || undefined : undefined,
+      systemPrompt: systemPrompt.trim() || undefined,
+      enabledServerIds: allServersEnabled ? undefined : enabledServerIds,
+      disabledTools: disabledTools.length > 0 ? disabledTools : undefined,
+    });
+    onClose();
+  };
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl w-full max-w-lg shadow-2xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[var(--border)] flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-[var(--accent)]/10 rounded-lg">
+              <SlidersHorizontal className="w-5 h-5 text-[var(--accent)]" />
+            </div>
+            <div>
+              <h3 className="text-base font-semibold">Conversation Settings</h3>
+              <p className="text-xs text-[var(--foreground-muted)] truncate max-w-[20rem]">{conversation.title}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-[var(--foreground-muted)] mb-1">Provider</label>
+              <select
+                value={provider}
+                onChange={(e) => {
+                  const next = e.target.value as LLMProvider | '';
+                  setProvider(next);
+                  setModel(next ? settings.providers[next].model : '');
+                }}
+                className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+              >
+                <option value="">Default (global)</option>
+                {LLM_PROVIDERS.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-[var(--foreground-muted)] mb-1">Model</label>
+              <input
+                type="text"
+                value={provider ? model : effectiveProvider ? settings.providers[effectiveProvider].model : ''}
+                onChange={(e) => setModel(e.target.value)}
+                disabled={!provider}
+                list="conversation-models"
+                placeholder="Model id"
+                className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50"
+              />
+              <datalist id="conversation-models">
+                {providerInfo?.models.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-[var(--foreground-muted)] mb-1">System Prompt</label>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder={settings.systemPrompt || 'Uses the global system prompt when empty'}
+              rows={4}
+              className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] resize-y placeholder:text-[var(--foreground-muted)]"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center gap-1.5 text-sm text-[var(--foreground-muted)] mb-2">
+              <Server className="w-4 h-4" />
+              Servers &amp; Tools
+            </div>
+            {connectedServers.length === 0 ? (
+              <p className="text-sm text-[var(--foreground-muted)]">No connected servers</p>
+            ) : (
+              <div className="space-y-3">
+                {connectedServers.map(server => {
+                  const serverEnabled = enabledServerIds.includes(server.id);
+                  const serverTools = tools.filter(t => t.serverId === server.id);
+                  return (
+                    <div key={server.id} className="p-2.5 bg-[var(--background-tertiary)] rounded-lg">
+                      <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={serverEnabled}
+                          onChange={() => toggleServer(server.id)}
+                          className="rounded border-[var(--border)]"
+                        />
+                        {server.name}
+                        <span className="text-xs text-[var(--foreground-muted)] font-normal">
+                          {serverTools.length} tools
+                        </span>
+                      </label>
+                      {serverEnabled && serverTools.length > 0 && (
+                        <div className="mt-2 ml-6 space-y-1">
+                          {serverTools.map(tool => {
+                            const key = `${server.id}:${tool.name}`;
+                            return (
+                              <label key={key} className="flex items-center gap-2 text-xs cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={!disabledTools.includes(key)}
+                                  onChange={() => toggleTool(key)}
+                                  className="rounded border-[var(--border)]"
+                                />
+                                <Wrench className="w-3 h-3 text-[var(--foreground-muted)]" />
+                                <span className="font-mono">{tool.name}</span>
+                              </label>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-2 p-4 border-t border-[var(--border)] flex-shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 px-3 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="flex-1 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!mounted) return null;
+  return createPortal(modalContent, document.body);
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useCallback, useRef, Suspense, lazy, memo } from 'react';
+import { useEffect, useState, useCallback, useRef, useMemo, Suspense, lazy, memo } from 'react';
 import { Toaster, toast } from 'sonner';
 import { useSession } from 'next-auth/react';
 import { useMultiServerMcp } from '@/lib/useMultiServerMcp';
@@ -8,13 +8,19 @@ import { useOAuth } from '@/lib/useOAuth';
 import { useServerSync } from '@/lib/useServerSync';
 import { useSamplingFlow } from '@/lib/useSamplingFlow';
 import { useElicitationFlow } from '@/lib/useElicitationFlow';
+import { useToolApproval } from '@/lib/useToolApproval';
+import { useRequestHistory } from '@/lib/useRequestHistory';
+import { useWorkflows } from '@/lib/useWorkflows';
+import { useRequestTimeouts } from '@/lib/useRequestTimeouts';
+import { useRoots } from '@/lib/useRoots';
 import { ServerList, AddServerModal } from '@/components/ServerList';
 import { ServerInfo } from '@/components/ServerInfo';
 import { SamplingModal } from '@/components/SamplingModal';
 import { ElicitationModal } from '@/components/ElicitationModal';
+import { ToolApprovalModal } from '@/components/ToolApprovalModal';
 import { useLLMSettings } from '@/components/LLMSettings';
 import { UserMenu } from '@/components/UserMenu';
-import type { OAuthCredentials, TransportType, SamplingRequest, ElicitationRequest } from '@/lib/types';
+import type { OAuthCredentials, TransportType, SamplingRequest, ElicitationRequest, MCPCompletionRef, MCPActiveRequestStatus } from '@/lib/types';
 import {
   MessageSquare,
   Wrench,
@@ -29,6 +35,11 @@ import {
   X,
   Github,
   LogIn,
+  Activity,
+  History,
+  Workflow,
+  ScrollText,
+  FolderTree,
 } from 'lucide-react';
 
 // Dynamic imports for code splitting - panels are lazy loaded
@@ -36,8 +47,13 @@ const ChatPanel = lazy(() => import('@/components/ChatPanel').then(m => ({ defau
 const ToolsPanel = lazy(() => import('@/components/ToolsPanel').then(m => ({ default: m.ToolsPanel })));
 const ResourcesPanel = lazy(() => import('@/components/ResourcesPanel').then(m => ({ default: m.ResourcesPanel })));
 const PromptsPanel = lazy(() => import('@/components/PromptsPanel').then(m => ({ default: m.PromptsPanel })));
+const TrafficPanel = lazy(() => import('@/components/TrafficPanel').then(m => ({ default: m.TrafficPanel })));
+const LogsPanel = lazy(() => import('@/components/LogsPanel').then(m => ({ default: m.LogsPanel })));
+const RootsPanel = lazy(() => import('@/components/RootsPanel').then(m => ({ default: m.RootsPanel })));
+const HistoryPanel = lazy(() => import('@/components/HistoryPanel').then(m => ({ default: m.HistoryPanel })));
+const WorkflowsPanel = lazy(() => import('@/components/WorkflowsPanel').then(m => ({ default: m.WorkflowsPanel })));
 
-type ActivePanel = 'chat' | 'tools' | 'resources' | 'prompts';
+type ActivePanel = 'chat' | 'tools' | 'resources' | 'prompts' | 'workflows' | 'history' | 'traffic' | 'logs' | 'roots';
 
 // Loading fallback component
 const PanelLoader = memo(function PanelLoader() {
@@ -113,6 +129,23 @@ export default function Dashboard() {
     startOAuth,
   } = useOAuth();
 
+  // Replayable request history (tools/call, resources/read, prompts/get)
+  const {
+    history: requestHistory,
+    recordRequest,
+    removeEntry: removeHistoryEntry,
+    clearHistory,
+  } = useRequestHistory();
+
+  // Approval gates and per-tool policies for tools called from chat
+  const toolApproval = useToolApproval();
+
+  // Default and per-tool response timeouts
+  const requestTimeouts = useRequestTimeouts();
+
+  // Roots exposed to servers through roots/list
+  const { roots, saveRoot, deleteRoot } = useRoots();
+
   // These refs will be set after useMultiServerMcp — use temp callbacks
   const samplingFlowRef = { current: null as ReturnType<typeof useSamplingFlow> | null };
   const elicitationFlowRef = { current: null as ReturnType<typeof useElicitationFlow> | null };
@@ -131,9 +164,23 @@ export default function Dashboard() {
     callToolOnServer,
     readResource,
     getPrompt,
+    readResourceOnServer,
+    getPromptOnServer,
     getAllTools,
+    getAllActiveRequests,
+    getAllResources,
+    getAllResourceTemplates,
+    getAllPrompts,
+    getCompletion,
+    subscribeResource,
+    unsubscribeResource,
     respondToSamplingRequest,
     respondToElicitationRequest,
+    clearTraffic,
+    cancelRequest,
+    setLogLevel,
+    clearLogs,
+    sendRequest,
   } = useMultiServerMcp({
     onError: useCallback((serverId: string, error: Error) => {
       toast.error(error.message);
@@ -144,6 +191,9 @@ export default function Dashboard() {
     onElicitationRequest: useCallback((request: ElicitationRequest) => {
       elicitationFlowRef.current?.onElicitationRequest(request);
     }, []),
+    onRequestComplete: recordRequest,
+    timeouts: requestTimeouts.settings,
+    roots,
   });
 
   // Sampling flow (extracted hook)
@@ -368,19 +418,59 @@ export default function Dashboard() {
 
   // Get tools from ALL connected servers for the chat
   const allTools = getAllTools();
+  // Resources, templates and prompts from all connected servers, for chat @-mentions
+  const allResources = getAllResources();
+  const allResourceTemplates = getAllResourceTemplates();
+  const allPrompts = getAllPrompts();
+  // Tool calls in flight on any connected server, with progress
+  const allActiveRequests = getAllActiveRequests();
+  const handleCancelRequest = useCallback((request: MCPActiveRequestStatus) => {
+    cancelRequest(request.serverId, request.requestId);
+  }, [cancelRequest]);
   // Current server's resources and prompts (still per-server)
   const currentResources = activeServer?.resources || [];
   const currentPrompts = activeServer?.prompts || [];
+  // Argument completions for the active server, when it supports them
+  const getActiveServerCompletion = useMemo(() => {
+    if (!activeServer?.capabilities?.completions) return undefined;
+    const serverId = activeServer.id;
+    return (ref: MCPCompletionRef, argument: { name: string; value: string }, contextArguments?: Record<string, string>) =>
+      getCompletion(serverId, ref, argument, contextArguments);
+  }, [activeServer?.id, activeServer?.capabilities?.completions, getCompletion]);
+  // Resource subscription handlers for the active server, when it supports `resources.subscribe`
+  const canSubscribeResources = typeof activeServer?.capabilities?.resources === 'object' && !!activeServer.capabilities.resources.subscribe;
+  const activeServerSubscriptions = useMemo(() => {
+    if (!activeServerId || !canSubscribeResources) return undefined;
+    const serverId = activeServerId;
+    return {
+      onSubscribe: (uri: string) => subscribeResource(serverId, uri),
+      onUnsubscribe: (uri: string) => unsubscribeResource(serverId, uri),
+    };
+  }, [activeServerId, canSubscribeResources, subscribeResource, unsubscribeResource]);
 
   // Handler to call tool on the correct server
-  const handleCallToolOnServer = useCallback(async (name: string, args: Record<string, unknown>, serverId?: string) => {
+  const handleCallToolOnServer = useCallback(async (name: string, args: Record<string, unknown>, serverId?: string, signal?: AbortSignal) => {
     if (serverId) {
-      return await callToolOnServer(serverId, name, args);
+      return await callToolOnServer(serverId, name, args, signal);
     }
     // Fallback to active server if no serverId provided
-    return await callTool(name, args);
+    return await callTool(name, args, signal);
   }, [callTool, callToolOnServer]);
 
+  // Saved orchestrator workflows; scheduled runs keep going whichever panel is open
+  const {
+    workflows,
+    runningIds: runningWorkflowIds,
+    saveWorkflow,
+    deleteWorkflow,
+    runWorkflow,
+  } = useWorkflows({
+    tools: allTools,
+    onCallTool: handleCallToolOnServer,
+    onApproveToolCall: toolApproval.requestApproval,
+    timeoutMs: requestTimeouts.settings.maxTotalTimeoutMs,
+  });
+
   // Tools for the active server (for the Tools panel)
   const currentTools = activeServer?.tools || [];
 
@@ -389,8 +479,17 @@ export default function Dashboard() {
     { id: 'tools' as const, label: 'Tools', icon: Wrench, count: currentTools.length },
     { id: 'resources' as const, label: 'Resources', icon: FileText, count: currentResources.length },
     { id: 'prompts' as const, label: 'Prompts', icon: BookOpen, count: currentPrompts.length },
+    { id: 'workflows' as const, label: 'Workflows', icon: Workflow, count: workflows.length },
+    { id: 'history' as const, label: 'History', icon: History, count: requestHistory.length },
+    { id: 'traffic' as const, label: 'Traffic', icon: Activity, count: activeServer?.traffic.length ?? 0 },
+    { id: 'logs' as const, label: 'Logs', icon: ScrollText, count: activeServer?.logMessages.length ?? 0 },
+    { id: 'roots' as const, label: 'Roots', icon: FolderTree, count: roots.length },
   ];
 
+  // Chat, workflows and roots are always available; traffic and logs stay inspectable after a failed or lost connection
+  const isPanelDisabled = (id: ActivePanel) =>
+    !isConnected && id !== 'chat' && id !== 'workflows' && id !== 'roots' && !((id === 'traffic' || id === 'logs') && activeServer);
+
   return (
     <div className="h-screen flex flex-col md:flex-row overflow-hidden">
       <Toaster
@@ -541,7 +640,7 @@ export default function Dashboard() {
               icon={item.icon}
               count={item.count}
               isActive={activePanel === item.id}
-              disabled={!isConnected && item.id !== 'chat'}
+              disabled={isPanelDisabled(item.id)}
               collapsed={sidebarCollapsed}
               onClick={() => setActivePanel(item.id)}
             />
@@ -587,6 +686,16 @@ export default function Dashboard() {
                     connectedServers={servers
                       .filter(s => s.status === 'connected')
                       .map(s => ({ id: s.id, name: s.serverInfo?.name || s.name }))}
+                    workflows={workflows}
+                    onApproveToolCall={toolApproval.requestApproval}
+                    orchestratorTimeoutMs={requestTimeouts.settings.maxTotalTimeoutMs}
+                    resources={allResources}
+                    resourceTemplates={allResourceTemplates}
+                    prompts={allPrompts}
+                    onReadResource={readResourceOnServer}
+                    onGetPrompt={getPromptOnServer}
+                    activeRequests={allActiveRequests}
+                    onCancelRequest={handleCancelRequest}
                   />
                 )}
 
@@ -595,13 +704,28 @@ export default function Dashboard() {
                     tools={currentTools}
                     onCallTool={callTool}
                     disabled={!isConnected}
+                    history={requestHistory.filter(e => e.serverId === activeServer?.id && e.method === 'tools/call')}
+                    policies={activeServer ? toolApproval.policies[activeServer.id] : undefined}
+                    onPolicyChange={(toolName, policy) => toolApproval.setPolicy(activeServer?.id, toolName, policy)}
+                    activeRequests={allActiveRequests.filter(r => r.serverId === activeServer?.id)}
+                    onCancelRequest={handleCancelRequest}
+                    timeoutSettings={requestTimeouts.settings}
+                    onTimeoutSettingsChange={requestTimeouts.updateSettings}
+                    toolTimeouts={activeServer ? requestTimeouts.settings.toolTimeouts[activeServer.id] : undefined}
+                    onToolTimeoutChange={activeServer ? (toolName, timeoutMs) => requestTimeouts.setToolTimeout(activeServer.id, toolName, timeoutMs) : undefined}
                   />
                 )}
 
                 {activePanel === 'resources' && isConnected && (
                   <ResourcesPanel
                     resources={currentResources}
+                    resourceTemplates={activeServer?.resourceTemplates}
                     onReadResource={readResource}
+                    onGetCompletion={getActiveServerCompletion}
+                    subscriptions={activeServer?.resourceSubscriptions}
+                    resourceUpdates={activeServer?.resourceUpdates}
+                    onSubscribe={activeServerSubscriptions?.onSubscribe}
+                    onUnsubscribe={activeServerSubscriptions?.onUnsubscribe}
                     disabled={!isConnected}
                   />
                 )}
@@ -610,12 +734,61 @@ export default function Dashboard() {
                   <PromptsPanel
                     prompts={currentPrompts}
                     onGetPrompt={getPrompt}
+                    onGetCompletion={getActiveServerCompletion}
                     disabled={!isConnected}
                   />
                 )}
 
+                {activePanel === 'workflows' && (
+                  <WorkflowsPanel
+                    workflows={workflows}
+                    runningIds={runningWorkflowIds}
+                    onSave={saveWorkflow}
+                    onDelete={deleteWorkflow}
+                    onRun={runWorkflow}
+                  />
+                )}
+
+                {activePanel === 'history' && isConnected && (
+                  <HistoryPanel
+                    history={requestHistory}
+                    connectedServers={servers
+                      .filter(s => s.status === 'connected')
+                      .map(s => ({ id: s.id, name: s.serverInfo?.name || s.name }))}
+                    onSend={sendRequest}
+                    onRemove={removeHistoryEntry}
+                    onClear={clearHistory}
+                  />
+                )}
+
+                {activePanel === 'traffic' && activeServer && (
+                  <TrafficPanel
+                    traffic={activeServer.traffic}
+                    serverName={activeServer.name}
+                    onClear={() => clearTraffic(activeServer.id)}
+                  />
+                )}
+
+                {activePanel === 'roots' && (
+                  <RootsPanel
+                    roots={roots}
+                    servers={servers.map(s => ({ id: s.id, name: s.name }))}
+                    onSave={saveRoot}
+                    onDelete={deleteRoot}
+                  />
+                )}
+
+                {activePanel === 'logs' && activeServer && (
+                  <LogsPanel
+                    servers={servers}
+                    activeServerId={activeServerId}
+                    onSetLevel={setLogLevel}
+                    onClear={clearLogs}
+                  />
+                )}
+
                 {/* Show prompt when non-chat panels selected without connection */}
-                {activePanel !== 'chat' && !isConnected && (
+                {isPanelDisabled(activePanel) && (
                   <div className="flex flex-col items-center justify-center h-full text-center">
                     <div className="w-16 h-16 md:w-20 md:h-20 mx-auto rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4 md:mb-6">
                       <Server className="w-8 h-8 md:w-10 md:h-10 text-[var(--foreground-muted)]" />
@@ -638,7 +811,7 @@ export default function Dashboard() {
             {navItems.map((item) => {
               const Icon = item.icon;
               const isActive = activePanel === item.id;
-              const disabled = !isConnected && item.id !== 'chat';
+              const disabled = isPanelDisabled(item.id);
               return (
                 <button
                   key={item.id}
@@ -703,6 +876,16 @@ export default function Dashboard() {
           onCancel={elicitationFlow.handleCancel}
         />
       )}
+
+      {/* Tool Approval Modal */}
+      {toolApproval.pendingRequest && (
+        <ToolApprovalModal
+          request={toolApproval.pendingRequest}
+          pendingCount={toolApproval.pendingCount}
+          onApprove={toolApproval.handleApprove}
+          onDeny={toolApproval.handleDeny}
+        />
+      )}
     </div>
   );
 }
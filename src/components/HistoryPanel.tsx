@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { History, Send, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check, Trash2, RotateCcw } from 'lucide-react';
+import type { MCPRequestHistoryEntry } from '@/lib/types';
+import { getHistoryEntryLabel } from '@/lib/useRequestHistory';
+
+interface ConnectedServer {
+  id: string;
+  name: string;
+}
+
+interface HistoryPanelProps {
+  history: MCPRequestHistoryEntry[];
+  connectedServers: ConnectedServer[];
+  onSend: (serverId: string, method: string, params?: Record<string, unknown>) => Promise<unknown>;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+interface HistoryCardProps {
+  entry: MCPRequestHistoryEntry;
+  connectedServers: ConnectedServer[];
+  onSend: (serverId: string, params?: Record<string, unknown>) => Promise<unknown>;
+  onRemove: () => void;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  'tools/call': 'bg-[var(--accent)]/10 text-[var(--accent)]',
+  'resources/read': 'bg-blue-500/10 text-blue-400',
+  'prompts/get': 'bg-purple-500/10 text-purple-400',
+};
+
+const HistoryCard = memo(function HistoryCard({ entry, connectedServers, onSend, onRemove }: HistoryCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [paramsText, setParamsText] = useState(() => JSON.stringify(entry.params ?? {}, null, 2));
+  const [targetServerId, setTargetServerId] = useState(() =>
+    connectedServers.some(s => s.id === entry.serverId) ? entry.serverId : connectedServers[0]?.id || ''
+  );
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  let parseError: string | null = null;
+  try {
+    const parsed = JSON.parse(paramsText);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      parseError = 'Params must be a JSON object';
+    }
+  } catch (err) {
+    parseError = err instanceof Error ? err.message : 'Invalid JSON';
+  }
+
+  const handleSend = async () => {
+    if (parseError || !targetServerId) return;
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const sendResult = await onSend(targetServerId, JSON.parse(paramsText));
+      setResult(JSON.stringify(sendResult, null, 2));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyResult = () => {
+    if (result) {
+      navigator.clipboard.writeText(result);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
+      {/* Header */}
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-[var(--background-tertiary)] transition-colors"
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-mono flex-shrink-0 ${METHOD_STYLES[entry.method] || 'bg-[var(--background-tertiary)] text-[var(--foreground-muted)]'}`}>
+            {entry.method}
+          </span>
+          <div className="text-left min-w-0">
+            <span className="font-medium text-sm truncate block">{getHistoryEntryLabel(entry)}</span>
+            <p className="text-xs text-[var(--foreground-muted)] truncate">
+              {entry.serverName} · {new Date(entry.timestamp).toLocaleString()} · {entry.durationMs} ms
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className={`w-2 h-2 rounded-full ${entry.status === 'success' ? 'bg-[var(--success)]' : 'bg-red-400'}`} />
+          {expanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--foreground-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--foreground-muted)]" />
+          )}
+        </div>
+      </button>
+
+      {/* Expanded content */}
+      {expanded && (
+        <div className="p-4 border-t border-[var(--border)] space-y-4">
+          {/* Target server */}
+          <div>
+            <label className="block text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide mb-2">Server</label>
+            <select
+              value={targetServerId}
+              onChange={(e) => setTargetServerId(e.target.value)}
+              disabled={isLoading || connectedServers.length === 0}
+              className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50"
+            >
+              {connectedServers.length === 0 && <option value="">No connected servers</option>}
+              {connectedServers.map(server => (
+                <option key={server.id} value={server.id}>{server.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Params editor */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Params</label>
+              <button
+                onClick={() => setParamsText(JSON.stringify(entry.params ?? {}, null, 2))}
+                className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                title="Reset to recorded params"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </button>
+            </div>
+            <textarea
+              value={paramsText}
+              onChange={(e) => setParamsText(e.target.value)}
+              disabled={isLoading}
+              rows={Math.min(Math.max(paramsText.split('\n').length, 4), 16)}
+              spellCheck={false}
+              className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50"
+            />
+            {parseError && (
+              <p className="mt-1 text-xs text-red-400">{parseError}</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSend}
+              disabled={isLoading || !!parseError || !targetServerId}
+              className="flex items-center gap-2 px-4 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                <>
+                  <Send className="w-4 h-4" />
+                  Resend
+                </>
+              )}
+            </button>
+            <button
+              onClick={onRemove}
+              className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+              title="Remove from history"
+            >
+              <Trash2 className="w-4 h-4 text-[var(--foreground-muted)]" />
+            </button>
+          </div>
+
+          {/* Recorded error */}
+          {!result && !error && entry.status === 'error' && entry.error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              Recorded error: {entry.error}
+            </div>
+          )}
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* Result display */}
+          {result && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Result</h4>
+                <button
+                  onClick={copyResult}
+                  className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+                >
+                  {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <pre className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg overflow-auto max-h-96 font-mono text-xs whitespace-pre-wrap">
+                {result}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const HistoryPanel = memo(function HistoryPanel({ history, connectedServers, onSend, onRemove, onClear }: HistoryPanelProps) {
+  const [search, setSearch] = useState('');
+
+  const filteredHistory = history.filter(entry =>
+    entry.method.toLowerCase().includes(search.toLowerCase()) ||
+    getHistoryEntryLabel(entry).toLowerCase().includes(search.toLowerCase()) ||
+    entry.serverName.toLowerCase().includes(search.toLowerCase())
+  );
+
+  if (history.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8">
+        <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
+          <History className="w-8 h-8 text-[var(--foreground-muted)]" />
+        </div>
+        <h3 className="text-lg font-medium mb-2">No Request History</h3>
+        <p className="text-sm text-[var(--foreground-muted)] max-w-sm">
+          Tool calls, resource reads and prompt requests will appear here so you can edit and resend them.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Search */}
+      <div className="mb-4 flex items-center gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search history..."
+          className="flex-1 px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+        />
+        <button
+          onClick={onClear}
+          className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          title="Clear history"
+        >
+          <Trash2 className="w-4 h-4 text-[var(--foreground-muted)]" />
+        </button>
+      </div>
+
+      {/* History list */}
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {filteredHistory.map((entry) => (
+          <HistoryCard
+            key={entry.id}
+            entry={entry}
+            connectedServers={connectedServers}
+            onSend={(serverId, params) => onSend(serverId, entry.method, params)}
+            onRemove={() => onRemove(entry.id)}
+          />
+        ))}
+
+        {filteredHistory.length === 0 && search && (
+          <div className="text-center py-8 text-[var(--foreground-muted)]">
+            No requests matching &quot;{search}&quot;
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
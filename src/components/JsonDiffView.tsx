@@ -0,0 +1,42 @@
+'use client';
+
+import { memo } from 'react';
+import type { JsonDiffEntry } from '@/lib/jsonDiff';
+
+interface JsonDiffViewProps {
+  diff: JsonDiffEntry[];
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  const text = JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+export const JsonDiffView = memo(function JsonDiffView({ diff }: JsonDiffViewProps) {
+  return (
+    <div className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg overflow-auto max-h-96 font-mono text-xs space-y-1">
+      {diff.length === 0 && (
+        <div className="text-[var(--foreground-muted)]">No differences</div>
+      )}
+      {diff.map((item, index) => (
+        <div key={index} className="break-all">
+          <span className={
+            item.type === 'added' ? 'text-green-400' :
+            item.type === 'removed' ? 'text-red-400' :
+            'text-yellow-400'
+          }>
+            {item.type === 'added' ? '+' : item.type === 'removed' ? '-' : '~'} {item.path}
+          </span>
+          {item.type !== 'added' && (
+            <span className="ml-2 text-red-300/80">{formatValue(item.before)}</span>
+          )}
+          {item.type === 'changed' && <span className="mx-1 text-[var(--foreground-muted)]">→</span>}
+          {item.type !== 'removed' && (
+            <span className={item.type === 'added' ? 'ml-2 text-green-300/80' : 'text-green-300/80'}>{formatValue(item.after)}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+});
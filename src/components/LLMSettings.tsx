@@ -2,8 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import { Settings, Eye, EyeOff, Check, X, Cpu, Zap, Brain, Server, Globe, Plus, Trash2, ChevronDown, RefreshCw, Loader2 } from 'lucide-react';
-import type { LLMProvider, LLMSettings, LLMProviderConfig } from '@/lib/llm-types';
-import { LLM_PROVIDERS, DEFAULT_LLM_SETTINGS, ALL_PROVIDER_KEYS } from '@/lib/llm-types';
+import type { LLMProvider, LLMSettings, LLMProviderConfig, LLMTurnLimits, ToolLoadingPolicy } from '@/lib/llm-types';
+import { LLM_PROVIDERS, DEFAULT_LLM_SETTINGS, ALL_PROVIDER_KEYS, DEFAULT_MAX_PARALLEL_TOOL_CALLS } from '@/lib/llm-types';
+import { getTurnLimits } from '@/lib/usage';
+import { getToolLoadingPolicy } from '@/lib/toolSearch';
 
 const STORAGE_KEY = 'llm-settings';
 
@@ -130,6 +132,15 @@ export function LLMSettingsModal({ isOpen, onClose, onSettingsChange, currentSet
 
   if (!isOpen) return null;
 
+  const turnLimits = getTurnLimits(settings);
+  const updateTurnLimits = (patch: Partial<LLMTurnLimits>) => {
+    setSettings(prev => ({ ...prev, turnLimits: { ...prev.turnLimits, ...patch } }));
+  };
+  const toolLoading = getToolLoadingPolicy(settings);
+  const updateToolLoading = (patch: Partial<ToolLoadingPolicy>) => {
+    setSettings(prev => ({ ...prev, toolLoading: { ...prev.toolLoading, ...patch } }));
+  };
+
   const fetchModels = async (provider: LLMProvider) => {
     const config = settings.providers[provider];
     setFetchingModels(prev => ({ ...prev, [provider]: true }));
@@ -487,6 +498,44 @@ export function LLMSettingsModal({ isOpen, onClose, onSettingsChange, currentSet
               className="w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] resize-none"
             />
           </div>
+
+          {/* Agent Loop */}
+          <div className="rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] p-4">
+            <label className="block text-sm font-medium mb-1">Agent Loop &amp; Tool Loading</label>
+            <p className="text-xs text-[var(--foreground-muted)] mb-3">
+              Caps for each message you send. When one is reached the assistant stops with a &quot;budget exhausted&quot; notice. Independent tool calls in one response (read-only tools, or tools on different servers) run in parallel up to the parallel limit; set it to 1 to run them one by one. When there are more tools than the defer limits allow, they are left out of requests and found by the assistant through tool search.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                { label: 'Max steps', value: turnLimits.maxSteps, max: 100, onChange: (maxSteps: number) => updateTurnLimits({ maxSteps }) },
+                { label: 'Max tool calls', value: turnLimits.maxToolCalls, max: 500, onChange: (maxToolCalls: number) => updateTurnLimits({ maxToolCalls }) },
+                { label: 'Max tokens', value: turnLimits.maxTokens, max: 10000000, onChange: (maxTokens: number) => updateTurnLimits({ maxTokens }) },
+                {
+                  label: 'Parallel tool calls',
+                  value: settings.maxParallelToolCalls || DEFAULT_MAX_PARALLEL_TOOL_CALLS,
+                  max: 16,
+                  onChange: (maxParallelToolCalls: number) => setSettings(prev => ({ ...prev, maxParallelToolCalls })),
+                },
+                { label: 'Defer tools above (count)', value: toolLoading.maxTools, max: 10000, onChange: (maxTools: number) => updateToolLoading({ maxTools }) },
+                { label: 'Defer tools above (tokens)', value: toolLoading.maxTokens, max: 1000000, onChange: (maxTokens: number) => updateToolLoading({ maxTokens }) },
+              ]).map(field => (
+                <div key={field.label}>
+                  <label className="block text-xs text-[var(--foreground-muted)] mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={field.max}
+                    value={field.value}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      if (!Number.isNaN(value)) field.onChange(Math.min(field.max, Math.max(1, value)));
+                    }}
+                    className="w-full px-3 py-2 bg-[var(--background)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, memo, useMemo } from 'react';
+import { toast } from 'sonner';
+import { ScrollText, Trash2, Pause, Play, Download } from 'lucide-react';
+import type { MCPLogLevel, ServerInstance } from '@/lib/types';
+import type { ServerLogMessage } from '@/lib/serverLogs';
+import { LOG_LEVELS, filterLogMessages, formatLogData, mergeLogMessages, exportLogsJsonl } from '@/lib/serverLogs';
+import { downloadTextFile } from '@/lib/conversationExport';
+
+interface LogsPanelProps {
+  servers: ServerInstance[];
+  activeServerId: string | null;
+  onSetLevel: (serverId: string, level: MCPLogLevel) => Promise<void>;
+  onClear: (serverId: string) => void;
+}
+
+const LEVEL_STYLES: Record<MCPLogLevel, string> = {
+  debug: 'bg-gray-500/10 text-gray-400',
+  info: 'bg-blue-500/10 text-blue-400',
+  notice: 'bg-cyan-500/10 text-cyan-400',
+  warning: 'bg-yellow-500/10 text-yellow-400',
+  error: 'bg-red-500/10 text-red-400',
+  critical: 'bg-red-500/20 text-red-300',
+  alert: 'bg-orange-500/20 text-orange-300',
+  emergency: 'bg-fuchsia-500/20 text-fuchsia-300',
+};
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
+
+const LogEntry = memo(function LogEntry({ message, showServer }: { message: ServerLogMessage; showServer: boolean }) {
+  const [expanded, setExpanded] = useState(false);
+  const text = formatLogData(message.data);
+  const isStructured = typeof message.data !== 'string';
+
+  return (
+    <div className="rounded-lg border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-3 py-2 flex items-center gap-3 text-xs hover:bg-[var(--background-tertiary)] transition-colors"
+      >
+        <span className="font-mono text-[var(--foreground-subtle)] flex-shrink-0">{formatTime(message.timestamp)}</span>
+        <span className={`px-1.5 py-0.5 rounded text-[10px] uppercase flex-shrink-0 ${LEVEL_STYLES[message.level]}`}>{message.level}</span>
+        {showServer && <span className="text-[var(--foreground-muted)] flex-shrink-0">{message.serverName}</span>}
+        {message.logger && <span className="font-mono text-purple-400 flex-shrink-0">{message.logger}</span>}
+        <span className={`truncate flex-1 text-left ${isStructured ? 'font-mono' : ''}`}>
+          {isStructured ? JSON.stringify(message.data) : text}
+        </span>
+      </button>
+      {expanded && (
+        <pre className="p-3 border-t border-[var(--border)] overflow-auto max-h-96 font-mono text-xs whitespace-pre-wrap break-all">
+          {text}
+        </pre>
+      )}
+    </div>
+  );
+});
+
+// Sends logging/setLevel; the server only emits messages at or above this level
+function LevelSelect({ value, onChange }: { value?: MCPLogLevel; onChange: (level: MCPLogLevel) => void }) {
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value as MCPLogLevel)}
+      className="px-3 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+      title="Server log level (logging/setLevel)"
+    >
+      <option value="" disabled>Server level…</option>
+      {LOG_LEVELS.map(level => <option key={level} value={level}>Server: {level}</option>)}
+    </select>
+  );
+}
+
+/**
+ * Log console for `notifications/message`, for the active server or merged
+ * across all servers. Pausing freezes the list while messages keep arriving.
+ */
+export const LogsPanel = memo(function LogsPanel({ servers, activeServerId, onSetLevel, onClear }: LogsPanelProps) {
+  const [scope, setScope] = useState<'server' | 'all'>('server');
+  const [minLevel, setMinLevel] = useState<MCPLogLevel>('debug');
+  const [logger, setLogger] = useState('');
+  const [search, setSearch] = useState('');
+  const [pausedMessages, setPausedMessages] = useState<ServerLogMessage[] | null>(null);
+
+  const activeServer = servers.find(s => s.id === activeServerId);
+  const scopedServers = useMemo(
+    () => scope === 'all' ? servers : servers.filter(s => s.id === activeServerId),
+    [scope, servers, activeServerId]
+  );
+
+  const liveMessages = useMemo(() => mergeLogMessages(scopedServers.map(s => ({
+    serverId: s.id,
+    serverName: s.name,
+    logMessages: s.logMessages,
+  }))), [scopedServers]);
+  const messages = pausedMessages ?? liveMessages;
+
+  const loggers = useMemo(() => [...new Set(messages.map(m => m.logger).filter((l): l is string => !!l))].sort(), [messages]);
+  const filteredMessages = useMemo(
+    () => filterLogMessages(messages, { minLevel, logger, search }),
+    [messages, minLevel, logger, search]
+  );
+
+  const missedCount = useMemo(() => {
+    if (!pausedMessages) return 0;
+    const seen = new Set(pausedMessages.map(m => m.id));
+    return liveMessages.filter(m => !seen.has(m.id)).length;
+  }, [pausedMessages, liveMessages]);
+
+  const canSetLevel = scope === 'server' && activeServer?.status === 'connected' && !!activeServer.capabilities?.logging;
+
+  const handleSetLevel = async (level: MCPLogLevel) => {
+    if (!activeServer) return;
+    try {
+      await onSetLevel(activeServer.id, level);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to set log level');
+    }
+  };
+
+  // A paused snapshot belongs to the scope it was taken in
+  const changeScope = (next: 'server' | 'all') => {
+    setScope(next);
+    setPausedMessages(null);
+  };
+
+  const handleClear = () => {
+    for (const server of scopedServers) onClear(server.id);
+    setPausedMessages(null);
+  };
+
+  const handleExport = () => {
+    const name = scope === 'all' ? 'all-servers' : activeServer?.name.replace(/[^A-Za-z0-9-_]+/g, '-') || 'server';
+    downloadTextFile(`${name}-logs.jsonl`, exportLogsJsonl(filteredMessages), 'application/x-ndjson');
+  };
+
+  if (liveMessages.length === 0 && !pausedMessages) {
+    return (
+      <div className="h-full flex flex-col">
+        {canSetLevel && (
+          <div className="mb-4 flex justify-end">
+            <LevelSelect value={activeServer?.logLevel} onChange={handleSetLevel} />
+          </div>
+        )}
+        <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+          <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
+            <ScrollText className="w-8 h-8 text-[var(--foreground-muted)]" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No Logs Yet</h3>
+          <p className="text-sm text-[var(--foreground-muted)] max-w-sm">
+            {scope === 'all'
+              ? 'Log messages from connected servers will appear here.'
+              : `Log messages from ${activeServer?.name || 'the server'} will appear here.`}
+          </p>
+          {servers.length > 1 && (
+            <button onClick={() => changeScope(scope === 'all' ? 'server' : 'all')} className="mt-4 text-sm text-[var(--accent)] hover:underline">
+              {scope === 'all' ? 'Show this server' : 'Show all servers'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Filters */}
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search logs..."
+          className="flex-1 min-w-40 px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+        />
+        <select
+          value={scope}
+          onChange={(e) => changeScope(e.target.value as 'server' | 'all')}
+          className="px-3 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        >
+          <option value="server">This server</option>
+          <option value="all">All servers</option>
+        </select>
+        <select
+          value={minLevel}
+          onChange={(e) => setMinLevel(e.target.value as MCPLogLevel)}
+          className="px-3 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          title="Minimum level to show"
+        >
+          {LOG_LEVELS.map(level => (
+            <option key={level} value={level}>{level === 'debug' ? 'All levels' : `${level}+`}</option>
+          ))}
+        </select>
+        {loggers.length > 0 && (
+          <select
+            value={logger}
+            onChange={(e) => setLogger(e.target.value)}
+            className="px-3 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          >
+            <option value="">All loggers</option>
+            {loggers.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        {canSetLevel && <LevelSelect value={activeServer?.logLevel} onChange={handleSetLevel} />}
+        <button
+          onClick={() => setPausedMessages(pausedMessages ? null : liveMessages)}
+          className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          title={pausedMessages ? 'Resume' : 'Pause'}
+        >
+          {pausedMessages ? <Play className="w-4 h-4 text-[var(--foreground-muted)]" /> : <Pause className="w-4 h-4 text-[var(--foreground-muted)]" />}
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={filteredMessages.length === 0}
+          className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors disabled:opacity-50"
+          title="Export as JSONL"
+        >
+          <Download className="w-4 h-4 text-[var(--foreground-muted)]" />
+        </button>
+        <button
+          onClick={handleClear}
+          className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          title="Clear logs"
+        >
+          <Trash2 className="w-4 h-4 text-[var(--foreground-muted)]" />
+        </button>
+      </div>
+
+      <div className="mb-2 text-xs text-[var(--foreground-muted)]">
+        {filteredMessages.length} of {messages.length} messages
+        {pausedMessages && <span className="ml-2 text-yellow-400">Paused · {missedCount} new</span>}
+      </div>
+
+      {/* Log list */}
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {filteredMessages.map(message => (
+          <LogEntry key={message.id} message={message} showServer={scope === 'all'} />
+        ))}
+
+        {filteredMessages.length === 0 && (
+          <div className="text-center py-8 text-[var(--foreground-muted)]">
+            No log messages match the current filters
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, FileCode, BookOpen, Loader2, X } from 'lucide-react';
+import type { MentionItem } from '@/lib/mentions';
+import { getMentionKey, getMentionLabel, getMentionDetail, getMentionArguments } from '@/lib/mentions';
+
+const TYPE_ICONS = {
+  resource: FileText,
+  template: FileCode,
+  prompt: BookOpen,
+};
+
+const TYPE_LABELS = {
+  resource: 'Resource',
+  template: 'Template',
+  prompt: 'Prompt',
+};
+
+interface MentionListProps {
+  items: MentionItem[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onSelect: (item: MentionItem) => void;
+}
+
+// Matches for the `@query` being typed; keyboard navigation is handled by the chat input
+function MentionList({ items, activeIndex, onActiveIndexChange, onSelect }: MentionListProps) {
+  if (items.length === 0) {
+    return (
+      <div className="px-3 py-2 text-xs text-[var(--foreground-muted)]">
+        No matching resources or prompts
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-64 overflow-y-auto py-1">
+      {items.map((item, index) => {
+        const Icon = TYPE_ICONS[item.type];
+        const detail = getMentionDetail(item);
+        return (
+          <button
+            key={getMentionKey(item)}
+            type="button"
+            // Keep focus in the input while picking
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => onActiveIndexChange(index)}
+            onClick={() => onSelect(item)}
+            className={`w-full px-3 py-1.5 flex items-center gap-2 text-left ${index === activeIndex ? 'bg-[var(--background-tertiary)]' : ''}`}
+          >
+            <Icon className={`w-4 h-4 flex-shrink-0 ${item.type === 'prompt' ? 'text-purple-400' : 'text-[var(--foreground-muted)]'}`} />
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="truncate font-medium">{getMentionLabel(item)}</span>
+                <span className="text-[10px] uppercase tracking-wide text-[var(--foreground-muted)]">{TYPE_LABELS[item.type]}</span>
+              </div>
+              {detail && <div className="text-xs text-[var(--foreground-muted)] truncate">{detail}</div>}
+            </div>
+            <span className="text-xs text-[var(--foreground-muted)] flex-shrink-0">{item.serverName}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface MentionArgumentsFormProps {
+  item: MentionItem;
+  isResolving: boolean;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+// Prompt arguments or template variables to fill in before the mention is inserted
+function MentionArgumentsForm({ item, isResolving, onSubmit, onCancel }: MentionArgumentsFormProps) {
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const mentionArguments = getMentionArguments(item);
+  const isComplete = mentionArguments.every(arg => !arg.required || args[arg.name]?.trim());
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (isComplete && !isResolving) onSubmit(args);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+      className="p-3 space-y-3"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-medium truncate">@{getMentionLabel(item)}</div>
+          <div className="text-xs text-[var(--foreground-muted)] truncate">{getMentionDetail(item) || item.serverName}</div>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-1 hover:bg-[var(--background-tertiary)] rounded text-[var(--foreground-muted)]"
+          title="Cancel"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {mentionArguments.map((arg, index) => (
+        <div key={arg.name}>
+          <label className="block text-xs font-medium mb-1">
+            {arg.name}
+            {arg.required && <span className="text-red-400 ml-1">*</span>}
+          </label>
+          {arg.description && (
+            <p className="text-xs text-[var(--foreground-muted)] mb-1">{arg.description}</p>
+          )}
+          <input
+            type="text"
+            value={args[arg.name] || ''}
+            onChange={(e) => setArgs(prev => ({ ...prev, [arg.name]: e.target.value }))}
+            autoFocus={index === 0}
+            className="w-full px-3 py-1.5 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+          />
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={!isComplete || isResolving}
+          className="px-3 py-1.5 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50 flex items-center gap-1.5"
+        >
+          {isResolving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Insert
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface MentionPickerProps extends MentionListProps {
+  pendingItem: MentionItem | null;
+  isResolving: boolean;
+  onSubmitArguments: (args: Record<string, string>) => void;
+  onCancelArguments: () => void;
+}
+
+/**
+ * Popover above the chat input for `@`-mentions of resources, resource
+ * templates and prompts. Items that take arguments open a form first.
+ */
+export function MentionPicker({ pendingItem, isResolving, onSubmitArguments, onCancelArguments, ...listProps }: MentionPickerProps) {
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-10 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl shadow-lg overflow-hidden">
+      {pendingItem ? (
+        <MentionArgumentsForm
+          key={getMentionKey(pendingItem)}
+          item={pendingItem}
+          isResolving={isResolving}
+          onSubmit={onSubmitArguments}
+          onCancel={onCancelArguments}
+        />
+      ) : (
+        <MentionList {...listProps} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { ChevronRight, Check, X, AlertCircle } from 'lucide-react';
+import type { OrchestratorResult, OrchestratorTraceEntry, ToolResultContent } from '@/lib/llm-types';
+import { splitToolName, TOOL_NAMESPACE_SEPARATOR } from '@/lib/toolNames';
+import { StructuredContentView } from './StructuredContentView';
+
+// Orchestrator results are stored on tool calls and workflow runs; older ones have no trace
+export function isOrchestratorResult(value: unknown): value is OrchestratorResult {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as OrchestratorResult).stdout === 'string' &&
+    Array.isArray((value as OrchestratorResult).trace);
+}
+
+// Text content of an MCP tool result, or the raw JSON for anything else
+function getEntryResultText(result: unknown): string {
+  const content = (result as { content?: ToolResultContent[] } | undefined)?.content;
+  if (!Array.isArray(content)) return JSON.stringify(result, null, 2);
+  return content
+    .map(item => item.type === 'text' ? item.text : JSON.stringify(item))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return <div className="text-[10px] uppercase tracking-wide opacity-50 mb-1">{children}</div>;
+}
+
+const TraceEntryNode = memo(function TraceEntryNode({ entry }: { entry: OrchestratorTraceEntry }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const toolName = splitToolName(entry.name);
+  const status = entry.error ? 'error' : entry.completedAt ? 'completed' : 'unfinished';
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center gap-1.5 py-0.5 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)] transition-colors"
+      >
+        <ChevronRight className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+        {status === 'completed' && <Check className="w-3 h-3 text-green-500" />}
+        {status === 'error' && <X className="w-3 h-3 text-red-400" />}
+        {status === 'unfinished' && <AlertCircle className="w-3 h-3 text-yellow-500" />}
+        <span className="font-medium">
+          {toolName.server && <span className="opacity-60">{toolName.server}{TOOL_NAMESPACE_SEPARATOR}</span>}
+          {toolName.tool}
+        </span>
+        {entry.serverName && <span className="opacity-60">{entry.serverName}</span>}
+        {entry.completedAt && <span className="opacity-60">{entry.completedAt - entry.startedAt}ms</span>}
+      </button>
+      {isExpanded && (
+        <div className="mt-1 mb-2 ml-4 pl-2 border-l border-[var(--border)] text-xs text-[var(--foreground-muted)] space-y-2">
+          {Object.keys(entry.arguments).length > 0 && (
+            <div>
+              <SectionLabel>Input</SectionLabel>
+              <pre className="font-mono text-[10px] whitespace-pre-wrap break-all opacity-75 bg-[var(--background)] p-2 rounded">
+                {JSON.stringify(entry.arguments, null, 2)}
+              </pre>
+            </div>
+          )}
+          {entry.result !== undefined && (
+            <div>
+              <SectionLabel>Output</SectionLabel>
+              <pre className="font-mono text-[10px] whitespace-pre-wrap break-all opacity-75 bg-[var(--background)] p-2 rounded max-h-32 overflow-y-auto">
+                {getEntryResultText(entry.result)}
+              </pre>
+            </div>
+          )}
+          {entry.error && <div className="text-red-400">Error: {entry.error}</div>}
+          {status === 'unfinished' && <div className="text-yellow-500">The run ended before this call returned</div>}
+        </div>
+      )}
+    </div>
+  );
+});
+
+/**
+ * Return value, tool call tree and logs of an orchestrator run. Each
+ * `mcp.callTool` invocation is a collapsible node with its input and output.
+ */
+export const OrchestratorResultView = memo(function OrchestratorResultView({ result }: { result: OrchestratorResult }) {
+  return (
+    <div className="space-y-2 text-xs text-[var(--foreground-muted)]">
+      {result.returnValue !== undefined && (
+        <div>
+          <SectionLabel>Return Value</SectionLabel>
+          <StructuredContentView value={result.returnValue} compact />
+        </div>
+      )}
+      {result.trace.length > 0 && (
+        <div>
+          <SectionLabel>Tool Calls ({result.trace.length})</SectionLabel>
+          {result.trace.map(entry => (
+            <TraceEntryNode key={entry.id} entry={entry} />
+          ))}
+        </div>
+      )}
+      {result.stdout && (
+        <div>
+          <SectionLabel>Logs</SectionLabel>
+          <pre className="font-mono text-[10px] whitespace-pre-wrap break-all opacity-75 bg-[var(--background)] p-2 rounded max-h-48 overflow-y-auto">
+            {result.stdout}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -2,21 +2,30 @@
 
 import { useState, memo } from 'react';
 import { BookOpen, Send, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check } from 'lucide-react';
-import type { MCPPrompt } from '@/lib/types';
+import type { MCPPrompt, MCPCompletionRef, MCPCompletionResult } from '@/lib/types';
+import { CompletionInput } from './CompletionInput';
 
 interface PromptsPanelProps {
   prompts: MCPPrompt[];
   onGetPrompt: (name: string, args?: Record<string, string>) => Promise<unknown>;
+  // Only passed for servers with the completions capability
+  onGetCompletion?: (
+    ref: MCPCompletionRef,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>
+  ) => Promise<MCPCompletionResult>;
   disabled?: boolean;
 }
 
 interface PromptCardProps {
   prompt: MCPPrompt;
   onGet: (args?: Record<string, string>) => Promise<unknown>;
+  // Suggestions for one argument, given the others already filled in
+  onComplete?: (argument: { name: string; value: string }, contextArguments: Record<string, string>) => Promise<MCPCompletionResult>;
   disabled?: boolean;
 }
 
-const PromptCard = memo(function PromptCard({ prompt, onGet, disabled }: PromptCardProps) {
+const PromptCard = memo(function PromptCard({ prompt, onGet, onComplete, disabled }: PromptCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [args, setArgs] = useState<Record<string, string>>({});
   const [result, setResult] = useState<string | null>(null);
@@ -91,10 +100,13 @@ const PromptCard = memo(function PromptCard({ prompt, onGet, disabled }: PromptC
                   {arg.description && (
                     <p className="text-xs text-[var(--foreground-muted)] mb-2">{arg.description}</p>
                   )}
-                  <input
-                    type="text"
+                  <CompletionInput
                     value={args[arg.name] || ''}
-                    onChange={(e) => setArgs({ ...args, [arg.name]: e.target.value })}
+                    onChange={(value) => setArgs(prev => ({ ...prev, [arg.name]: value }))}
+                    onComplete={onComplete && ((value) => onComplete(
+                      { name: arg.name, value },
+                      Object.fromEntries(Object.entries(args).filter(([key, filled]) => key !== arg.name && filled.trim()))
+                    ))}
                     placeholder={`Enter ${arg.name}...`}
                     disabled={disabled || isLoading}
                     className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50 placeholder:text-[var(--foreground-muted)]"
@@ -155,7 +167,7 @@ const PromptCard = memo(function PromptCard({ prompt, onGet, disabled }: PromptC
   );
 });
 
-export const PromptsPanel = memo(function PromptsPanel({ prompts, onGetPrompt, disabled }: PromptsPanelProps) {
+export const PromptsPanel = memo(function PromptsPanel({ prompts, onGetPrompt, onGetCompletion, disabled }: PromptsPanelProps) {
   const [search, setSearch] = useState('');
 
   const filteredPrompts = prompts.filter(prompt =>
@@ -197,6 +209,9 @@ export const PromptsPanel = memo(function PromptsPanel({ prompts, onGetPrompt, d
             key={prompt.name}
             prompt={prompt}
             onGet={(args) => onGetPrompt(prompt.name, args)}
+            onComplete={onGetCompletion && ((argument, contextArguments) =>
+              onGetCompletion({ type: 'ref/prompt', name: prompt.name }, argument, contextArguments)
+            )}
             disabled={disabled}
           />
         ))}
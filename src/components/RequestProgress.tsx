@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect, memo } from 'react';
+import { Loader2, X } from 'lucide-react';
+import type { MCPActiveRequestStatus } from '@/lib/types';
+
+interface RequestProgressProps {
+  request: MCPActiveRequestStatus;
+  showServer?: boolean;
+  onCancel: () => void;
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
+/**
+ * Live status of an in-flight tool call: progress bar (indeterminate until the
+ * server reports a total), progress message, elapsed time and a Cancel button.
+ */
+export const RequestProgress = memo(function RequestProgress({ request, showServer, onCancel }: RequestProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const progress = request.progress;
+  const percent = progress?.total ? Math.min(100, (progress.progress / progress.total) * 100) : undefined;
+
+  return (
+    <div className="p-3 rounded-lg border border-[var(--border)] bg-[var(--background-tertiary)] space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        <Loader2 className="w-3.5 h-3.5 animate-spin text-[var(--accent)] flex-shrink-0" />
+        <span className="font-mono truncate">{request.toolName || request.method}</span>
+        {showServer && <span className="text-[var(--foreground-muted)] truncate">{request.serverName}</span>}
+        <span className="ml-auto font-mono text-[var(--foreground-muted)] flex-shrink-0">
+          {progress && (progress.total !== undefined ? `${progress.progress}/${progress.total} · ` : `${progress.progress} · `)}
+          {formatElapsed(Math.max(0, now - request.startedAt))}
+        </span>
+        <button
+          onClick={() => {
+            setIsCancelling(true);
+            onCancel();
+          }}
+          disabled={isCancelling}
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-red-400 hover:bg-red-500/10 disabled:opacity-50 transition-colors flex-shrink-0"
+        >
+          <X className="w-3 h-3" />
+          {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </button>
+      </div>
+      <div className="h-1.5 rounded-full bg-[var(--border)] overflow-hidden">
+        {percent !== undefined ? (
+          <div className="h-full bg-[var(--accent)] transition-all" style={{ width: `${percent}%` }} />
+        ) : (
+          <div className="h-full w-full bg-[var(--accent)]/40 animate-pulse" />
+        )}
+      </div>
+      {progress?.message && (
+        <p className="text-xs text-[var(--foreground-muted)] truncate">{progress.message}</p>
+      )}
+    </div>
+  );
+});
@@ -1,8 +1,21 @@
 'use client';
 
 import { useState, memo, useMemo, useRef, useEffect, useCallback } from 'react';
-import { FileText, Eye, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check, Image, Code, FileCode, Globe, Download } from 'lucide-react';
-import type { MCPResource, ResourceContentItem, ResourceReadResult } from '@/lib/types';
+import { FileText, Eye, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check, Image, Code, FileCode, Globe, Download, Bell, BellOff } from 'lucide-react';
+import type {
+  MCPResource,
+  MCPResourceTemplate,
+  MCPResourceUpdate,
+  MCPCompletionRef,
+  MCPCompletionResult,
+  ResourceContentItem,
+  ResourceReadResult,
+} from '@/lib/types';
+import { expandUriTemplate, getUriTemplateVariables } from '@/lib/uriTemplate';
+import { diffJson } from '@/lib/jsonDiff';
+import { diffLines } from '@/lib/textDiff';
+import { CompletionInput } from './CompletionInput';
+import { JsonDiffView } from './JsonDiffView';
 
 // SEP-1865: Check if content is an MCP App
 function isMcpApp(mimeType?: string): boolean {
@@ -11,16 +24,75 @@ function isMcpApp(mimeType?: string): boolean {
 
 interface ResourcesPanelProps {
   resources: MCPResource[];
+  resourceTemplates?: MCPResourceTemplate[];
   onReadResource: (uri: string) => Promise<unknown>;
+  // Only passed for servers with the completions capability
+  onGetCompletion?: (
+    ref: MCPCompletionRef,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>
+  ) => Promise<MCPCompletionResult>;
+  subscriptions?: string[];
+  resourceUpdates?: MCPResourceUpdate[];
+  // Only passed for servers that advertise `resources.subscribe`
+  onSubscribe?: (uri: string) => Promise<void>;
+  onUnsubscribe?: (uri: string) => Promise<void>;
   disabled?: boolean;
 }
 
 interface ResourceCardProps {
   resource: MCPResource;
   onRead: () => Promise<unknown>;
+  isSubscribed: boolean;
+  updates: MCPResourceUpdate[];
+  onToggleSubscription?: () => Promise<void>;
   disabled?: boolean;
 }
 
+interface ResourceTemplateCardProps {
+  template: MCPResourceTemplate;
+  onRead: (uri: string) => Promise<unknown>;
+  onGetCompletion?: ResourcesPanelProps['onGetCompletion'];
+  disabled?: boolean;
+}
+
+// Normalize a resources/read result to content items
+function toResourceContents(result: unknown, uri: string, mimeType?: string): ResourceContentItem[] {
+  // MCP returns { contents: [...] }
+  if (result && typeof result === 'object' && 'contents' in result) {
+    return (result as ResourceReadResult).contents;
+  }
+  // Some servers return array directly
+  if (Array.isArray(result)) {
+    return result as ResourceContentItem[];
+  }
+  // Fallback: wrap in a text content item
+  return [{
+    type: 'text',
+    uri,
+    text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+    mimeType: mimeType || 'text/plain',
+  }];
+}
+
+function ResourceContents({ contents, resourceName }: { contents: ResourceContentItem[]; resourceName: string }) {
+  if (contents.length === 0) return null;
+  return (
+    <div className="space-y-4">
+      <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">
+        Content {contents.length > 1 && `(${contents.length} items)`}
+      </h4>
+      {contents.map((item, index) => (
+        <ContentRenderer
+          key={`${item.uri}-${index}`}
+          item={item}
+          resourceName={resourceName}
+        />
+      ))}
+    </div>
+  );
+}
+
 // Helper to determine content type category
 function getContentCategory(mimeType?: string): 'image' | 'html' | 'json' | 'code' | 'text' {
   if (!mimeType) return 'text';
@@ -308,15 +380,153 @@ function ContentRenderer({ item, resourceName }: { item: ResourceContentItem; re
   );
 }
 
-const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }: ResourceCardProps) {
+// Unchanged lines kept around each change in a text diff
+const DIFF_CONTEXT_LINES = 3;
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function TextDiffView({ before, after }: { before: string; after: string }) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const changed = lines.map((line, index) => line.type !== 'unchanged' ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) {
+    return <div className="text-xs text-[var(--foreground-muted)]">No differences</div>;
+  }
+  const isVisible = (index: number) => changed.some(c => Math.abs(c - index) <= DIFF_CONTEXT_LINES);
+
+  return (
+    <pre className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg overflow-auto max-h-96 font-mono text-xs">
+      {lines.map((line, index) => {
+        if (!isVisible(index)) {
+          // One marker per hidden run
+          return isVisible(index - 1) || index === 0
+            ? <div key={index} className="text-[var(--foreground-muted)]">⋯</div>
+            : null;
+        }
+        return (
+          <div
+            key={index}
+            className={line.type === 'added' ? 'text-green-400 bg-green-500/10' : line.type === 'removed' ? 'text-red-400 bg-red-500/10' : ''}
+          >
+            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+          </div>
+        );
+      })}
+    </pre>
+  );
+}
+
+// Diff of two reads of the same resource, item by item; JSON text is compared structurally
+function ResourceContentsDiff({ before, after }: { before: ResourceContentItem[]; after: ResourceContentItem[] }) {
+  const count = Math.max(before.length, after.length);
+  return (
+    <div className="space-y-2">
+      {Array.from({ length: count }, (_, index) => {
+        const previous = before[index];
+        const current = after[index];
+        const label = count > 1 && <div className="text-xs text-[var(--foreground-muted)] font-mono truncate">{(current || previous).uri}</div>;
+
+        if (previous?.text !== undefined && current?.text !== undefined) {
+          const previousJson = parseJson(previous.text);
+          const currentJson = parseJson(current.text);
+          return (
+            <div key={index} className="space-y-1">
+              {label}
+              {previousJson.ok && currentJson.ok
+                ? <JsonDiffView diff={diffJson(previousJson.value, currentJson.value)} />
+                : <TextDiffView before={previous.text} after={current.text} />}
+            </div>
+          );
+        }
+
+        const summary = !previous ? 'Item added'
+          : !current ? 'Item removed'
+          : previous.blob === current.blob && previous.text === current.text ? 'No differences'
+          : 'Binary content changed';
+        return (
+          <div key={index} className="space-y-1">
+            {label}
+            <div className="text-xs text-[var(--foreground-muted)]">{summary}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const UPDATE_REASON_LABELS: Record<MCPResourceUpdate['reason'], string> = {
+  subscribed: 'Subscribed',
+  resubscribed: 'Resubscribed',
+  updated: 'Updated',
+};
+
+// Reads taken while subscribed, newest first; each update can be diffed against the read before it
+function ResourceUpdateTimeline({ updates }: { updates: MCPResourceUpdate[] }) {
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">
+        Updates ({updates.length})
+      </h4>
+      <div className="space-y-1">
+        {updates.map((update, index) => ({ update, index })).reverse().map(({ update, index }) => {
+          const previous = updates.slice(0, index).reverse().find(u => u.contents);
+          const canDiff = !!update.contents && !!previous?.contents;
+          const isOpen = openId === update.id;
+          return (
+            <div key={update.id} className="rounded-lg border border-[var(--border)] bg-[var(--background-tertiary)]">
+              <button
+                onClick={() => setOpenId(isOpen ? null : update.id)}
+                disabled={!canDiff}
+                className="w-full px-3 py-1.5 flex items-center gap-2 text-xs text-left disabled:cursor-default"
+              >
+                {canDiff ? (
+                  isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />
+                ) : (
+                  <span className="w-3" />
+                )}
+                <span className="font-mono text-[var(--foreground-muted)]">{new Date(update.timestamp).toLocaleTimeString()}</span>
+                <span className={update.reason === 'updated' ? 'text-yellow-400' : 'text-blue-400'}>
+                  {UPDATE_REASON_LABELS[update.reason]}
+                </span>
+                {update.error && <span className="text-red-400 truncate">{update.error}</span>}
+              </button>
+              {isOpen && update.contents && previous?.contents && (
+                <div className="px-3 pb-3">
+                  <ResourceContentsDiff before={previous.contents} after={update.contents} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const ResourceCard = memo(function ResourceCard({ resource, onRead, isSubscribed, updates, onToggleSubscription, disabled }: ResourceCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [contents, setContents] = useState<ResourceContentItem[] | null>(null);
+  const [readAt, setReadAt] = useState<number | null>(null);
   const [rawResult, setRawResult] = useState<unknown>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isToggling, setIsToggling] = useState(false);
 
   const Icon = useMemo(() => getContentIcon(resource.mimeType), [resource.mimeType]);
 
+  // Show whichever is newer: the last manual read or the last read triggered by the subscription
+  const latestUpdate = [...updates].reverse().find(u => u.contents);
+  const shownContents = latestUpdate?.contents && (readAt === null || latestUpdate.timestamp > readAt)
+    ? latestUpdate.contents
+    : contents;
+
   const handleRead = async () => {
     setIsLoading(true);
     setError(null);
@@ -325,23 +535,8 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
       const result = await onRead();
       console.log('[ResourceCard] Raw result:', JSON.stringify(result, null, 2));
       setRawResult(result);
-
-      // Parse the result - MCP returns { contents: [...] }
-      if (result && typeof result === 'object' && 'contents' in result) {
-        const readResult = result as ResourceReadResult;
-        setContents(readResult.contents);
-      } else if (Array.isArray(result)) {
-        // Some servers return array directly
-        setContents(result as ResourceContentItem[]);
-      } else {
-        // Fallback: wrap in a text content item
-        setContents([{
-          type: 'text',
-          uri: resource.uri,
-          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2),
-          mimeType: resource.mimeType || 'text/plain',
-        }]);
-      }
+      setContents(toResourceContents(result, resource.uri, resource.mimeType));
+      setReadAt(Date.now());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to read resource');
     } finally {
@@ -349,6 +544,20 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
     }
   };
 
+  const handleToggleSubscription = async () => {
+    if (!onToggleSubscription) return;
+    setIsToggling(true);
+    setError(null);
+
+    try {
+      await onToggleSubscription();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription');
+    } finally {
+      setIsToggling(false);
+    }
+  };
+
   return (
     <div className="rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
       {/* Header */}
@@ -369,11 +578,19 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
             )}
           </div>
         </div>
-        {expanded ? (
-          <ChevronDown className="w-4 h-4 text-[var(--foreground-muted)]" />
-        ) : (
-          <ChevronRight className="w-4 h-4 text-[var(--foreground-muted)]" />
-        )}
+        <div className="flex items-center gap-2">
+          {isSubscribed && (
+            <span className="flex items-center gap-1 text-xs text-blue-400" title="Subscribed to updates">
+              <Bell className="w-3.5 h-3.5" />
+              {updates.filter(u => u.reason === 'updated').length || null}
+            </span>
+          )}
+          {expanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--foreground-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--foreground-muted)]" />
+          )}
+        </div>
       </button>
 
       {/* Expanded content */}
@@ -392,10 +609,156 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
             <p className="text-sm text-[var(--foreground-muted)]">{resource.description}</p>
           )}
 
+          {/* Actions */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRead}
+              disabled={disabled || isLoading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Reading...
+                </>
+              ) : (
+                <>
+                  <Eye className="w-4 h-4" />
+                  {shownContents ? 'Refresh' : 'Read Resource'}
+                </>
+              )}
+            </button>
+            {onToggleSubscription && (
+              <button
+                onClick={handleToggleSubscription}
+                disabled={disabled || isToggling}
+                className="flex items-center gap-2 px-4 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isToggling ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : isSubscribed ? (
+                  <BellOff className="w-4 h-4" />
+                ) : (
+                  <Bell className="w-4 h-4" />
+                )}
+                {isSubscribed ? 'Unsubscribe' : 'Subscribe'}
+              </button>
+            )}
+          </div>
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {/* Content display */}
+          {shownContents && <ResourceContents contents={shownContents} resourceName={resource.name} />}
+
+          {/* Subscription updates */}
+          {updates.length > 0 && <ResourceUpdateTimeline updates={updates} />}
+        </div>
+      )}
+    </div>
+  );
+});
+
+// A parameterized resource: fill in the template variables, then read the expanded URI
+const ResourceTemplateCard = memo(function ResourceTemplateCard({ template, onRead, onGetCompletion, disabled }: ResourceTemplateCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [contents, setContents] = useState<ResourceContentItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const variables = useMemo(() => getUriTemplateVariables(template.uriTemplate), [template.uriTemplate]);
+  // Blank fields are left undefined so their part of the template drops out
+  const filledValues = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+  const expandedUri = expandUriTemplate(template.uriTemplate, filledValues);
+  const isComplete = variables.every(name => filledValues[name] !== undefined);
+
+  const handleRead = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await onRead(expandedUri);
+      setContents(toResourceContents(result, expandedUri, template.mimeType));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read resource');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
+      {/* Header */}
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-[var(--background-tertiary)] transition-colors"
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-8 h-8 rounded-lg bg-blue-500/10 flex items-center justify-center flex-shrink-0">
+            <FileCode className="w-4 h-4 text-blue-400" />
+          </div>
+          <div className="text-left min-w-0">
+            <span className="font-medium text-sm">{template.name}</span>
+            <p className="text-xs text-[var(--foreground-muted)] font-mono truncate">{template.uriTemplate}</p>
+          </div>
+        </div>
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 text-[var(--foreground-muted)] flex-shrink-0" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-[var(--foreground-muted)] flex-shrink-0" />
+        )}
+      </button>
+
+      {/* Expanded content */}
+      {expanded && (
+        <div className="p-4 border-t border-[var(--border)] space-y-4">
+          {/* Description */}
+          {template.description && (
+            <p className="text-sm text-[var(--foreground-muted)]">{template.description}</p>
+          )}
+
+          {/* Template variables */}
+          {variables.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Variables</h4>
+              {variables.map(name => (
+                <div key={name}>
+                  <label className="block text-sm font-medium mb-1">{name}</label>
+                  <CompletionInput
+                    value={values[name] || ''}
+                    onChange={(value) => setValues(prev => ({ ...prev, [name]: value }))}
+                    onComplete={onGetCompletion && ((value) => onGetCompletion(
+                      { type: 'ref/resource', uri: template.uriTemplate },
+                      { name, value },
+                      Object.fromEntries(Object.entries(filledValues).filter(([key]) => key !== name))
+                    ))}
+                    placeholder={`Enter ${name}...`}
+                    className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Expanded URI */}
+          <div>
+            <span className="text-xs text-[var(--foreground-muted)]">URI</span>
+            <code className="block mt-1 text-xs bg-[var(--background-tertiary)] px-3 py-2 rounded-lg overflow-x-auto">
+              {expandedUri}
+            </code>
+          </div>
+
           {/* Read button */}
           <button
             onClick={handleRead}
-            disabled={disabled || isLoading}
+            disabled={disabled || isLoading || !isComplete}
             className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {isLoading ? (
@@ -406,7 +769,7 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
             ) : (
               <>
                 <Eye className="w-4 h-4" />
-                {contents ? 'Refresh' : 'Read Resource'}
+                Read Resource
               </>
             )}
           </button>
@@ -420,27 +783,24 @@ const ResourceCard = memo(function ResourceCard({ resource, onRead, disabled }:
           )}
 
           {/* Content display */}
-          {contents && contents.length > 0 && (
-            <div className="space-y-4">
-              <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">
-                Content {contents.length > 1 && `(${contents.length} items)`}
-              </h4>
-              {contents.map((item, index) => (
-                <ContentRenderer
-                  key={`${item.uri}-${index}`}
-                  item={item}
-                  resourceName={resource.name}
-                />
-              ))}
-            </div>
-          )}
+          {contents && <ResourceContents contents={contents} resourceName={template.name} />}
         </div>
       )}
     </div>
   );
 });
 
-export const ResourcesPanel = memo(function ResourcesPanel({ resources, onReadResource, disabled }: ResourcesPanelProps) {
+export const ResourcesPanel = memo(function ResourcesPanel({
+  resources,
+  resourceTemplates = [],
+  onReadResource,
+  onGetCompletion,
+  subscriptions = [],
+  resourceUpdates = [],
+  onSubscribe,
+  onUnsubscribe,
+  disabled,
+}: ResourcesPanelProps) {
   const [search, setSearch] = useState('');
 
   const filteredResources = resources.filter(resource =>
@@ -449,7 +809,13 @@ export const ResourcesPanel = memo(function ResourcesPanel({ resources, onReadRe
     resource.description?.toLowerCase().includes(search.toLowerCase())
   );
 
-  if (resources.length === 0) {
+  const filteredTemplates = resourceTemplates.filter(template =>
+    template.name.toLowerCase().includes(search.toLowerCase()) ||
+    template.uriTemplate.toLowerCase().includes(search.toLowerCase()) ||
+    template.description?.toLowerCase().includes(search.toLowerCase())
+  );
+
+  if (resources.length === 0 && resourceTemplates.length === 0) {
     return (
       <div className="h-full flex flex-col items-center justify-center text-center p-8">
         <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
@@ -478,16 +844,41 @@ export const ResourcesPanel = memo(function ResourcesPanel({ resources, onReadRe
 
       {/* Resources list */}
       <div className="flex-1 overflow-y-auto space-y-3">
-        {filteredResources.map((resource) => (
-          <ResourceCard
-            key={resource.uri}
-            resource={resource}
-            onRead={() => onReadResource(resource.uri)}
-            disabled={disabled}
-          />
-        ))}
+        {filteredResources.map((resource) => {
+          const isSubscribed = subscriptions.includes(resource.uri);
+          return (
+            <ResourceCard
+              key={resource.uri}
+              resource={resource}
+              onRead={() => onReadResource(resource.uri)}
+              isSubscribed={isSubscribed}
+              updates={resourceUpdates.filter(update => update.uri === resource.uri)}
+              onToggleSubscription={onSubscribe && onUnsubscribe && (() =>
+                isSubscribed ? onUnsubscribe(resource.uri) : onSubscribe(resource.uri)
+              )}
+              disabled={disabled}
+            />
+          );
+        })}
+
+        {filteredTemplates.length > 0 && (
+          <>
+            <h3 className="pt-2 text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">
+              Templates ({filteredTemplates.length})
+            </h3>
+            {filteredTemplates.map((template) => (
+              <ResourceTemplateCard
+                key={template.uriTemplate}
+                template={template}
+                onRead={onReadResource}
+                onGetCompletion={onGetCompletion}
+                disabled={disabled}
+              />
+            ))}
+          </>
+        )}
 
-        {filteredResources.length === 0 && search && (
+        {filteredResources.length === 0 && filteredTemplates.length === 0 && search && (
           <div className="text-center py-8 text-[var(--foreground-muted)]">
             No resources matching "{search}"
           </div>
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { FolderTree, Plus, Pencil, Trash2, Check, X, AlertCircle } from 'lucide-react';
+import type { ClientRoot } from '@/lib/types';
+import type { RootInput } from '@/lib/useRoots';
+import { validateRootUri } from '@/lib/useRoots';
+
+interface RootsPanelProps {
+  roots: ClientRoot[];
+  servers: { id: string; name: string }[];
+  onSave: (input: RootInput, id?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+interface RootFormProps {
+  initial?: ClientRoot;
+  servers: RootsPanelProps['servers'];
+  onSubmit: (input: RootInput) => void;
+  onCancel?: () => void;
+}
+
+// Add a root, or edit an existing one in place
+function RootForm({ initial, servers, onSubmit, onCancel }: RootFormProps) {
+  const [uri, setUri] = useState(initial?.uri || '');
+  const [name, setName] = useState(initial?.name || '');
+  const [serverId, setServerId] = useState(initial?.serverId || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const uriError = validateRootUri(uri);
+    if (uriError) {
+      setError(uriError);
+      return;
+    }
+    onSubmit({ uri, name, serverId: serverId || undefined });
+    if (!initial) {
+      setUri('');
+      setName('');
+    }
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="w-40 px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        />
+        <input
+          type="text"
+          value={uri}
+          onChange={(e) => {
+            setUri(e.target.value);
+            setError(null);
+          }}
+          placeholder="file:///home/user/project"
+          autoFocus={!!initial}
+          className="flex-1 min-w-48 px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        />
+        <select
+          value={serverId}
+          onChange={(e) => setServerId(e.target.value)}
+          className="px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        >
+          <option value="">All servers</option>
+          {servers.map(server => <option key={server.id} value={server.id}>{server.name}</option>)}
+        </select>
+        <button
+          type="submit"
+          className="flex items-center gap-1.5 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          {initial ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          {initial ? 'Save' : 'Add'}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg text-[var(--foreground-muted)]"
+            title="Cancel"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {error && (
+        <div className="flex items-center gap-1.5 text-xs text-red-400">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </form>
+  );
+}
+
+/**
+ * Roots the client exposes to servers through `roots/list`. Global roots go
+ * to every server; scoped roots only to theirs. Edits notify connected servers.
+ */
+export const RootsPanel = memo(function RootsPanel({ roots, servers, onSave, onDelete }: RootsPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const serverNames = new Map(servers.map(s => [s.id, s.name]));
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="mb-4 p-4 rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] space-y-3">
+        <div>
+          <h3 className="text-sm font-medium">Add Root</h3>
+          <p className="text-xs text-[var(--foreground-muted)]">
+            Servers use roots to learn which locations they should work in. Any URI scheme is allowed.
+          </p>
+        </div>
+        <RootForm servers={servers} onSubmit={(input) => onSave(input)} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {roots.map(root => (
+          <div key={root.id} className="px-4 py-3 rounded-xl border border-[var(--border)] bg-[var(--background-secondary)]">
+            {editingId === root.id ? (
+              <RootForm
+                initial={root}
+                servers={servers}
+                onSubmit={(input) => {
+                  onSave(input, root.id);
+                  setEditingId(null);
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                <FolderTree className="w-4 h-4 text-[var(--accent)] flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  {root.name && <div className="text-sm font-medium truncate">{root.name}</div>}
+                  <div className="text-xs font-mono text-[var(--foreground-muted)] truncate">{root.uri}</div>
+                </div>
+                <span className="px-2 py-0.5 rounded bg-[var(--background-tertiary)] text-[var(--foreground-muted)] text-xs flex-shrink-0">
+                  {root.serverId ? serverNames.get(root.serverId) || 'Removed server' : 'All servers'}
+                </span>
+                <button
+                  onClick={() => setEditingId(root.id)}
+                  className="p-1.5 hover:bg-[var(--background-tertiary)] rounded text-[var(--foreground-muted)]"
+                  title="Edit root"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onDelete(root.id)}
+                  className="p-1.5 hover:bg-red-500/10 rounded text-[var(--foreground-muted)] hover:text-red-400"
+                  title="Delete root"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {roots.length === 0 && (
+          <div className="flex flex-col items-center justify-center text-center py-12">
+            <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
+              <FolderTree className="w-8 h-8 text-[var(--foreground-muted)]" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">No Roots</h3>
+            <p className="text-sm text-[var(--foreground-muted)] max-w-sm">
+              Servers that ask for roots currently get an empty list.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
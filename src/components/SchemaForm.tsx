@@ -0,0 +1,444 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { Plus, X, AlertCircle } from 'lucide-react';
+import type { JSONSchema, SchemaViolation } from '@/lib/jsonSchema';
+import { resolveSchema, getSchemaType, getDefaultValue, validateAgainstSchema } from '@/lib/jsonSchema';
+
+interface SchemaFormProps {
+  schema: JSONSchema;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+  disabled?: boolean;
+}
+
+interface SchemaFieldProps {
+  name: string;
+  schema: JSONSchema;
+  root: JSONSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  required?: boolean;
+  disabled?: boolean;
+  expandingRefs?: string[]; // Refs being rendered further up, to stop at recursive schemas
+}
+
+// Keys for array rows, so removing an item doesn't hand its field state to the next row
+let nextRowId = 0;
+
+const inputClassName = 'w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50 placeholder:text-[var(--foreground-muted)]';
+
+function FieldLabel({ name, schema, required, type }: { name: string; schema: JSONSchema; required?: boolean; type?: string }) {
+  return (
+    <>
+      <label className="flex items-center gap-2 text-sm text-[var(--foreground)] mb-1">
+        {schema.title || name}
+        {required && <span className="text-red-400 text-xs">*</span>}
+        {type && (
+          <span className="px-1.5 py-0.5 rounded bg-[var(--background-tertiary)] text-[var(--foreground-muted)] text-xs">
+            {type}
+          </span>
+        )}
+      </label>
+      {schema.description && (
+        <p className="text-xs text-[var(--foreground-muted)] mb-2">{schema.description}</p>
+      )}
+    </>
+  );
+}
+
+// Raw JSON fallback for schemas the form can't represent (free-form objects, unknown types)
+function JsonField({ value, onChange, disabled }: { value: unknown; onChange: (value: unknown) => void; disabled?: boolean }) {
+  const [text, setText] = useState(() => value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (!e.target.value.trim()) {
+            setParseError(null);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setParseError(null);
+          } catch (err) {
+            setParseError(err instanceof Error ? err.message : 'Invalid JSON');
+          }
+        }}
+        placeholder="Enter JSON..."
+        disabled={disabled}
+        rows={3}
+        spellCheck={false}
+        className={`${inputClassName} font-mono text-xs`}
+      />
+      {parseError && <p className="mt-1 text-xs text-red-400">{parseError}</p>}
+    </div>
+  );
+}
+
+// oneOf/anyOf: let the user pick a variant, then render that variant's field
+function VariantField({ name, schema, root, value, onChange, required, disabled, expandingRefs }: SchemaFieldProps) {
+  const variants = (schema.oneOf || schema.anyOf || []).map(variant => resolveSchema(variant, root));
+  const [selected, setSelected] = useState(() => {
+    const matching = variants.findIndex(variant => value !== undefined && validateAgainstSchema(value, variant, root).length === 0);
+    return matching >= 0 ? matching : 0;
+  });
+
+  const variant = variants[selected];
+  // Sibling keywords (e.g. description) apply to every variant
+  const baseSchema: JSONSchema = { ...schema };
+  delete baseSchema.oneOf;
+  delete baseSchema.anyOf;
+
+  return (
+    <div>
+      <FieldLabel name={name} schema={schema} required={required} type={schema.oneOf ? 'oneOf' : 'anyOf'} />
+      <select
+        value={selected}
+        onChange={(e) => {
+          const index = Number(e.target.value);
+          setSelected(index);
+          onChange(getDefaultValue(variants[index], root));
+        }}
+        disabled={disabled}
+        className={`${inputClassName} mb-2`}
+      >
+        {variants.map((v, index) => (
+          <option key={index} value={index}>
+            {v.title || getSchemaType(v) || `Option ${index + 1}`}
+          </option>
+        ))}
+      </select>
+      {variant && (
+        <div className="pl-3 border-l border-[var(--border)]">
+          <SchemaField
+            key={selected}
+            name={variant.title || name}
+            schema={{ ...baseSchema, ...variant, title: undefined, description: variant.description }}
+            root={root}
+            value={value}
+            onChange={onChange}
+            disabled={disabled}
+            expandingRefs={expandingRefs}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ArrayField({ name, schema, root, value, onChange, required, disabled, expandingRefs }: SchemaFieldProps) {
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = schema.items || {};
+  const canAdd = schema.maxItems === undefined || items.length < schema.maxItems;
+  const [rowIds, setRowIds] = useState<number[]>(() => items.map(() => nextRowId++));
+  // Items changed from outside (e.g. a reset): keep the ids of the rows that remain
+  if (rowIds.length !== items.length) {
+    setRowIds(items.map((_, index) => rowIds[index] ?? nextRowId++));
+  }
+
+  const updateItem = (index: number, itemValue: unknown) => {
+    const next = [...items];
+    next[index] = itemValue;
+    onChange(next);
+  };
+
+  return (
+    <fieldset className="border border-[var(--border)] rounded-lg p-3">
+      <legend className="px-1">
+        <FieldLabel name={name} schema={{ ...schema, description: undefined }} required={required} type="array" />
+      </legend>
+      {schema.description && (
+        <p className="text-xs text-[var(--foreground-muted)] mb-2">{schema.description}</p>
+      )}
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={rowIds[index] ?? `new-${index}`} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <SchemaField
+                name={`${name}[${index}]`}
+                schema={itemSchema}
+                root={root}
+                value={item}
+                onChange={(itemValue) => updateItem(index, itemValue)}
+                disabled={disabled}
+                expandingRefs={expandingRefs}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => {
+                const next = items.filter((_, i) => i !== index);
+                setRowIds(rowIds.filter((_, i) => i !== index));
+                onChange(next.length > 0 ? next : undefined);
+              }}
+              disabled={disabled}
+              className="mt-1 p-1.5 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors disabled:opacity-50"
+              title="Remove item"
+            >
+              <X className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => {
+          setRowIds([...rowIds, nextRowId++]);
+          onChange([...items, getDefaultValue(itemSchema, root)]);
+        }}
+        disabled={disabled || !canAdd}
+        className="mt-2 flex items-center gap-1 text-xs text-[var(--accent)] hover:opacity-80 disabled:opacity-50"
+      >
+        <Plus className="w-3 h-3" />
+        Add item
+      </button>
+    </fieldset>
+  );
+}
+
+function ObjectField({ name, schema, root, value, onChange, required, disabled, expandingRefs }: SchemaFieldProps) {
+  const obj = (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+  return (
+    <fieldset className="border border-[var(--border)] rounded-lg p-3">
+      <legend className="px-1">
+        <FieldLabel name={name} schema={{ ...schema, description: undefined }} required={required} type="object" />
+      </legend>
+      {schema.description && (
+        <p className="text-xs text-[var(--foreground-muted)] mb-2">{schema.description}</p>
+      )}
+      <SchemaProperties
+        schema={schema}
+        root={root}
+        value={obj}
+        onChange={(next) => onChange(Object.keys(next).length > 0 ? next : undefined)}
+        disabled={disabled}
+        expandingRefs={expandingRefs}
+      />
+    </fieldset>
+  );
+}
+
+function SchemaField(props: SchemaFieldProps) {
+  const { name, root, value, onChange, required, disabled } = props;
+  const schema = resolveSchema(props.schema, root);
+  const type = getSchemaType(schema);
+  const ref = props.schema.$ref;
+  const expandingRefs = ref ? [...(props.expandingRefs || []), ref] : props.expandingRefs;
+
+  // A ref met again inside itself is a recursive schema; that level is edited as raw JSON
+  if (ref && props.expandingRefs?.includes(ref)) {
+    return (
+      <div>
+        <FieldLabel name={name} schema={schema} required={required} type={type || 'json'} />
+        <JsonField value={value} onChange={onChange} disabled={disabled} />
+      </div>
+    );
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    return <VariantField {...props} schema={schema} expandingRefs={expandingRefs} />;
+  }
+
+  // Enums render as a select; values keep their JSON type
+  if (schema.enum && schema.enum.length > 0) {
+    const selectedIndex = schema.enum.findIndex(option => JSON.stringify(option) === JSON.stringify(value));
+    return (
+      <div>
+        <FieldLabel name={name} schema={schema} required={required} type={type} />
+        <select
+          value={selectedIndex >= 0 ? String(selectedIndex) : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : schema.enum![Number(e.target.value)])}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="">Select an option...</option>
+          {schema.enum.map((option, index) => (
+            <option key={index} value={index}>{typeof option === 'string' ? option : JSON.stringify(option)}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  if (type === 'boolean') {
+    const checked = value === true;
+    // Optional properties can be left out; array items (no `required` given) always hold a value
+    const canUnset = required === false;
+    return (
+      <div>
+        <div className="flex items-center justify-between gap-3">
+          <FieldLabel name={name} schema={{ ...schema, description: undefined }} required={required} type={type} />
+          {canUnset && (value === undefined ? (
+            <span className="ml-auto text-xs text-[var(--foreground-muted)]">Not set</span>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onChange(undefined)}
+              disabled={disabled}
+              className="ml-auto p-1 hover:bg-[var(--background-tertiary)] rounded transition-colors disabled:opacity-50"
+              title="Unset (omit from arguments)"
+            >
+              <X className="w-3.5 h-3.5 text-[var(--foreground-muted)]" />
+            </button>
+          ))}
+          <button
+            type="button"
+            role="switch"
+            aria-checked={checked}
+            onClick={() => onChange(!checked)}
+            disabled={disabled}
+            className={`relative w-9 h-5 rounded-full transition-colors flex-shrink-0 disabled:opacity-50 ${checked ? 'bg-[var(--accent)]' : 'bg-[var(--background-tertiary)] border border-[var(--border)]'}`}
+          >
+            <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : 'translate-x-0.5'}`} />
+          </button>
+        </div>
+        {schema.description && (
+          <p className="text-xs text-[var(--foreground-muted)] mb-2">{schema.description}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (type === 'number' || type === 'integer') {
+    const min = schema.minimum ?? schema.exclusiveMinimum;
+    const max = schema.maximum ?? schema.exclusiveMaximum;
+    return (
+      <div>
+        <FieldLabel name={name} schema={schema} required={required} type={type} />
+        <input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => {
+            if (e.target.value === '') {
+              onChange(undefined);
+              return;
+            }
+            const parsed = type === 'integer' ? parseInt(e.target.value, 10) : parseFloat(e.target.value);
+            onChange(Number.isNaN(parsed) ? undefined : parsed);
+          }}
+          min={min}
+          max={max}
+          step={type === 'integer' ? 1 : schema.multipleOf ?? 'any'}
+          placeholder={min !== undefined || max !== undefined ? `${min ?? '−∞'} … ${max ?? '∞'}` : `Enter ${type}...`}
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+    );
+  }
+
+  if (type === 'string') {
+    const inputType = schema.format === 'email' ? 'email' :
+                      schema.format === 'uri' ? 'url' :
+                      schema.format === 'date' ? 'date' : 'text';
+    return (
+      <div>
+        <FieldLabel name={name} schema={schema} required={required} type={schema.format || type} />
+        <input
+          type={inputType}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value)}
+          minLength={schema.minLength}
+          maxLength={schema.maxLength}
+          placeholder={`Enter ${schema.format || 'string'}...`}
+          disabled={disabled}
+          className={inputClassName}
+        />
+      </div>
+    );
+  }
+
+  if (type === 'array') {
+    return <ArrayField {...props} schema={schema} expandingRefs={expandingRefs} />;
+  }
+
+  if (type === 'object' && schema.properties) {
+    return <ObjectField {...props} schema={schema} expandingRefs={expandingRefs} />;
+  }
+
+  return (
+    <div>
+      <FieldLabel name={name} schema={schema} required={required} type={type || 'json'} />
+      <JsonField value={value} onChange={onChange} disabled={disabled} />
+    </div>
+  );
+}
+
+function SchemaProperties({ schema, root, value, onChange, disabled, expandingRefs }: {
+  schema: JSONSchema;
+  root: JSONSchema;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+  disabled?: boolean;
+  expandingRefs?: string[];
+}) {
+  const required = schema.required || [];
+
+  return (
+    <div className="space-y-3">
+      {Object.entries(schema.properties || {}).map(([key, propSchema]) => (
+        <SchemaField
+          key={key}
+          name={key}
+          schema={propSchema}
+          root={root}
+          value={value[key]}
+          onChange={(propValue) => {
+            const next = { ...value };
+            if (propValue === undefined) {
+              delete next[key];
+            } else {
+              next[key] = propValue;
+            }
+            onChange(next);
+          }}
+          required={required.includes(key)}
+          disabled={disabled}
+          expandingRefs={expandingRefs}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Renders a form for an object JSON Schema (e.g. an MCP tool's inputSchema).
+ * Values keep their JSON types; unset optional fields are omitted from the object.
+ */
+export const SchemaForm = memo(function SchemaForm({ schema, value, onChange, disabled }: SchemaFormProps) {
+  return (
+    <SchemaProperties
+      schema={resolveSchema(schema, schema)}
+      root={schema}
+      value={value}
+      onChange={onChange}
+      disabled={disabled}
+    />
+  );
+});
+
+// List of schema violations under a heading, e.g. for invalid tool arguments or results
+export function SchemaViolationList({ title, violations }: { title: string; violations: SchemaViolation[] }) {
+  return (
+    <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+      <div className="flex items-center gap-2 mb-1">
+        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+        {title}
+      </div>
+      <ul className="space-y-0.5 pl-6 text-xs">
+        {violations.map((violation, index) => (
+          <li key={index}>
+            <span className="font-mono">{violation.path}</span>: {violation.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
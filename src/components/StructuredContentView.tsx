@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { ChevronRight, ListTree, Table } from 'lucide-react';
+import { jsonTypeOf } from '@/lib/jsonSchema';
+
+interface StructuredContentViewProps {
+  value: unknown;
+  compact?: boolean; // Smaller type for chat bubbles
+}
+
+const VALUE_STYLES: Record<string, string> = {
+  string: 'text-green-400',
+  number: 'text-blue-400',
+  integer: 'text-blue-400',
+  boolean: 'text-purple-400',
+  null: 'text-[var(--foreground-muted)]',
+};
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function formatScalar(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function ScalarValue({ value }: { value: unknown }) {
+  return <span className={`break-all ${VALUE_STYLES[jsonTypeOf(value)] || ''}`}>{formatScalar(value)}</span>;
+}
+
+function TreeNode({ name, value, depth }: { name: string; value: unknown; depth: number }) {
+  // Expand the first two levels so small payloads are readable at a glance
+  const [expanded, setExpanded] = useState(depth < 2);
+
+  if (!isContainer(value)) {
+    return (
+      <div className="flex gap-1.5 py-0.5" style={{ paddingLeft: `${depth * 12 + 14}px` }}>
+        <span className="text-[var(--foreground-muted)] flex-shrink-0">{name}:</span>
+        <ScalarValue value={value} />
+      </div>
+    );
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item] as const)
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${value.length}]` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 py-0.5 w-full text-left hover:bg-[var(--background)] rounded"
+        style={{ paddingLeft: `${depth * 12}px` }}
+      >
+        <ChevronRight className={`w-3 h-3 flex-shrink-0 text-[var(--foreground-muted)] transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        <span className="text-[var(--foreground-muted)]">{name}</span>
+        <span className="text-[var(--foreground-subtle)]">{summary}</span>
+      </button>
+      {expanded && entries.map(([key, child]) => (
+        <TreeNode key={key} name={key} value={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+// Rows for the table view: the value itself if it is an array of objects,
+// otherwise the first array-of-objects property (e.g. { items: [...] })
+function findTableRows(value: unknown): { label?: string; rows: Record<string, unknown>[] } | null {
+  const isObjectArray = (v: unknown): v is Record<string, unknown>[] =>
+    Array.isArray(v) && v.length > 0 && v.every(item => jsonTypeOf(item) === 'object');
+
+  if (isObjectArray(value)) return { rows: value };
+  if (jsonTypeOf(value) === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      if (isObjectArray(child)) return { label: key, rows: child };
+    }
+  }
+  return null;
+}
+
+function TableView({ value }: { value: unknown }) {
+  const table = findTableRows(value);
+
+  // Plain objects render as a key/value table
+  if (!table) {
+    const entries = jsonTypeOf(value) === 'object' ? Object.entries(value as Record<string, unknown>) : [['value', value] as const];
+    return (
+      <table className="w-full border-collapse">
+        <tbody>
+          {entries.map(([key, cell]) => (
+            <tr key={key} className="border-b border-[var(--border)] last:border-0">
+              <td className="py-1 pr-3 align-top text-[var(--foreground-muted)] whitespace-nowrap">{key}</td>
+              <td className="py-1 align-top">
+                {isContainer(cell) ? <span className="font-mono break-all">{JSON.stringify(cell)}</span> : <ScalarValue value={cell} />}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const columns = Array.from(new Set(table.rows.flatMap(row => Object.keys(row))));
+
+  return (
+    <div>
+      {table.label && (
+        <div className="text-[var(--foreground-muted)] mb-1">{table.label}</div>
+      )}
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b border-[var(--border)]">
+            {columns.map(column => (
+              <th key={column} className="py-1 pr-3 text-left font-medium text-[var(--foreground-muted)] whitespace-nowrap">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.rows.map((row, index) => (
+            <tr key={index} className="border-b border-[var(--border)] last:border-0">
+              {columns.map(column => {
+                const cell = row[column];
+                return (
+                  <td key={column} className="py-1 pr-3 align-top">
+                    {cell === undefined ? null : isContainer(cell)
+                      ? <span className="font-mono break-all">{JSON.stringify(cell)}</span>
+                      : <ScalarValue value={cell} />}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Navigable view of a tool result's structuredContent, switchable between a
+ * collapsible tree and a table (arrays of objects become rows and columns).
+ */
+export const StructuredContentView = memo(function StructuredContentView({ value, compact }: StructuredContentViewProps) {
+  const [mode, setMode] = useState<'tree' | 'table'>('tree');
+  const textSize = compact ? 'text-[10px]' : 'text-xs';
+
+  return (
+    <div>
+      <div className="flex items-center gap-1 mb-1">
+        {(['tree', 'table'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`flex items-center gap-1 px-1.5 py-0.5 rounded ${textSize} transition-colors ${
+              mode === option
+                ? 'bg-[var(--accent)]/10 text-[var(--accent)]'
+                : 'text-[var(--foreground-muted)] hover:text-[var(--foreground)]'
+            }`}
+          >
+            {option === 'tree' ? <ListTree className="w-3 h-3" /> : <Table className="w-3 h-3" />}
+            {option === 'tree' ? 'Tree' : 'Table'}
+          </button>
+        ))}
+      </div>
+      <div className={`p-2 bg-[var(--background)] border border-[var(--border)] rounded-lg font-mono ${textSize} overflow-auto max-h-96`}>
+        {mode === 'tree' ? (
+          isContainer(value) ? (
+            (Array.isArray(value) ? value.map((item, index) => [String(index), item] as const) : Object.entries(value)).map(([key, child]) => (
+              <TreeNode key={key} name={key} value={child} depth={0} />
+            ))
+          ) : (
+            <ScalarValue value={value} />
+          )
+        ) : (
+          <TableView value={value} />
+        )}
+      </div>
+    </div>
+  );
+});
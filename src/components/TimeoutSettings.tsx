@@ -0,0 +1,94 @@
+'use client';
+
+import { useState, memo } from 'react';
+import type { RequestTimeoutSettings } from '@/lib/types';
+
+interface SecondsInputProps {
+  valueMs?: number;
+  onChange: (valueMs: number | null) => void;
+  placeholder?: string;
+  allowEmpty?: boolean; // Clearing the field reports null instead of restoring the value
+}
+
+// Duration field in seconds; commits on blur or Enter so typing isn't interrupted
+export function SecondsInput({ valueMs, onChange, placeholder, allowEmpty }: SecondsInputProps) {
+  const format = (ms?: number) => ms === undefined ? '' : String(Math.round(ms / 100) / 10);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const seconds = Number(draft);
+    if (draft.trim() === '' && allowEmpty) {
+      onChange(null);
+    } else if (Number.isFinite(seconds) && seconds > 0) {
+      onChange(Math.round(seconds * 1000));
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0.1}
+        step="any"
+        value={draft ?? format(valueMs)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+        }}
+        placeholder={placeholder}
+        className="w-24 px-2 py-1 bg-[var(--background-tertiary)] border border-[var(--border)] rounded text-xs text-right focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+      />
+      <span className="text-xs text-[var(--foreground-muted)]">s</span>
+    </div>
+  );
+}
+
+interface TimeoutSettingsProps {
+  settings: RequestTimeoutSettings;
+  onChange: (patch: Partial<Omit<RequestTimeoutSettings, 'toolTimeouts'>>) => void;
+}
+
+/**
+ * Defaults for how long to wait on a server's response. Individual tools can
+ * override the default timeout from their card.
+ */
+export const TimeoutSettings = memo(function TimeoutSettings({ settings, onChange }: TimeoutSettingsProps) {
+  return (
+    <div className="p-4 rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] space-y-3">
+      <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Request Timeouts</h4>
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm">Default timeout</label>
+        <SecondsInput
+          valueMs={settings.defaultTimeoutMs}
+          onChange={(valueMs) => valueMs !== null && onChange({ defaultTimeoutMs: valueMs })}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <label htmlFor="reset-on-progress" className="text-sm">Reset on progress</label>
+          <p className="text-xs text-[var(--foreground-muted)]">Restart the timeout whenever the server reports progress</p>
+        </div>
+        <input
+          id="reset-on-progress"
+          type="checkbox"
+          checked={settings.resetOnProgress}
+          onChange={(e) => onChange({ resetOnProgress: e.target.checked })}
+          className="accent-[var(--accent)]"
+        />
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <label className="text-sm">Maximum total</label>
+          <p className="text-xs text-[var(--foreground-muted)]">Hard limit, even while progress keeps arriving</p>
+        </div>
+        <SecondsInput
+          valueMs={settings.maxTotalTimeoutMs}
+          onChange={(valueMs) => valueMs !== null && onChange({ maxTotalTimeoutMs: valueMs })}
+        />
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,34 @@
+'use client';
+
+import { memo } from 'react';
+import { Eye, AlertTriangle, Repeat, Globe } from 'lucide-react';
+import type { MCPToolAnnotations } from '@/lib/types';
+
+// Badges for the behavior hints a server declares on a tool
+export const ToolAnnotationBadges = memo(function ToolAnnotationBadges({ annotations }: { annotations?: MCPToolAnnotations }) {
+  if (!annotations) return null;
+
+  const badges = [
+    { show: annotations.readOnlyHint === true, label: 'Read-only', icon: Eye, className: 'bg-green-500/10 text-green-400', title: 'Does not modify its environment' },
+    { show: annotations.destructiveHint === true && annotations.readOnlyHint !== true, label: 'Destructive', icon: AlertTriangle, className: 'bg-red-500/10 text-red-400', title: 'May perform destructive updates' },
+    { show: annotations.idempotentHint === true, label: 'Idempotent', icon: Repeat, className: 'bg-blue-500/10 text-blue-400', title: 'Repeated calls with the same arguments have no additional effect' },
+    { show: annotations.openWorldHint === true, label: 'Open-world', icon: Globe, className: 'bg-yellow-500/10 text-yellow-500', title: 'Interacts with external entities' },
+  ].filter(badge => badge.show);
+
+  if (badges.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {badges.map(badge => (
+        <span
+          key={badge.label}
+          title={badge.title}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium ${badge.className}`}
+        >
+          <badge.icon className="w-3 h-3" />
+          {badge.label}
+        </span>
+      ))}
+    </div>
+  );
+});
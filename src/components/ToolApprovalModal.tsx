@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, ShieldAlert, Server, Code } from 'lucide-react';
+import type { ToolApprovalRequest } from '@/lib/types';
+import { ToolAnnotationBadges } from './ToolAnnotationBadges';
+
+interface ToolApprovalModalProps {
+  request: ToolApprovalRequest;
+  pendingCount: number;
+  onApprove: (remember: boolean) => void;
+  onDeny: (remember: boolean) => void;
+}
+
+// Who is asking, shown in the header
+const SOURCE_LABELS: Record<ToolApprovalRequest['source'], string> = {
+  chat: 'The assistant',
+  orchestrator: 'Orchestrator code',
+  replay: 'Conversation replay',
+  workflow: 'A saved workflow',
+};
+
+export function ToolApprovalModal({
+  request,
+  pendingCount,
+  onApprove,
+  onDeny,
+}: ToolApprovalModalProps) {
+  const [mounted, setMounted] = useState(false);
+  const [remember, setRemember] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+    return () => setMounted(false);
+  }, []);
+
+  // Each queued request starts unremembered
+  useEffect(() => {
+    setRemember(false);
+  }, [request.id]);
+
+  const hasArguments = Object.keys(request.arguments).length > 0;
+
+  const modalContent = (
+    <div
+      className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center p-4"
+      onClick={(e) => e.target === e.currentTarget && onDeny(false)}
+    >
+      <div className="bg-[var(--background-secondary)] border border-[var(--border)] rounded-2xl w-full max-w-lg shadow-2xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[var(--border)] flex-shrink-0">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-yellow-500/10 rounded-lg">
+              <ShieldAlert className="w-5 h-5 text-yellow-500" />
+            </div>
+            <div>
+              <h3 className="text-base font-semibold">Approve Tool Call</h3>
+              <p className="text-xs text-[var(--foreground-muted)]">
+                {SOURCE_LABELS[request.source]} wants to call a tool
+                {pendingCount > 1 && ` (${pendingCount - 1} more waiting)`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => onDeny(false)}
+            className="p-1 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          <div className="space-y-2">
+            <div className="font-mono text-sm font-medium">{request.toolName}</div>
+            <ToolAnnotationBadges annotations={request.annotations} />
+          </div>
+
+          {request.serverName && (
+            <div className="flex items-center gap-2 p-2.5 bg-[var(--background-tertiary)] rounded-lg">
+              <Server className="w-4 h-4 text-[var(--foreground-muted)]" />
+              <span className="text-sm font-medium">{request.serverName}</span>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center gap-1.5 text-sm text-[var(--foreground-muted)] mb-2">
+              <Code className="w-4 h-4" />
+              Arguments
+            </div>
+            <pre className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg font-mono text-xs whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+              {hasArguments ? JSON.stringify(request.arguments, null, 2) : '(none)'}
+            </pre>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-[var(--foreground-muted)] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="rounded border-[var(--border)]"
+            />
+            Remember my choice for this tool on this server
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="flex gap-2 p-4 border-t border-[var(--border)] flex-shrink-0">
+          <button
+            type="button"
+            onClick={() => onDeny(remember)}
+            className="flex-1 px-3 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium transition-colors"
+          >
+            {remember ? 'Never Allow' : 'Deny'}
+          </button>
+          <button
+            type="button"
+            onClick={() => onApprove(remember)}
+            className="flex-1 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {remember ? 'Always Allow' : 'Allow'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (!mounted) return null;
+  return createPortal(modalContent, document.body);
+}
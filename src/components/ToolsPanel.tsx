@@ -1,50 +1,135 @@
 'use client';
 
 import { useState, memo } from 'react';
-import { Wrench, Play, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check } from 'lucide-react';
-import type { MCPTool, ToolCallResult } from '@/lib/types';
+import { Wrench, Play, Loader2, ChevronDown, ChevronRight, AlertCircle, Copy, Check, Braces, FormInput, Timer } from 'lucide-react';
+import type { MCPTool, ToolCallResult, MCPRequestHistoryEntry, MCPActiveRequestStatus, ToolApprovalPolicy, RequestTimeoutSettings } from '@/lib/types';
+import type { JSONSchema, SchemaViolation } from '@/lib/jsonSchema';
+import { getDefaultValue, validateAgainstSchema, validateToolResult } from '@/lib/jsonSchema';
+import { SchemaForm, SchemaViolationList } from './SchemaForm';
+import { StructuredContentView } from './StructuredContentView';
+import { ToolAnnotationBadges } from './ToolAnnotationBadges';
+import { RequestProgress } from './RequestProgress';
+import { TimeoutSettings, SecondsInput } from './TimeoutSettings';
+import { formatTimeoutDuration } from '@/lib/useRequestTimeouts';
+import { toolNeedsApproval } from '@/lib/useToolApproval';
 
 interface ToolsPanelProps {
   tools: MCPTool[];
   onCallTool: (name: string, args: Record<string, unknown>) => Promise<ToolCallResult>;
   disabled?: boolean;
+  history?: MCPRequestHistoryEntry[]; // Previous tools/call requests, newest first
+  policies?: Record<string, ToolApprovalPolicy>; // Chat approval policy per tool name
+  onPolicyChange?: (toolName: string, policy: ToolApprovalPolicy | null) => void;
+  activeRequests?: MCPActiveRequestStatus[]; // In-flight calls on this server, with progress
+  onCancelRequest?: (request: MCPActiveRequestStatus) => void;
+  timeoutSettings?: RequestTimeoutSettings;
+  onTimeoutSettingsChange?: (patch: Partial<Omit<RequestTimeoutSettings, 'toolTimeouts'>>) => void;
+  toolTimeouts?: Record<string, number>; // Per-tool overrides of the default timeout (ms)
+  onToolTimeoutChange?: (toolName: string, timeoutMs: number | null) => void;
 }
 
 interface ToolCardProps {
   tool: MCPTool;
   onCall: (args: Record<string, unknown>) => Promise<ToolCallResult>;
   disabled?: boolean;
+  recentCalls: MCPRequestHistoryEntry[];
+  policy?: ToolApprovalPolicy;
+  onPolicyChange?: (policy: ToolApprovalPolicy | null) => void;
+  activeRequests: MCPActiveRequestStatus[];
+  onCancelRequest?: (request: MCPActiveRequestStatus) => void;
+  timeoutMs?: number;
+  defaultTimeoutMs?: number;
+  onTimeoutChange?: (timeoutMs: number | null) => void;
 }
 
-const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProps) {
+// Recorded arguments of a previous call, falling back to the schema's defaults
+function getInitialArgs(tool: MCPTool, entry?: MCPRequestHistoryEntry): Record<string, unknown> {
+  if (entry?.params?.arguments) {
+    return { ...(entry.params.arguments as Record<string, unknown>) };
+  }
+  const schema = tool.inputSchema as JSONSchema;
+  return (getDefaultValue(schema, schema) as Record<string, unknown> | undefined) || {};
+}
+
+const ToolCard = memo(function ToolCard({
+  tool,
+  onCall,
+  disabled,
+  recentCalls,
+  policy,
+  onPolicyChange,
+  activeRequests,
+  onCancelRequest,
+  timeoutMs,
+  defaultTimeoutMs,
+  onTimeoutChange,
+}: ToolCardProps) {
   const [expanded, setExpanded] = useState(false);
-  const [args, setArgs] = useState<Record<string, string>>({});
+  // Start from the most recent call so arguments survive panel switches
+  const [args, setArgs] = useState<Record<string, unknown>>(() => getInitialArgs(tool, recentCalls[0]));
+  const [rawMode, setRawMode] = useState(false);
+  const [rawText, setRawText] = useState('');
+  const [rawError, setRawError] = useState<string | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [violations, setViolations] = useState<SchemaViolation[]>([]);
   const [result, setResult] = useState<ToolCallResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  const properties = tool.inputSchema.properties || {};
-  const required = tool.inputSchema.required || [];
+  const inputSchema = tool.inputSchema as JSONSchema;
+  const hasArguments = Object.keys(tool.inputSchema.properties || {}).length > 0;
+
+  // Replace the form state wholesale (e.g. loading a recent call), remounting fields
+  const loadArgs = (next: Record<string, unknown>) => {
+    setArgs(next);
+    setRawText(JSON.stringify(next, null, 2));
+    setRawError(null);
+    setViolations([]);
+    setFormKey(k => k + 1);
+  };
+
+  const handleRawChange = (text: string) => {
+    setRawText(text);
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setRawError('Arguments must be a JSON object');
+        return;
+      }
+      setArgs(parsed);
+      setRawError(null);
+    } catch (err) {
+      setRawError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  const toggleRawMode = () => {
+    if (rawMode) {
+      // Keep editing as JSON until it parses
+      if (rawError) return;
+      setFormKey(k => k + 1);
+    } else {
+      setRawText(JSON.stringify(args, null, 2));
+      setRawError(null);
+    }
+    setRawMode(!rawMode);
+  };
 
   const handleCall = async () => {
+    if (rawMode && rawError) return;
+
+    // Validate client-side so schema errors don't cost a round trip
+    const found = validateAgainstSchema(args, inputSchema);
+    setViolations(found);
+    if (found.length > 0) return;
+
     setIsLoading(true);
     setError(null);
     setResult(null);
 
     try {
-      const parsedArgs: Record<string, unknown> = {};
-      for (const [key, value] of Object.entries(args)) {
-        if (value.trim()) {
-          try {
-            parsedArgs[key] = JSON.parse(value);
-          } catch {
-            parsedArgs[key] = value;
-          }
-        }
-      }
-
-      const callResult = await onCall(parsedArgs);
+      const callResult = await onCall(args);
       setResult(callResult);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Tool call failed');
@@ -53,6 +138,8 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
     }
   };
 
+  const outputViolations = result ? validateToolResult(tool.outputSchema, result) : [];
+
   const copyResult = () => {
     if (result) {
       const text = result.content.map(item => item.type === 'text' ? item.text : '').join('\n');
@@ -78,6 +165,11 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
             {tool.description && (
               <p className="text-xs text-[var(--foreground-muted)] truncate max-w-xs">{tool.description}</p>
             )}
+            {tool.annotations && (
+              <div className="mt-1">
+                <ToolAnnotationBadges annotations={tool.annotations} />
+              </div>
+            )}
           </div>
         </div>
         {expanded ? (
@@ -91,37 +183,101 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
       {expanded && (
         <div className="p-4 border-t border-[var(--border)] space-y-4">
           {/* Arguments form */}
-          {Object.keys(properties).length > 0 && (
+          {hasArguments && (
             <div className="space-y-3">
-              <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Arguments</h4>
-              {Object.entries(properties).map(([name, schema]) => {
-                const propSchema = schema as { type?: string; description?: string };
-                const isRequired = required.includes(name);
-                return (
-                  <div key={name}>
-                    <label className="flex items-center gap-2 text-sm text-[var(--foreground)] mb-1">
-                      {name}
-                      {isRequired && <span className="text-red-400 text-xs">*</span>}
-                      {propSchema.type && (
-                        <span className="px-1.5 py-0.5 rounded bg-[var(--background-tertiary)] text-[var(--foreground-muted)] text-xs">
-                          {propSchema.type}
-                        </span>
-                      )}
-                    </label>
-                    {propSchema.description && (
-                      <p className="text-xs text-[var(--foreground-muted)] mb-2">{propSchema.description}</p>
-                    )}
-                    <input
-                      type="text"
-                      value={args[name] || ''}
-                      onChange={(e) => setArgs({ ...args, [name]: e.target.value })}
-                      placeholder={propSchema.type === 'object' || propSchema.type === 'array' ? 'Enter JSON...' : `Enter ${propSchema.type || 'value'}...`}
+              <div className="flex items-center justify-between gap-2">
+                <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Arguments</h4>
+                <div className="flex items-center gap-2">
+                  {recentCalls.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const entry = recentCalls.find(c => c.id === e.target.value);
+                        if (entry) loadArgs(getInitialArgs(tool, entry));
+                      }}
                       disabled={disabled || isLoading}
-                      className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50 placeholder:text-[var(--foreground-muted)]"
-                    />
-                  </div>
-                );
-              })}
+                      className="px-2 py-1 bg-[var(--background-tertiary)] border border-[var(--border)] rounded text-xs focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+                    >
+                      <option value="">Load recent call...</option>
+                      {recentCalls.map(call => (
+                        <option key={call.id} value={call.id}>
+                          {new Date(call.timestamp).toLocaleString()} ({call.status})
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={toggleRawMode}
+                    disabled={rawMode && !!rawError}
+                    className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)] disabled:opacity-50"
+                    title={rawMode ? 'Edit with form' : 'Edit as raw JSON'}
+                  >
+                    {rawMode ? <FormInput className="w-3 h-3" /> : <Braces className="w-3 h-3" />}
+                    {rawMode ? 'Form' : 'JSON'}
+                  </button>
+                </div>
+              </div>
+              {rawMode ? (
+                <div>
+                  <textarea
+                    value={rawText}
+                    onChange={(e) => handleRawChange(e.target.value)}
+                    disabled={disabled || isLoading}
+                    rows={Math.min(Math.max(rawText.split('\n').length, 4), 16)}
+                    spellCheck={false}
+                    className="w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50"
+                  />
+                  {rawError && (
+                    <p className="mt-1 text-xs text-red-400">{rawError}</p>
+                  )}
+                </div>
+              ) : (
+                <SchemaForm
+                  key={formKey}
+                  schema={inputSchema}
+                  value={args}
+                  onChange={(next) => {
+                    setArgs(next);
+                    setViolations([]);
+                  }}
+                  disabled={disabled || isLoading}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Validation errors */}
+          {violations.length > 0 && (
+            <SchemaViolationList title="Arguments don't match the tool's input schema" violations={violations} />
+          )}
+
+          {/* Chat approval policy */}
+          {onPolicyChange && (
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Approval in Chat</label>
+              <select
+                value={policy || ''}
+                onChange={(e) => onPolicyChange((e.target.value || null) as ToolApprovalPolicy | null)}
+                className="px-2 py-1 bg-[var(--background-tertiary)] border border-[var(--border)] rounded text-xs focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+              >
+                <option value="">Default ({toolNeedsApproval(tool.annotations) ? 'ask' : 'allow'})</option>
+                <option value="always-ask">Always ask</option>
+                <option value="always-allow">Always allow</option>
+                <option value="never-allow">Never allow</option>
+              </select>
+            </div>
+          )}
+
+          {/* Response timeout */}
+          {onTimeoutChange && (
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Timeout</label>
+              <SecondsInput
+                valueMs={timeoutMs}
+                onChange={onTimeoutChange}
+                placeholder={defaultTimeoutMs !== undefined ? `Default (${formatTimeoutDuration(defaultTimeoutMs)})` : 'Default'}
+                allowEmpty
+              />
             </div>
           )}
 
@@ -144,6 +300,15 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
             )}
           </button>
 
+          {/* Progress of in-flight calls */}
+          {activeRequests.map(request => (
+            <RequestProgress
+              key={request.requestId}
+              request={request}
+              onCancel={() => onCancelRequest?.(request)}
+            />
+          ))}
+
           {/* Error display */}
           {error && (
             <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-start gap-2">
@@ -185,6 +350,28 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
                   </div>
                 ))}
               </div>
+
+              {/* Structured content */}
+              {result.structuredContent !== undefined && (
+                <div className="mt-3">
+                  <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide mb-2">Structured Content</h4>
+                  <StructuredContentView value={result.structuredContent} />
+                </div>
+              )}
+
+              {/* Output schema conformance */}
+              {tool.outputSchema && (
+                <div className="mt-3">
+                  {outputViolations.length > 0 ? (
+                    <SchemaViolationList title="Result doesn't match the tool's output schema" violations={outputViolations} />
+                  ) : !result.isError && (
+                    <div className="flex items-center gap-1.5 text-xs text-[var(--success)]">
+                      <Check className="w-3 h-3" />
+                      Structured content matches the output schema
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -193,8 +380,22 @@ const ToolCard = memo(function ToolCard({ tool, onCall, disabled }: ToolCardProp
   );
 });
 
-export const ToolsPanel = memo(function ToolsPanel({ tools, onCallTool, disabled }: ToolsPanelProps) {
+export const ToolsPanel = memo(function ToolsPanel({
+  tools,
+  onCallTool,
+  disabled,
+  history = [],
+  policies = {},
+  onPolicyChange,
+  activeRequests = [],
+  onCancelRequest,
+  timeoutSettings,
+  onTimeoutSettingsChange,
+  toolTimeouts = {},
+  onToolTimeoutChange,
+}: ToolsPanelProps) {
   const [search, setSearch] = useState('');
+  const [showTimeouts, setShowTimeouts] = useState(false);
 
   const filteredTools = tools.filter(tool =>
     tool.name.toLowerCase().includes(search.toLowerCase()) ||
@@ -218,16 +419,31 @@ export const ToolsPanel = memo(function ToolsPanel({ tools, onCallTool, disabled
   return (
     <div className="h-full flex flex-col">
       {/* Search */}
-      <div className="mb-4">
+      <div className="mb-4 flex items-center gap-2">
         <input
           type="text"
           value={search}
           onChange={(e) => setSearch(e.target.value)}
           placeholder="Search tools..."
-          className="w-full px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+          className="flex-1 px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
         />
+        {timeoutSettings && onTimeoutSettingsChange && (
+          <button
+            onClick={() => setShowTimeouts(!showTimeouts)}
+            className={`p-2 rounded-lg transition-colors ${showTimeouts ? 'bg-[var(--accent)]/10 text-[var(--accent)]' : 'text-[var(--foreground-muted)] hover:bg-[var(--background-tertiary)]'}`}
+            title="Request timeouts"
+          >
+            <Timer className="w-4 h-4" />
+          </button>
+        )}
       </div>
 
+      {showTimeouts && timeoutSettings && onTimeoutSettingsChange && (
+        <div className="mb-4">
+          <TimeoutSettings settings={timeoutSettings} onChange={onTimeoutSettingsChange} />
+        </div>
+      )}
+
       {/* Tools list */}
       <div className="flex-1 overflow-y-auto space-y-3">
         {filteredTools.map((tool) => (
@@ -236,6 +452,14 @@ export const ToolsPanel = memo(function ToolsPanel({ tools, onCallTool, disabled
             tool={tool}
             onCall={(args) => onCallTool(tool.name, args)}
             disabled={disabled}
+            recentCalls={history.filter(e => e.params?.name === tool.name)}
+            policy={policies[tool.name]}
+            onPolicyChange={onPolicyChange ? (policy) => onPolicyChange(tool.name, policy) : undefined}
+            activeRequests={activeRequests.filter(r => r.toolName === tool.name)}
+            onCancelRequest={onCancelRequest}
+            timeoutMs={toolTimeouts[tool.name]}
+            defaultTimeoutMs={timeoutSettings?.defaultTimeoutMs}
+            onTimeoutChange={onToolTimeoutChange ? (timeoutMs) => onToolTimeoutChange(tool.name, timeoutMs) : undefined}
           />
         ))}
 
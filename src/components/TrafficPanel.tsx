@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, memo, useMemo } from 'react';
+import { Activity, ArrowUpRight, ArrowDownLeft, Trash2, Copy, Check, GitCompare } from 'lucide-react';
+import type { MCPTrafficEntry, MCPTrafficDirection } from '@/lib/types';
+import { diffJson } from '@/lib/jsonDiff';
+import { JsonDiffView } from './JsonDiffView';
+
+interface TrafficPanelProps {
+  traffic: MCPTrafficEntry[];
+  serverName: string;
+  onClear: () => void;
+}
+
+const KIND_STYLES: Record<MCPTrafficEntry['kind'], string> = {
+  'request': 'bg-blue-500/10 text-blue-400',
+  'response': 'bg-green-500/10 text-green-400',
+  'notification': 'bg-purple-500/10 text-purple-400',
+  'server-request': 'bg-orange-500/10 text-orange-400',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+}
+
+// Find the request/response counterpart of an entry (same id, opposite direction)
+function findCounterpart(traffic: MCPTrafficEntry[], entry: MCPTrafficEntry): MCPTrafficEntry | undefined {
+  if (entry.messageId === undefined || entry.kind === 'notification') return undefined;
+  const wantResponse = entry.kind !== 'response';
+  return traffic.find(other =>
+    other.id !== entry.id &&
+    other.direction !== entry.direction &&
+    String(other.messageId) === String(entry.messageId) &&
+    (other.kind === 'response') === wantResponse
+  );
+}
+
+const TrafficDetail = memo(function TrafficDetail({ entry, counterpart }: { entry: MCPTrafficEntry; counterpart?: MCPTrafficEntry }) {
+  const [view, setView] = useState<'message' | 'diff'>('message');
+  const [copied, setCopied] = useState(false);
+
+  const [requestEntry, responseEntry] = entry.kind === 'response' ? [counterpart, entry] : [entry, counterpart];
+
+  const diff = useMemo(() => {
+    if (!requestEntry || !responseEntry) return [];
+    return diffJson(requestEntry.message, responseEntry.message);
+  }, [requestEntry, responseEntry]);
+
+  const copyMessage = () => {
+    navigator.clipboard.writeText(JSON.stringify(entry.message, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="p-4 border-t border-[var(--border)] space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setView('message')}
+            className={`px-2 py-0.5 text-xs rounded transition-colors ${view === 'message' ? 'bg-[var(--accent)]/10 text-[var(--accent)]' : 'text-[var(--foreground-muted)] hover:text-[var(--foreground)]'}`}
+          >
+            Message
+          </button>
+          {counterpart && (
+            <button
+              onClick={() => setView('diff')}
+              className={`flex items-center gap-1 px-2 py-0.5 text-xs rounded transition-colors ${view === 'diff' ? 'bg-[var(--accent)]/10 text-[var(--accent)]' : 'text-[var(--foreground-muted)] hover:text-[var(--foreground)]'}`}
+            >
+              <GitCompare className="w-3 h-3" />
+              Diff request → response
+            </button>
+          )}
+        </div>
+        <button
+          onClick={copyMessage}
+          className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+
+      {view === 'message' && (
+        <pre className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg overflow-auto max-h-96 font-mono text-xs whitespace-pre-wrap break-all">
+          {JSON.stringify(entry.message, null, 2)}
+        </pre>
+      )}
+
+      {view === 'diff' && <JsonDiffView diff={diff} />}
+    </div>
+  );
+});
+
+export const TrafficPanel = memo(function TrafficPanel({ traffic, serverName, onClear }: TrafficPanelProps) {
+  const [methodFilter, setMethodFilter] = useState('');
+  const [directionFilter, setDirectionFilter] = useState<MCPTrafficDirection | 'all'>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const filteredTraffic = useMemo(() => traffic.filter(entry => {
+    if (directionFilter !== 'all' && entry.direction !== directionFilter) return false;
+    if (methodFilter && !(entry.method || '').toLowerCase().includes(methodFilter.toLowerCase())) return false;
+    return true;
+  }), [traffic, methodFilter, directionFilter]);
+
+  const totalBytes = useMemo(() => traffic.reduce((sum, entry) => sum + entry.size, 0), [traffic]);
+
+  if (traffic.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8">
+        <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
+          <Activity className="w-8 h-8 text-[var(--foreground-muted)]" />
+        </div>
+        <h3 className="text-lg font-medium mb-2">No Traffic Yet</h3>
+        <p className="text-sm text-[var(--foreground-muted)] max-w-sm">
+          JSON-RPC messages exchanged with {serverName} will appear here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Filters */}
+      <div className="mb-4 flex items-center gap-2">
+        <input
+          type="text"
+          value={methodFilter}
+          onChange={(e) => setMethodFilter(e.target.value)}
+          placeholder="Filter by method..."
+          className="flex-1 px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+        />
+        <select
+          value={directionFilter}
+          onChange={(e) => setDirectionFilter(e.target.value as MCPTrafficDirection | 'all')}
+          className="px-3 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+        >
+          <option value="all">All</option>
+          <option value="outgoing">Outgoing</option>
+          <option value="incoming">Incoming</option>
+        </select>
+        <button
+          onClick={onClear}
+          className="p-2 hover:bg-[var(--background-tertiary)] rounded-lg transition-colors"
+          title="Clear traffic"
+        >
+          <Trash2 className="w-4 h-4 text-[var(--foreground-muted)]" />
+        </button>
+      </div>
+
+      <div className="mb-2 text-xs text-[var(--foreground-muted)]">
+        {filteredTraffic.length} of {traffic.length} messages · {formatBytes(totalBytes)}
+      </div>
+
+      {/* Traffic list */}
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {filteredTraffic.map((entry) => {
+          const isSelected = entry.id === selectedId;
+          const DirectionIcon = entry.direction === 'outgoing' ? ArrowUpRight : ArrowDownLeft;
+          return (
+            <div key={entry.id} className="rounded-lg border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
+              <button
+                onClick={() => setSelectedId(isSelected ? null : entry.id)}
+                className="w-full px-3 py-2 flex items-center gap-3 text-xs hover:bg-[var(--background-tertiary)] transition-colors"
+              >
+                <DirectionIcon className={`w-3.5 h-3.5 flex-shrink-0 ${entry.direction === 'outgoing' ? 'text-blue-400' : 'text-green-400'}`} />
+                <span className="font-mono text-[var(--foreground-subtle)] flex-shrink-0">{formatTime(entry.timestamp)}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] flex-shrink-0 ${KIND_STYLES[entry.kind]}`}>{entry.kind}</span>
+                <span className="font-mono truncate flex-1 text-left">
+                  {entry.method || '—'}
+                  {'error' in entry.message && entry.message.error && (
+                    <span className="ml-2 text-red-400">error {entry.message.error.code}</span>
+                  )}
+                </span>
+                {entry.durationMs !== undefined && (
+                  <span className="font-mono text-[var(--foreground-muted)] flex-shrink-0">{entry.durationMs} ms</span>
+                )}
+                <span className="font-mono text-[var(--foreground-subtle)] flex-shrink-0 w-16 text-right">{formatBytes(entry.size)}</span>
+              </button>
+              {isSelected && (
+                <TrafficDetail entry={entry} counterpart={findCounterpart(traffic, entry)} />
+              )}
+            </div>
+          );
+        })}
+
+        {filteredTraffic.length === 0 && (
+          <div className="text-center py-8 text-[var(--foreground-muted)]">
+            No messages match the current filters
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
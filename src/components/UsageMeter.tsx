@@ -0,0 +1,59 @@
+'use client';
+
+import { memo } from 'react';
+import { Gauge, Coins } from 'lucide-react';
+import type { UsageSummary, TurnBudget } from '@/lib/usage';
+import { formatTokens, formatCost } from '@/lib/usage';
+
+function MeterBar({ label, used, limit, format = String }: {
+  label: string;
+  used: number;
+  limit: number;
+  format?: (value: number) => string;
+}) {
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+  const color = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-yellow-500' : 'bg-[var(--accent)]';
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="flex items-center justify-between gap-2 mb-0.5">
+        <span>{label}</span>
+        <span className="tabular-nums">{format(used)}/{format(limit)}</span>
+      </div>
+      <div className="h-1 rounded-full bg-[var(--background-tertiary)] overflow-hidden">
+        <div className={`h-full ${color} transition-all`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+// Steps, tool calls and tokens used by the current message against the turn limits
+export const TurnBudgetMeter = memo(function TurnBudgetMeter({ budget }: { budget: TurnBudget }) {
+  return (
+    <div className="flex items-center gap-4 text-[10px] text-[var(--foreground-muted)]">
+      <Gauge className="w-3.5 h-3.5 flex-shrink-0" />
+      <MeterBar label="Steps" used={budget.steps} limit={budget.limits.maxSteps} />
+      <MeterBar label="Tool calls" used={budget.toolCalls} limit={budget.limits.maxToolCalls} />
+      <MeterBar label="Tokens" used={budget.tokens} limit={budget.limits.maxTokens} format={formatTokens} />
+    </div>
+  );
+});
+
+// Total tokens and estimated cost of a conversation
+export const ConversationUsage = memo(function ConversationUsage({ summary }: { summary: UsageSummary }) {
+  if (summary.usage.totalTokens === 0) return null;
+
+  const { usage } = summary;
+  const title = [
+    `Prompt: ${usage.promptTokens.toLocaleString()} tokens`,
+    `Completion: ${usage.completionTokens.toLocaleString()} tokens`,
+    summary.unpricedSteps > 0 ? `${summary.unpricedSteps} step(s) without a known price are not included in the cost` : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-[var(--foreground-muted)]" title={title}>
+      <Coins className="w-3.5 h-3.5" />
+      {formatTokens(usage.totalTokens)} tokens
+      {(summary.cost > 0 || summary.unpricedSteps === 0) && <> · {formatCost(summary.cost)}{summary.unpricedSteps > 0 && '+'}</>}
+    </span>
+  );
+});
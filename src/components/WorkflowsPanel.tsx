@@ -0,0 +1,490 @@
+'use client';
+
+import { useState, memo } from 'react';
+import { Workflow as WorkflowIcon, Play, Loader2, ChevronDown, ChevronRight, Plus, X, Pencil, Trash2, Clock, AlertCircle, Check } from 'lucide-react';
+import type { Workflow, WorkflowParameter, WorkflowParameterType, WorkflowRun } from '@/lib/llm-types';
+import type { WorkflowInput } from '@/lib/useWorkflows';
+import { getWorkflowInputSchema, getWorkflowProblems, getWorkflowToolName, MIN_SCHEDULE_INTERVAL_MINUTES } from '@/lib/workflows';
+import { getDefaultValue, validateAgainstSchema } from '@/lib/jsonSchema';
+import type { SchemaViolation } from '@/lib/jsonSchema';
+import { SchemaForm, SchemaViolationList } from './SchemaForm';
+import { OrchestratorResultView } from './OrchestratorTrace';
+
+interface WorkflowsPanelProps {
+  workflows: Workflow[];
+  runningIds: string[];
+  onSave: (input: WorkflowInput, id?: string) => string;
+  onDelete: (id: string) => void;
+  onRun: (id: string, args: Record<string, unknown>) => Promise<WorkflowRun | null>;
+}
+
+const PARAMETER_TYPES: WorkflowParameterType[] = ['string', 'number', 'boolean', 'object'];
+
+const EXAMPLE_CODE = `// Arguments are available as \`params\`
+const result = await mcp.callTool('server__tool', { query: params.query });
+mcp.log(result);`;
+
+const inputClassName = 'w-full px-3 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50 placeholder:text-[var(--foreground-muted)]';
+
+function toWorkflowInput(workflow: Workflow): WorkflowInput {
+  return {
+    name: workflow.name,
+    description: workflow.description,
+    code: workflow.code,
+    parameters: workflow.parameters,
+    schedule: workflow.schedule,
+  };
+}
+
+function WorkflowEditor({ workflow, workflows, onSave, onCancel }: {
+  workflow?: Workflow;
+  workflows: Workflow[];
+  onSave: (input: WorkflowInput) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(workflow?.name || '');
+  const [description, setDescription] = useState(workflow?.description || '');
+  const [code, setCode] = useState(workflow?.code || EXAMPLE_CODE);
+  const [parameters, setParameters] = useState<WorkflowParameter[]>(workflow?.parameters || []);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const updateParameter = (index: number, update: Partial<WorkflowParameter>) => {
+    setParameters(parameters.map((p, i) => i === index ? { ...p, ...update } : p));
+  };
+
+  const handleSave = () => {
+    const input: WorkflowInput = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      code,
+      parameters: parameters.map(p => ({ ...p, name: p.name.trim(), description: p.description?.trim() || undefined })),
+      schedule: workflow?.schedule,
+    };
+    const found = getWorkflowProblems({ ...input, id: workflow?.id }, workflows);
+    setProblems(found);
+    if (found.length === 0) onSave(input);
+  };
+
+  return (
+    <div className="rounded-xl border border-[var(--accent)]/40 bg-[var(--background-secondary)] p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="daily-report"
+            className={inputClassName}
+          />
+          {name.trim() && (
+            <p className="mt-1 text-xs text-[var(--foreground-muted)]">
+              Exposed to chat as <span className="font-mono">{getWorkflowToolName({ name: name.trim() })}</span>
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm mb-1">Description</label>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What the workflow does, shown to the model"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {/* Parameters */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Parameters</h4>
+          <button
+            onClick={() => setParameters([...parameters, { name: '', type: 'string' }])}
+            className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] hover:text-[var(--foreground)]"
+          >
+            <Plus className="w-3 h-3" />
+            Add parameter
+          </button>
+        </div>
+        {parameters.length === 0 && (
+          <p className="text-xs text-[var(--foreground-muted)]">No parameters</p>
+        )}
+        {parameters.map((parameter, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={parameter.name}
+              onChange={(e) => updateParameter(index, { name: e.target.value })}
+              placeholder="name"
+              className={`${inputClassName} font-mono !w-40 flex-shrink-0`}
+            />
+            <select
+              value={parameter.type}
+              onChange={(e) => updateParameter(index, { type: e.target.value as WorkflowParameterType })}
+              className="px-2 py-2 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)]"
+            >
+              {PARAMETER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <input
+              type="text"
+              value={parameter.description || ''}
+              onChange={(e) => updateParameter(index, { description: e.target.value })}
+              placeholder="Description"
+              className={inputClassName}
+            />
+            <label className="flex items-center gap-1 text-xs text-[var(--foreground-muted)] flex-shrink-0">
+              <input
+                type="checkbox"
+                checked={!!parameter.required}
+                onChange={(e) => updateParameter(index, { required: e.target.checked })}
+                className="accent-[var(--accent)]"
+              />
+              Required
+            </label>
+            <button
+              onClick={() => setParameters(parameters.filter((_, i) => i !== index))}
+              className="p-1 rounded text-[var(--foreground-muted)] hover:text-red-400"
+              title="Remove parameter"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Code */}
+      <div>
+        <label className="block text-sm mb-1">Code</label>
+        <p className="text-xs text-[var(--foreground-muted)] mb-2">
+          Runs in the orchestrator sandbox. Use <span className="font-mono">await mcp.callTool(name, args)</span>, <span className="font-mono">mcp.log(...)</span> and <span className="font-mono">params</span>.
+        </p>
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          rows={Math.min(Math.max(code.split('\n').length, 6), 20)}
+          spellCheck={false}
+          className={`${inputClassName} font-mono text-xs`}
+        />
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm space-y-0.5">
+          {problems.map(problem => (
+            <div key={problem} className="flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {problem}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1.5 px-3 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          Save Workflow
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RunOutput({ run }: { run: WorkflowRun }) {
+  // Runs saved before traces were recorded have none
+  const result = { ...run, trace: run.trace || [] };
+  const hasOutput = result.trace.length > 0 || !!result.stdout || result.returnValue !== undefined;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Last Run</h4>
+        <span className="text-xs text-[var(--foreground-muted)]">
+          {run.trigger === 'schedule' ? 'Scheduled' : 'Manual'} · {new Date(run.startedAt).toLocaleString()} · {run.completedAt - run.startedAt}ms
+        </span>
+      </div>
+      {run.error && (
+        <div className="mb-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {run.error}
+        </div>
+      )}
+      {hasOutput ? (
+        <div className="p-3 bg-[var(--background-tertiary)] border border-[var(--border)] rounded-lg">
+          <OrchestratorResultView result={result} />
+        </div>
+      ) : (
+        <p className="text-xs text-[var(--foreground-muted)]">No output</p>
+      )}
+    </div>
+  );
+}
+
+const WorkflowCard = memo(function WorkflowCard({ workflow, isRunning, onEdit, onSave, onDelete, onRun }: {
+  workflow: Workflow;
+  isRunning: boolean;
+  onEdit: () => void;
+  onSave: (input: WorkflowInput) => void;
+  onDelete: () => void;
+  onRun: (args: Record<string, unknown>) => Promise<WorkflowRun | null>;
+}) {
+  const inputSchema = getWorkflowInputSchema(workflow);
+  const [expanded, setExpanded] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [args, setArgs] = useState<Record<string, unknown>>(() =>
+    workflow.schedule?.arguments || (getDefaultValue(inputSchema, inputSchema) as Record<string, unknown>) || {}
+  );
+  const [violations, setViolations] = useState<SchemaViolation[]>([]);
+  const [intervalMinutes, setIntervalMinutes] = useState(workflow.schedule?.intervalMinutes || 60);
+
+  const handleRun = async () => {
+    const found = validateAgainstSchema(args, inputSchema);
+    setViolations(found);
+    if (found.length > 0) return;
+    await onRun(args);
+  };
+
+  // Scheduled runs use the arguments in the form when the schedule is turned on
+  const setScheduleEnabled = (enabled: boolean) => {
+    if (enabled) {
+      const found = validateAgainstSchema(args, inputSchema);
+      setViolations(found);
+      if (found.length > 0) return;
+    }
+    onSave({
+      ...toWorkflowInput(workflow),
+      schedule: { enabled, intervalMinutes: Math.max(MIN_SCHEDULE_INTERVAL_MINUTES, intervalMinutes), arguments: args },
+    });
+  };
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--background-secondary)] overflow-hidden">
+      {/* Header */}
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-[var(--background-tertiary)] transition-colors"
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="w-8 h-8 rounded-lg bg-[var(--accent)]/10 flex items-center justify-center flex-shrink-0">
+            {isRunning
+              ? <Loader2 className="w-4 h-4 text-[var(--accent)] animate-spin" />
+              : <WorkflowIcon className="w-4 h-4 text-[var(--accent)]" />}
+          </div>
+          <div className="text-left min-w-0">
+            <span className="font-medium text-sm">{workflow.name}</span>
+            {workflow.description && (
+              <p className="text-xs text-[var(--foreground-muted)] truncate max-w-xs">{workflow.description}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {workflow.schedule?.enabled && (
+            <span className="flex items-center gap-1 text-xs text-[var(--foreground-muted)]">
+              <Clock className="w-3 h-3" />
+              every {workflow.schedule.intervalMinutes}m
+            </span>
+          )}
+          {workflow.lastRun && (
+            workflow.lastRun.error
+              ? <AlertCircle className="w-3.5 h-3.5 text-red-400" />
+              : <Check className="w-3.5 h-3.5 text-[var(--success)]" />
+          )}
+          {expanded ? (
+            <ChevronDown className="w-4 h-4 text-[var(--foreground-muted)]" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-[var(--foreground-muted)]" />
+          )}
+        </div>
+      </button>
+
+      {/* Expanded content */}
+      {expanded && (
+        <div className="p-4 border-t border-[var(--border)] space-y-4">
+          {workflow.parameters.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-xs font-medium text-[var(--foreground-muted)] uppercase tracking-wide">Arguments</h4>
+              <SchemaForm
+                schema={inputSchema}
+                value={args}
+                onChange={(next) => {
+                  setArgs(next);
+                  setViolations([]);
+                }}
+                disabled={isRunning}
+              />
+            </div>
+          )}
+
+          {violations.length > 0 && (
+            <SchemaViolationList title="Arguments don't match the workflow's parameters" violations={violations} />
+          )}
+
+          {/* Schedule */}
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!workflow.schedule?.enabled}
+                onChange={(e) => setScheduleEnabled(e.target.checked)}
+                className="accent-[var(--accent)]"
+              />
+              Run every
+            </label>
+            <input
+              type="number"
+              min={MIN_SCHEDULE_INTERVAL_MINUTES}
+              value={intervalMinutes}
+              onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+              disabled={workflow.schedule?.enabled}
+              className="w-20 px-2 py-1 bg-[var(--background-tertiary)] border border-[var(--border)] rounded text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] disabled:opacity-50"
+            />
+            <span>minutes while this tab is open</span>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="flex items-center gap-2 px-4 py-2 bg-[var(--success)] hover:bg-green-600 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Running...
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  Run
+                </>
+              )}
+            </button>
+            <button
+              onClick={onEdit}
+              className="flex items-center gap-1.5 px-3 py-2 bg-[var(--background-tertiary)] hover:bg-[var(--border)] rounded-lg text-sm font-medium transition-colors"
+            >
+              <Pencil className="w-4 h-4" />
+              Edit
+            </button>
+            <button
+              onClick={() => confirmDelete ? onDelete() : setConfirmDelete(true)}
+              onBlur={() => setConfirmDelete(false)}
+              className={`ml-auto flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${confirmDelete
+                ? 'bg-red-500/20 text-red-400'
+                : 'text-[var(--foreground-muted)] hover:text-red-400 hover:bg-red-500/10'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+              {confirmDelete ? 'Confirm' : 'Delete'}
+            </button>
+          </div>
+
+          {workflow.lastRun && <RunOutput run={workflow.lastRun} />}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const WorkflowsPanel = memo(function WorkflowsPanel({ workflows, runningIds, onSave, onDelete, onRun }: WorkflowsPanelProps) {
+  const [search, setSearch] = useState('');
+  // Id of the workflow being edited, or 'new'
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const filteredWorkflows = workflows.filter(workflow =>
+    workflow.name.toLowerCase().includes(search.toLowerCase()) ||
+    workflow.description?.toLowerCase().includes(search.toLowerCase())
+  );
+
+  const newWorkflowButton = (
+    <button
+      onClick={() => setEditingId('new')}
+      className="flex items-center gap-1.5 px-4 py-2 bg-[var(--accent)] hover:bg-[var(--accent-hover)] text-white rounded-xl text-sm font-medium transition-colors flex-shrink-0"
+    >
+      <Plus className="w-4 h-4" />
+      New Workflow
+    </button>
+  );
+
+  if (workflows.length === 0 && editingId !== 'new') {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8">
+        <div className="w-16 h-16 rounded-2xl bg-[var(--background-secondary)] flex items-center justify-center mb-4">
+          <WorkflowIcon className="w-8 h-8 text-[var(--foreground-muted)]" />
+        </div>
+        <h3 className="text-lg font-medium mb-2">No Workflows Yet</h3>
+        <p className="text-sm text-[var(--foreground-muted)] max-w-sm mb-4">
+          Save orchestrator scripts with parameters, run them without an LLM, schedule them, and let the chat model call them as tools.
+        </p>
+        {newWorkflowButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Search */}
+      <div className="mb-4 flex items-center gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search workflows..."
+          className="w-full px-4 py-2 bg-[var(--background-secondary)] border border-[var(--border)] rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent)] placeholder:text-[var(--foreground-muted)]"
+        />
+        {newWorkflowButton}
+      </div>
+
+      {/* Workflows list */}
+      <div className="flex-1 overflow-y-auto space-y-3">
+        {editingId === 'new' && (
+          <WorkflowEditor
+            workflows={workflows}
+            onSave={(input) => {
+              onSave(input);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
+        {filteredWorkflows.map((workflow) => editingId === workflow.id ? (
+          <WorkflowEditor
+            key={workflow.id}
+            workflow={workflow}
+            workflows={workflows}
+            onSave={(input) => {
+              onSave(input, workflow.id);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <WorkflowCard
+            key={workflow.id}
+            workflow={workflow}
+            isRunning={runningIds.includes(workflow.id)}
+            onEdit={() => setEditingId(workflow.id)}
+            onSave={(input) => onSave(input, workflow.id)}
+            onDelete={() => onDelete(workflow.id)}
+            onRun={(args) => onRun(workflow.id, args)}
+          />
+        ))}
+
+        {filteredWorkflows.length === 0 && search && (
+          <div className="text-center py-8 text-[var(--foreground-muted)]">
+            No workflows matching &quot;{search}&quot;
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
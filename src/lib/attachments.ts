@@ -0,0 +1,142 @@
+// Chat attachments: reading files in the browser and preparing them (and MCP
+// tool result images) for multimodal LLM requests
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatAttachment, ChatMessage, LLMProvider } from './llm-types';
+import { modelSupportsVision } from './llm-types';
+import { codeBlock } from './conversationExport';
+
+// Inline base64 keeps whole files in the request and in IndexedDB, so keep them modest
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Formats that every provider with vision accepts
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'xml', 'html', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'c', 'h', 'cpp', 'sh', 'sql', 'toml', 'ini', 'log',
+];
+
+// Value for the file input's `accept` attribute
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  'text/*',
+  ...TEXT_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+export interface AttachmentImage {
+  mimeType: string;
+  data: string; // Base64
+}
+
+// Which binary attachments a model takes as content blocks; text files always go inline
+export interface AttachmentSupport {
+  images: boolean;
+  pdfs: boolean;
+}
+
+// Ollama and OpenAI-compatible endpoints have no document input, so PDFs need a native provider
+export function getAttachmentSupport(provider: LLMProvider, model: string): AttachmentSupport {
+  const vision = modelSupportsVision(provider, model);
+  return {
+    images: vision,
+    pdfs: vision && (provider === 'openai' || provider === 'anthropic' || provider === 'gemini'),
+  };
+}
+
+export function isAttachmentSupported(attachment: ChatAttachment, support: AttachmentSupport): boolean {
+  if (attachment.kind === 'text') return true;
+  return attachment.kind === 'image' ? support.images : support.pdfs;
+}
+
+// Kind for base64 content of the given type, or null when no provider accepts it
+export function getBinaryAttachmentKind(mimeType: string): 'image' | 'pdf' | null {
+  if (IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+}
+
+function getAttachmentKind(file: File): ChatAttachment['kind'] | null {
+  const binaryKind = getBinaryAttachmentKind(file.type);
+  if (binaryKind) return binaryKind;
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extension)) {
+    return 'text';
+  }
+  return null;
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Result is a data URL; keep only the base64 payload
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error || new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Reads a file picked, pasted or dropped into the chat. Throws a user-facing
+ * Error for unsupported types and files over the size limit.
+ */
+export async function readAttachment(file: File): Promise<ChatAttachment> {
+  const kind = getAttachmentKind(file);
+  if (!kind) {
+    throw new Error(`${file.name}: unsupported file type. Attach images (PNG, JPEG, GIF, WebP), PDFs or text files.`);
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+
+  return {
+    id: uuidv4(),
+    name: file.name || (kind === 'image' ? 'pasted-image' : 'file'),
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    kind,
+    data: kind === 'text' ? await file.text() : await readAsBase64(file),
+  };
+}
+
+export function getAttachmentDataUrl(attachment: Pick<ChatAttachment, 'mimeType' | 'data'>): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+// Text files and mentioned resources and prompts are sent inline as part of the message text
+export function formatTextAttachment(attachment: ChatAttachment): string {
+  const source = attachment.source;
+  const label = source?.type === 'resource'
+    ? `Resource "${source.uri}" from ${source.serverName}`
+    : source?.type === 'prompt'
+    ? `Prompt "${source.name}" from ${source.serverName}`
+    : `Attached file "${attachment.name}"`;
+  return `${label}:\n${codeBlock(attachment.data)}`;
+}
+
+// Placeholder for an attachment the model can't take, so it knows something was attached
+export function formatUnsupportedAttachment(attachment: ChatAttachment): string {
+  return `[Attached ${attachment.kind === 'image' ? 'image' : 'PDF'} "${attachment.name}" omitted: not supported by this model]`;
+}
+
+// Images in an MCP tool result, as image content or image resources. Formats
+// providers don't accept (e.g. SVG) are skipped and stay as the text placeholder.
+export function getToolResultImages(message: ChatMessage): AttachmentImage[] {
+  return (message.toolResultContent || []).flatMap(item => {
+    if (item.type === 'image' && item.data && item.mimeType && getBinaryAttachmentKind(item.mimeType) === 'image') {
+      return [{ mimeType: item.mimeType, data: item.data }];
+    }
+    if (item.type === 'resource' && item.resource?.blob && item.resource.mimeType && getBinaryAttachmentKind(item.resource.mimeType) === 'image') {
+      return [{ mimeType: item.resource.mimeType, data: item.resource.blob }];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,219 @@
+// Conversation export/import: versioned JSON, Markdown and replayable tool calls
+
+import type { ChatBranchSet, ChatConversation, ChatMessage, LLMProvider, ToolCall, ToolResultContent } from './llm-types';
+import { ALL_PROVIDER_KEYS } from './llm-types';
+import { isWorkflowToolName } from './workflows';
+
+export const CONVERSATION_EXPORT_FORMAT = 'mcp-web-client/conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+// Internal tools and saved workflows run in the client; there is nothing on a server to replay
+const INTERNAL_TOOL_NAMES = ['mcp_tool_search', 'javascript_orchestrator'];
+
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: {
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    provider?: LLMProvider;
+    model?: string;
+    systemPrompt?: string;
+    messages: ChatMessage[];
+    branches?: Record<string, ChatBranchSet>;
+  };
+}
+
+export interface ReplayableToolCall {
+  messageId: string;
+  toolCall: ToolCall;
+}
+
+export function exportConversationJSON(conversation: ChatConversation): string {
+  const data: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+      provider: conversation.provider,
+      model: conversation.model,
+      systemPrompt: conversation.systemPrompt,
+      messages: conversation.messages.map(message => ({ ...message, isStreaming: undefined })),
+      branches: conversation.branches,
+    },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Parses an exported conversation, returning the fields needed to recreate it.
+ * Throws with a user-facing message when the file is not a supported export.
+ */
+export function parseConversationExport(text: string): Partial<ChatConversation> & { messages: ChatMessage[] } {
+  let data: Partial<ConversationExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (data?.format !== CONVERSATION_EXPORT_FORMAT || !data.conversation) {
+    throw new Error('File is not an exported conversation');
+  }
+  if (typeof data.version !== 'number' || data.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`Unsupported conversation export version: ${data.version}`);
+  }
+
+  const { conversation } = data;
+  if (!Array.isArray(conversation.messages)) {
+    throw new Error('Exported conversation has no messages');
+  }
+  const invalidIndex = conversation.messages.findIndex(m =>
+    !m || typeof m.id !== 'string' || typeof m.content !== 'string' ||
+    !['user', 'assistant', 'system', 'tool'].includes(m.role)
+  );
+  if (invalidIndex >= 0) {
+    throw new Error(`Message ${invalidIndex + 1} is malformed`);
+  }
+
+  return {
+    title: typeof conversation.title === 'string' ? conversation.title : undefined,
+    provider: conversation.provider && ALL_PROVIDER_KEYS.includes(conversation.provider) ? conversation.provider : undefined,
+    model: typeof conversation.model === 'string' ? conversation.model : undefined,
+    systemPrompt: typeof conversation.systemPrompt === 'string' ? conversation.systemPrompt : undefined,
+    messages: conversation.messages,
+    branches: conversation.branches && typeof conversation.branches === 'object' ? conversation.branches : undefined,
+  };
+}
+
+// Fence longer than any backtick run in the text so code blocks can't break out
+export function codeBlock(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function formatJson(value: unknown): string {
+  return codeBlock(JSON.stringify(value, null, 2), 'json');
+}
+
+function formatResultContent(item: ToolResultContent): string {
+  if (item.type === 'text') return codeBlock(item.text || '');
+  if (item.type === 'image') return `_[image: ${item.mimeType || 'unknown type'}]_`;
+  if (item.type === 'resource' && item.resource) {
+    const header = `Resource \`${item.resource.uri}\`${item.resource.mimeType ? ` (${item.resource.mimeType})` : ''}`;
+    return item.resource.text !== undefined ? `${header}\n\n${codeBlock(item.resource.text)}` : header;
+  }
+  return formatJson(item);
+}
+
+function formatToolCall(toolCall: ToolCall): string {
+  const lines = [`**Tool call:** \`${toolCall.name}\` — ${toolCall.status}`, '', formatJson(toolCall.arguments)];
+  if (toolCall.error) {
+    lines.push('', `> **Error:** ${toolCall.error}`);
+  }
+  return lines.join('\n');
+}
+
+function formatMessage(message: ChatMessage, toolNames: Map<string, string>): string {
+  const sections: string[] = [];
+  const time = new Date(message.timestamp).toLocaleString();
+
+  switch (message.role) {
+    case 'user':
+      sections.push(`### User · ${time}`);
+      break;
+    case 'assistant':
+      sections.push(`### Assistant${message.model ? ` (${message.provider ? `${message.provider}/` : ''}${message.model})` : ''} · ${time}`);
+      break;
+    case 'tool': {
+      const name = message.toolCallId ? toolNames.get(message.toolCallId) : undefined;
+      sections.push(`### Tool result${name ? ` · \`${name}\`` : ''} · ${time}`);
+      break;
+    }
+    default:
+      sections.push(`### System · ${time}`);
+  }
+
+  if (message.role === 'tool') {
+    if (message.toolResultContent?.length) {
+      sections.push(...message.toolResultContent.map(formatResultContent));
+    } else if (message.content) {
+      sections.push(codeBlock(message.content));
+    }
+  } else if (message.content) {
+    sections.push(message.content);
+  }
+
+  for (const attachment of message.attachments || []) {
+    sections.push(attachment.kind === 'text'
+      ? `**Attachment:** \`${attachment.name}\`\n\n${codeBlock(attachment.data)}`
+      : `_[${attachment.kind}: ${attachment.name} (${attachment.mimeType})]_`);
+  }
+
+  for (const toolCall of message.toolCalls || []) {
+    sections.push(formatToolCall(toolCall));
+  }
+  if (message.error) {
+    sections.push(`> **Error:** ${message.error}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function exportConversationMarkdown(conversation: ChatConversation): string {
+  const toolNames = new Map<string, string>();
+  for (const message of conversation.messages) {
+    for (const toolCall of message.toolCalls || []) {
+      toolNames.set(toolCall.id, toolCall.name);
+    }
+  }
+
+  const header = [`# ${conversation.title}`, ''];
+  header.push(`- Exported: ${new Date().toLocaleString()}`);
+  if (conversation.provider) {
+    header.push(`- Model: ${conversation.provider}${conversation.model ? `/${conversation.model}` : ''}`);
+  }
+  header.push(`- Messages: ${conversation.messages.length}`);
+  if (conversation.systemPrompt) {
+    header.push('', '## System Prompt', '', conversation.systemPrompt);
+  }
+
+  return [
+    header.join('\n'),
+    '## Transcript',
+    ...conversation.messages.map(message => formatMessage(message, toolNames)),
+  ].join('\n\n') + '\n';
+}
+
+// Recorded MCP tool calls that finished (with a result or an error) and can be re-run
+export function getReplayableToolCalls(messages: ChatMessage[]): ReplayableToolCall[] {
+  return messages.flatMap(message =>
+    (message.toolCalls || [])
+      .filter(tc =>
+        !INTERNAL_TOOL_NAMES.includes(tc.name) && !isWorkflowToolName(tc.name) &&
+        (tc.status === 'completed' || tc.status === 'error')
+      )
+      .map(toolCall => ({ messageId: message.id, toolCall }))
+  );
+}
+
+// File name safe for every OS, derived from the conversation title
+export function getExportFileName(conversation: ChatConversation, extension: string): string {
+  const base = conversation.title.replace(/[^A-Za-z0-9-_ ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60);
+  return `${base || 'conversation'}.${extension}`;
+}
+
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,108 @@
+// Conversation persistence in IndexedDB (no size cap, unlike localStorage)
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatConversation, ChatMessage } from './llm-types';
+
+const DB_NAME = 'mcp-web-client';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+// Single-conversation history written by earlier versions
+const LEGACY_CHAT_HISTORY_KEY = 'mcp-chat-history';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run a single request in a transaction and resolve with its result
+async function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CONVERSATIONS_STORE, mode);
+    const request = run(transaction.objectStore(CONVERSATIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Pre-IndexedDB chat history as a conversation
+function parseLegacyHistory(stored: string): ChatConversation | null {
+  try {
+    const messages: ChatMessage[] = JSON.parse(stored);
+    if (!Array.isArray(messages) || messages.length === 0) return null;
+    const now = Date.now();
+    return {
+      id: uuidv4(),
+      title: 'Previous chat',
+      createdAt: messages[0].timestamp || now,
+      updatedAt: messages[messages.length - 1].timestamp || now,
+      messages,
+    };
+  } catch {
+    return null;
+  }
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+// Import the legacy history once. The key is removed before the first await, so
+// overlapping loads (e.g. React strict mode's repeated effect) share one import;
+// it is put back if the import fails.
+function migrateLegacyHistory(): Promise<void> {
+  if (!legacyMigration) {
+    let stored: string | null = null;
+    try {
+      stored = localStorage.getItem(LEGACY_CHAT_HISTORY_KEY);
+      if (stored) localStorage.removeItem(LEGACY_CHAT_HISTORY_KEY);
+    } catch {
+      // Ignore storage errors
+    }
+    const legacy = stored ? parseLegacyHistory(stored) : null;
+    legacyMigration = legacy && stored
+      ? saveConversation(legacy).catch(err => {
+        try {
+          localStorage.setItem(LEGACY_CHAT_HISTORY_KEY, stored);
+        } catch {
+          // Ignore storage errors
+        }
+        legacyMigration = null;
+        throw err;
+      })
+      : Promise.resolve();
+  }
+  return legacyMigration;
+}
+
+export async function loadConversations(): Promise<ChatConversation[]> {
+  if (typeof window === 'undefined' || !window.indexedDB) return [];
+  await migrateLegacyHistory();
+  return runRequest<ChatConversation[]>('readonly', store => store.getAll());
+}
+
+export async function saveConversation(conversation: ChatConversation): Promise<void> {
+  if (typeof window === 'undefined' || !window.indexedDB) return;
+  await runRequest('readwrite', store => store.put(conversation));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  if (typeof window === 'undefined' || !window.indexedDB) return;
+  await runRequest('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,60 @@
+// Structural diff between two JSON values
+
+export interface JsonDiffEntry {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Append an object key or array index to a JSONPath-like path
+export function appendJsonPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Compares two JSON values and returns the list of differences, keyed by
+ * JSONPath-like paths (e.g. `$.result.content[0].text`).
+ */
+export function diffJson(before: unknown, after: unknown, path: string = '$'): JsonDiffEntry[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: JsonDiffEntry[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      if (i >= before.length) {
+        entries.push({ path: appendJsonPath(path, i), type: 'added', after: after[i] });
+      } else if (i >= after.length) {
+        entries.push({ path: appendJsonPath(path, i), type: 'removed', before: before[i] });
+      } else {
+        entries.push(...diffJson(before[i], after[i], appendJsonPath(path, i)));
+      }
+    }
+    return entries;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const entries: JsonDiffEntry[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!(key in before)) {
+        entries.push({ path: appendJsonPath(path, key), type: 'added', after: after[key] });
+      } else if (!(key in after)) {
+        entries.push({ path: appendJsonPath(path, key), type: 'removed', before: before[key] });
+      } else {
+        entries.push(...diffJson(before[key], after[key], appendJsonPath(path, key)));
+      }
+    }
+    return entries;
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{ path, type: 'changed', before, after }];
+}
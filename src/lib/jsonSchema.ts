@@ -0,0 +1,299 @@
+// JSON Schema helpers: $ref resolution, default values and validation
+// Covers the subset of JSON Schema used by MCP tool input/output schemas.
+
+import { appendJsonPath } from './jsonDiff';
+
+export interface JSONSchema {
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  definitions?: Record<string, JSONSchema>;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  const?: unknown;
+  enum?: unknown[];
+  oneOf?: JSONSchema[];
+  anyOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  // Objects
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  // Arrays
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+const MAX_REF_DEPTH = 32;
+
+// Resolve a local JSON pointer (e.g. "#/$defs/Address") against the root schema
+function resolvePointer(root: JSONSchema, ref: string): JSONSchema | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  const segments = ref.slice(1).split('/').filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return typeof current === 'object' && current !== null ? current as JSONSchema : undefined;
+}
+
+/**
+ * Follows `$ref` chains (local refs only) and merges sibling keywords over the
+ * referenced schema. Unresolvable refs resolve to an empty (accept-all) schema.
+ */
+export function resolveSchema(schema: JSONSchema | undefined, root: JSONSchema): JSONSchema {
+  let current: JSONSchema = schema || {};
+  for (let depth = 0; current.$ref && depth < MAX_REF_DEPTH; depth++) {
+    const { $ref, ...siblings } = current;
+    const target = resolvePointer(root, $ref) || {};
+    current = { ...target, ...siblings };
+  }
+  return current;
+}
+
+// Primary type of a schema, inferred from keywords when `type` is missing
+export function getSchemaType(schema: JSONSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find(t => t !== 'null') || schema.type[0];
+  }
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  if (schema.enum && schema.enum.length > 0) return jsonTypeOf(schema.enum[0]);
+  if (schema.const !== undefined) return jsonTypeOf(schema.const);
+  return undefined;
+}
+
+// JSON Schema type name of a value
+export function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonTypeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+/**
+ * Builds the initial value for a schema: its `default`/`const`, or for objects
+ * an object assembled from property defaults. Returns undefined when nothing applies.
+ * `expandingRefs` holds the refs being expanded further up; meeting one again
+ * means the schema is recursive, and the recursion stops there.
+ */
+export function getDefaultValue(
+  schema: JSONSchema | undefined,
+  root: JSONSchema,
+  expandingRefs: ReadonlySet<string> = new Set()
+): unknown {
+  const ref = schema?.$ref;
+  if (ref && expandingRefs.has(ref)) return undefined;
+  const refs = ref ? new Set(expandingRefs).add(ref) : expandingRefs;
+
+  const resolved = resolveSchema(schema, root);
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.const !== undefined) return resolved.const;
+
+  if (getSchemaType(resolved) === 'object' && resolved.properties) {
+    const result: Record<string, unknown> = {};
+    for (const [key, propSchema] of Object.entries(resolved.properties)) {
+      const value = getDefaultValue(propSchema, root, refs);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  return undefined;
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'email': /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  'uri': /^[a-zA-Z][a-zA-Z0-9+.-]*:\S*$/,
+  'date': /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/,
+  'uuid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+/**
+ * Validates a value against a schema and returns every violation found,
+ * with JSONPath-like paths (e.g. `$.items[2].name`). An empty array means valid.
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JSONSchema | undefined,
+  root: JSONSchema = schema || {},
+  path: string = '$'
+): SchemaViolation[] {
+  const resolved = resolveSchema(schema, root);
+  const violations: SchemaViolation[] = [];
+
+  // Type
+  if (resolved.type !== undefined) {
+    const types = Array.isArray(resolved.type) ? resolved.type : [resolved.type];
+    if (!types.some(t => matchesType(value, t))) {
+      violations.push({ path, message: `Expected ${types.join(' | ')}, got ${jsonTypeOf(value)}` });
+      // Structural checks below would only add noise
+      return violations;
+    }
+  }
+
+  if (resolved.const !== undefined && JSON.stringify(value) !== JSON.stringify(resolved.const)) {
+    violations.push({ path, message: `Must equal ${JSON.stringify(resolved.const)}` });
+  }
+
+  if (resolved.enum && !resolved.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    violations.push({ path, message: `Must be one of ${resolved.enum.map(o => JSON.stringify(o)).join(', ')}` });
+  }
+
+  // Composition
+  if (resolved.allOf) {
+    for (const sub of resolved.allOf) {
+      violations.push(...validateAgainstSchema(value, sub, root, path));
+    }
+  }
+  if (resolved.anyOf) {
+    const matches = resolved.anyOf.some(sub => validateAgainstSchema(value, sub, root, path).length === 0);
+    if (!matches) {
+      violations.push({ path, message: 'Does not match any of the allowed schemas (anyOf)' });
+    }
+  }
+  if (resolved.oneOf) {
+    const matchCount = resolved.oneOf.filter(sub => validateAgainstSchema(value, sub, root, path).length === 0).length;
+    if (matchCount !== 1) {
+      violations.push({
+        path,
+        message: matchCount === 0
+          ? 'Does not match any of the allowed schemas (oneOf)'
+          : `Matches ${matchCount} schemas, expected exactly one (oneOf)`,
+      });
+    }
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+      violations.push({ path, message: `Must be at least ${resolved.minLength} characters` });
+    }
+    if (resolved.maxLength !== undefined && value.length > resolved.maxLength) {
+      violations.push({ path, message: `Must be at most ${resolved.maxLength} characters` });
+    }
+    if (resolved.pattern) {
+      try {
+        if (!new RegExp(resolved.pattern, 'u').test(value)) {
+          violations.push({ path, message: `Must match pattern ${resolved.pattern}` });
+        }
+      } catch {
+        // Ignore patterns the browser's regex engine can't compile
+      }
+    }
+    if (resolved.format && FORMAT_PATTERNS[resolved.format] && !FORMAT_PATTERNS[resolved.format].test(value)) {
+      violations.push({ path, message: `Must be a valid ${resolved.format}` });
+    }
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      violations.push({ path, message: `Must be >= ${resolved.minimum}` });
+    }
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      violations.push({ path, message: `Must be <= ${resolved.maximum}` });
+    }
+    if (resolved.exclusiveMinimum !== undefined && value <= resolved.exclusiveMinimum) {
+      violations.push({ path, message: `Must be > ${resolved.exclusiveMinimum}` });
+    }
+    if (resolved.exclusiveMaximum !== undefined && value >= resolved.exclusiveMaximum) {
+      violations.push({ path, message: `Must be < ${resolved.exclusiveMaximum}` });
+    }
+    if (resolved.multipleOf && Math.abs(value / resolved.multipleOf - Math.round(value / resolved.multipleOf)) > 1e-9) {
+      violations.push({ path, message: `Must be a multiple of ${resolved.multipleOf}` });
+    }
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+      violations.push({ path, message: `Must have at least ${resolved.minItems} items` });
+    }
+    if (resolved.maxItems !== undefined && value.length > resolved.maxItems) {
+      violations.push({ path, message: `Must have at most ${resolved.maxItems} items` });
+    }
+    if (resolved.uniqueItems) {
+      const seen = new Set(value.map(item => JSON.stringify(item)));
+      if (seen.size !== value.length) {
+        violations.push({ path, message: 'Items must be unique' });
+      }
+    }
+    if (resolved.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, resolved.items, root, appendJsonPath(path, index)));
+      });
+    }
+  }
+
+  // Objects
+  if (jsonTypeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of resolved.required || []) {
+      if (obj[key] === undefined) {
+        violations.push({ path: appendJsonPath(path, key), message: 'Required' });
+      }
+    }
+    const properties = resolved.properties || {};
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (propValue === undefined) continue;
+      if (properties[key]) {
+        violations.push(...validateAgainstSchema(propValue, properties[key], root, appendJsonPath(path, key)));
+      } else if (resolved.additionalProperties === false) {
+        violations.push({ path: appendJsonPath(path, key), message: 'Unexpected property' });
+      } else if (typeof resolved.additionalProperties === 'object') {
+        violations.push(...validateAgainstSchema(propValue, resolved.additionalProperties, root, appendJsonPath(path, key)));
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Checks a tools/call result against the tool's outputSchema. Per the MCP spec,
+ * a tool that declares an outputSchema must return conforming structuredContent
+ * (error results are exempt).
+ */
+export function validateToolResult(
+  outputSchema: Record<string, unknown> | undefined,
+  result: { isError?: boolean; structuredContent?: unknown }
+): SchemaViolation[] {
+  if (!outputSchema || result.isError) return [];
+  if (result.structuredContent === undefined) {
+    return [{ path: '$', message: 'Tool declares an outputSchema but returned no structuredContent' }];
+  }
+  return validateAgainstSchema(result.structuredContent, outputSchema as JSONSchema);
+}
@@ -0,0 +1,292 @@
+// LLM Streaming: normalizes provider streams into LLMStreamChunk SSE events
+// and parses them back on the client.
+
+import type { LLMStreamChunk, LLMUsage } from './llm-types';
+
+// Yield complete lines from a byte stream
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    // Stops the upstream body when the consumer exits early (e.g. client abort)
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Yields the `data` payload of each Server-Sent Event in a byte stream.
+ * Multi-line data fields are joined with newlines; comments and other fields are ignored.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        yield dataLines.join('\n');
+        dataLines = [];
+      }
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length > 0) {
+    yield dataLines.join('\n');
+  }
+}
+
+function parseJson<T>(data: string): T | null {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return null;
+  }
+}
+
+// OpenAI and OpenAI-compatible chat completions (NVIDIA NIM, custom endpoints)
+export async function* normalizeOpenAIStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  let usage: LLMUsage | undefined;
+
+  for await (const data of readSSEData(body)) {
+    if (data === '[DONE]') break;
+    const event = parseJson<{
+      choices?: Array<{
+        delta?: {
+          content?: string | null;
+          tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+        };
+      }>;
+      usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+      error?: { message?: string };
+    }>(data);
+    if (!event) continue;
+
+    if (event.error) {
+      yield { type: 'error', error: event.error.message || 'Stream error' };
+      return;
+    }
+
+    const delta = event.choices?.[0]?.delta;
+    if (delta?.content) {
+      yield { type: 'content', content: delta.content };
+    }
+    for (const tc of delta?.tool_calls || []) {
+      yield {
+        type: 'tool_call',
+        toolCallIndex: tc.index,
+        toolCall: tc.id || tc.function?.name ? { id: tc.id, name: tc.function?.name } : undefined,
+        argumentsDelta: tc.function?.arguments,
+      };
+    }
+
+    if (event.usage) {
+      usage = {
+        promptTokens: event.usage.prompt_tokens,
+        completionTokens: event.usage.completion_tokens,
+        totalTokens: event.usage.total_tokens,
+      };
+    }
+  }
+
+  yield { type: 'done', usage };
+}
+
+// Anthropic Messages API events (message_start, content_block_*, message_delta, ...)
+export async function* normalizeAnthropicStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  // Anthropic indexes all content blocks; tool calls are numbered separately
+  const toolCallIndexes = new Map<number, number>();
+
+  for await (const data of readSSEData(body)) {
+    const event = parseJson<{
+      type: string;
+      index?: number;
+      message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+      content_block?: { type: string; id?: string; name?: string; text?: string };
+      delta?: { type?: string; text?: string; partial_json?: string };
+      usage?: { output_tokens?: number };
+      error?: { message?: string };
+    }>(data);
+    if (!event) continue;
+
+    switch (event.type) {
+      case 'message_start':
+        inputTokens = event.message?.usage?.input_tokens || 0;
+        outputTokens = event.message?.usage?.output_tokens || 0;
+        break;
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use' && event.index !== undefined) {
+          toolCallIndexes.set(event.index, toolCallIndexes.size);
+          yield {
+            type: 'tool_call',
+            toolCallIndex: toolCallIndexes.get(event.index),
+            toolCall: { id: event.content_block.id, name: event.content_block.name },
+          };
+        } else if (event.content_block?.type === 'text' && event.content_block.text) {
+          yield { type: 'content', content: event.content_block.text };
+        }
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          yield { type: 'content', content: event.delta.text };
+        } else if (event.delta?.type === 'input_json_delta' && event.index !== undefined) {
+          yield {
+            type: 'tool_call',
+            toolCallIndex: toolCallIndexes.get(event.index),
+            argumentsDelta: event.delta.partial_json,
+          };
+        }
+        break;
+      case 'message_delta':
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        break;
+      case 'error':
+        yield { type: 'error', error: event.error?.message || 'Stream error' };
+        return;
+    }
+  }
+
+  yield {
+    type: 'done',
+    usage: { promptTokens: inputTokens, completionTokens: outputTokens, totalTokens: inputTokens + outputTokens },
+  };
+}
+
+// Gemini streamGenerateContent with alt=sse; function calls arrive whole
+export async function* normalizeGeminiStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  let usage: LLMUsage | undefined;
+  let toolCallCount = 0;
+
+  for await (const data of readSSEData(body)) {
+    const event = parseJson<{
+      candidates?: Array<{
+        content?: { parts?: Array<{ text?: string; functionCall?: { name: string; args?: Record<string, unknown> } }> };
+      }>;
+      usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+      error?: { message?: string };
+    }>(data);
+    if (!event) continue;
+
+    if (event.error) {
+      yield { type: 'error', error: event.error.message || 'Stream error' };
+      return;
+    }
+
+    for (const part of event.candidates?.[0]?.content?.parts || []) {
+      if (part.text) {
+        yield { type: 'content', content: part.text };
+      } else if (part.functionCall) {
+        yield {
+          type: 'tool_call',
+          toolCallIndex: toolCallCount++,
+          toolCall: { id: `call_${Date.now()}_${Math.random().toString(36).slice(2)}`, name: part.functionCall.name },
+          argumentsDelta: JSON.stringify(part.functionCall.args || {}),
+        };
+      }
+    }
+
+    if (event.usageMetadata) {
+      usage = {
+        promptTokens: event.usageMetadata.promptTokenCount || 0,
+        completionTokens: event.usageMetadata.candidatesTokenCount || 0,
+        totalTokens: event.usageMetadata.totalTokenCount || 0,
+      };
+    }
+  }
+
+  yield { type: 'done', usage };
+}
+
+// Ollama /api/chat streams newline-delimited JSON objects
+export async function* normalizeOllamaStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  let usage: LLMUsage | undefined;
+
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+    const event = parseJson<{
+      message?: { content?: string };
+      done?: boolean;
+      prompt_eval_count?: number;
+      eval_count?: number;
+      error?: string;
+    }>(line);
+    if (!event) continue;
+
+    if (event.error) {
+      yield { type: 'error', error: event.error };
+      return;
+    }
+    if (event.message?.content) {
+      yield { type: 'content', content: event.message.content };
+    }
+    if (event.done) {
+      const promptTokens = event.prompt_eval_count || 0;
+      const completionTokens = event.eval_count || 0;
+      usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+  }
+
+  yield { type: 'done', usage };
+}
+
+/**
+ * Wraps normalized chunks in a text/event-stream response. Errors thrown while
+ * reading the provider stream are sent as an `error` chunk.
+ */
+export function createStreamResponse(chunks: AsyncGenerator<LLMStreamChunk>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(value)}\n\n`));
+      } catch (error) {
+        const chunk: LLMStreamChunk = { type: 'error', error: error instanceof Error ? error.message : 'Stream error' };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client aborted: stop reading from the provider
+      await chunks.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Client side: parse the normalized SSE stream from /api/llm/chat
+export async function* parseLLMStream(body: ReadableStream<Uint8Array>): AsyncGenerator<LLMStreamChunk> {
+  for await (const data of readSSEData(body)) {
+    const chunk = parseJson<LLMStreamChunk>(data);
+    if (chunk) yield chunk;
+  }
+}
@@ -1,5 +1,7 @@
 // LLM Provider Types
 
+import type { MCPToolAnnotations } from './types';
+
 export type LLMProvider = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'nvidia' | 'custom';
 
 export interface LLMProviderConfig {
@@ -27,6 +29,7 @@ export interface LLMModelInfo {
   contextWindow?: number;
   supportsTools?: boolean;
   supportsStreaming?: boolean;
+  supportsVision?: boolean; // Accepts image (and, where the provider allows, PDF) input
 }
 
 // Provider definitions with available models
@@ -49,7 +52,7 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
     defaultBaseUrl: 'https://integrate.api.nvidia.com/v1',
     models: [
       // Meta Llama
-      { id: 'meta/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick 17B', contextWindow: 131072, supportsTools: true, supportsStreaming: true },
+      { id: 'meta/llama-4-maverick-17b-128e-instruct', name: 'Llama 4 Maverick 17B', contextWindow: 131072, supportsTools: true, supportsStreaming: true, supportsVision: true },
       { id: 'meta/llama-3.3-70b-instruct', name: 'Llama 3.3 70B Instruct', contextWindow: 131072, supportsTools: true, supportsStreaming: true },
       { id: 'meta/llama-3.1-405b-instruct', name: 'Llama 3.1 405B Instruct', contextWindow: 131072, supportsTools: true, supportsStreaming: true },
       { id: 'meta/llama-3.1-70b-instruct', name: 'Llama 3.1 70B Instruct', contextWindow: 131072, supportsTools: true, supportsStreaming: true },
@@ -90,15 +93,15 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
     requiresApiKey: true,
     apiKeyUrl: 'https://platform.openai.com/api-keys',
     models: [
-      { id: 'gpt-5.5', name: 'GPT-5.5', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-5.5-pro', name: 'GPT-5.5 Pro', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-5.4', name: 'GPT-5.4', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-5.4-pro', name: 'GPT-5.4 Pro', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-5.4-mini', name: 'GPT-5.4 Mini', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-5.4-nano', name: 'GPT-5.4 Nano', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', contextWindow: 1047576, supportsTools: true, supportsStreaming: true },
-      { id: 'o4-mini', name: 'o4-mini', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
+      { id: 'gpt-5.5', name: 'GPT-5.5', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-5.5-pro', name: 'GPT-5.5 Pro', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-5.4', name: 'GPT-5.4', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-5.4-pro', name: 'GPT-5.4 Pro', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-5.4-mini', name: 'GPT-5.4 Mini', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-5.4-nano', name: 'GPT-5.4 Nano', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', contextWindow: 1047576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'o4-mini', name: 'o4-mini', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
       { id: 'o3-mini', name: 'o3-mini', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
     ],
   },
@@ -109,12 +112,12 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
     requiresApiKey: true,
     apiKeyUrl: 'https://console.anthropic.com/settings/keys',
     models: [
-      { id: 'claude-opus-4.7-20260416', name: 'Claude Opus 4.7', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
-      { id: 'claude-sonnet-4.6-20260217', name: 'Claude Sonnet 4.6', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
-      { id: 'claude-haiku-4.5-20251015', name: 'Claude Haiku 4.5', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
-      { id: 'claude-opus-4-20250715', name: 'Claude Opus 4', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
-      { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
-      { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', contextWindow: 200000, supportsTools: true, supportsStreaming: true },
+      { id: 'claude-opus-4.7-20260416', name: 'Claude Opus 4.7', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'claude-sonnet-4.6-20260217', name: 'Claude Sonnet 4.6', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'claude-haiku-4.5-20251015', name: 'Claude Haiku 4.5', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'claude-opus-4-20250715', name: 'Claude Opus 4', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', contextWindow: 200000, supportsTools: true, supportsStreaming: true, supportsVision: true },
     ],
   },
   {
@@ -124,12 +127,12 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
     requiresApiKey: true,
     apiKeyUrl: 'https://aistudio.google.com/apikey',
     models: [
-      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
-      { id: 'gemini-3-flash', name: 'Gemini 3 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
-      { id: 'gemini-3.1-flash-lite', name: 'Gemini 3.1 Flash Lite', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
-      { id: 'gemini-2.5-pro-preview-05-06', name: 'Gemini 2.5 Pro', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
-      { id: 'gemini-2.5-flash-preview-05-20', name: 'Gemini 2.5 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
-      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true },
+      { id: 'gemini-3.1-pro-preview', name: 'Gemini 3.1 Pro', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gemini-3-flash', name: 'Gemini 3 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gemini-3.1-flash-lite', name: 'Gemini 3.1 Flash Lite', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gemini-2.5-pro-preview-05-06', name: 'Gemini 2.5 Pro', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gemini-2.5-flash-preview-05-20', name: 'Gemini 2.5 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextWindow: 1048576, supportsTools: true, supportsStreaming: true, supportsVision: true },
     ],
   },
   {
@@ -139,10 +142,10 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
     requiresApiKey: false,
     defaultBaseUrl: 'http://localhost:11434',
     models: [
-      { id: 'llama4', name: 'Llama 4', supportsTools: true, supportsStreaming: true },
+      { id: 'llama4', name: 'Llama 4', supportsTools: true, supportsStreaming: true, supportsVision: true },
       { id: 'llama3.3', name: 'Llama 3.3', supportsTools: true, supportsStreaming: true },
       { id: 'qwen3', name: 'Qwen 3', supportsTools: true, supportsStreaming: true },
-      { id: 'gemma3', name: 'Gemma 3', supportsTools: true, supportsStreaming: true },
+      { id: 'gemma3', name: 'Gemma 3', supportsTools: true, supportsStreaming: true, supportsVision: true },
       { id: 'mistral', name: 'Mistral', supportsTools: true, supportsStreaming: true },
       { id: 'deepseek-r1', name: 'DeepSeek R1', supportsTools: false, supportsStreaming: true },
       { id: 'phi4', name: 'Phi-4', supportsTools: false, supportsStreaming: true },
@@ -150,6 +153,80 @@ export const LLM_PROVIDERS: LLMProviderInfo[] = [
   },
 ];
 
+// Model pricing in USD per million tokens, used to estimate conversation cost.
+// Models missing here are shown without a cost; local providers are free.
+export interface LLMModelPricing {
+  input: number;
+  output: number;
+}
+
+export const FREE_PROVIDERS: LLMProvider[] = ['ollama'];
+
+export const LLM_MODEL_PRICING: Record<string, LLMModelPricing> = {
+  // OpenAI
+  'gpt-5.5': { input: 1.25, output: 10 },
+  'gpt-5.5-pro': { input: 15, output: 120 },
+  'gpt-5.4': { input: 1.25, output: 10 },
+  'gpt-5.4-pro': { input: 15, output: 120 },
+  'gpt-5.4-mini': { input: 0.25, output: 2 },
+  'gpt-5.4-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  // Anthropic
+  'claude-opus-4.7-20260416': { input: 5, output: 25 },
+  'claude-sonnet-4.6-20260217': { input: 3, output: 15 },
+  'claude-opus-4-20250715': { input: 15, output: 75 },
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-7-sonnet-20250219': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-haiku-4.5-20251015': { input: 1, output: 5 },
+  // Google Gemini
+  'gemini-3.1-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-3.1-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro-preview-05-06': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-preview-05-20': { input: 0.15, output: 0.6 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  // NVIDIA NIM
+  'meta/llama-4-maverick-17b-128e-instruct': { input: 0.27, output: 0.85 },
+  'meta/llama-3.3-70b-instruct': { input: 0.6, output: 0.6 },
+  'meta/llama-3.1-405b-instruct': { input: 3, output: 3 },
+  'meta/llama-3.1-70b-instruct': { input: 0.6, output: 0.6 },
+  'meta/llama-3.1-8b-instruct': { input: 0.1, output: 0.1 },
+  'nvidia/nemotron-3-ultra': { input: 1, output: 3 },
+  'nvidia/nemotron-3-super-120b-a12b': { input: 0.3, output: 1 },
+  'nvidia/llama-3.3-nemotron-super-49b-v1.5': { input: 0.4, output: 0.4 },
+  'nvidia/llama-3.1-nemotron-70b-instruct': { input: 0.6, output: 0.6 },
+  'nvidia/nvidia-nemotron-nano-9b-v2': { input: 0.05, output: 0.2 },
+  'mistralai/mistral-large-3-675b-instruct-2512': { input: 2, output: 6 },
+  'mistralai/mistral-medium-3-instruct': { input: 0.4, output: 2 },
+  'mistralai/mistral-large-2-instruct': { input: 2, output: 6 },
+  'deepseek-ai/deepseek-v3.2': { input: 0.28, output: 0.42 },
+  'deepseek-ai/deepseek-v3.1-terminus': { input: 0.27, output: 1.1 },
+  'qwen/qwen3.5-397b-a17b': { input: 0.6, output: 3.6 },
+  'qwen/qwen3.5-122b-a10b': { input: 0.3, output: 1.2 },
+  'qwen/qwen3-coder-480b-a35b-instruct': { input: 1, output: 4 },
+  'google/gemma-4-31b-it': { input: 0.1, output: 0.3 },
+  'google/gemma-4-26b-a4b-it': { input: 0.08, output: 0.3 },
+  'moonshotai/kimi-k2.6': { input: 0.6, output: 2.5 },
+  'moonshotai/kimi-k2.5': { input: 0.6, output: 2.5 },
+  'microsoft/phi-4-mini-instruct': { input: 0.05, output: 0.1 },
+  'minimaxai/minimax-m2.7': { input: 0.3, output: 1.2 },
+  'z-ai/glm-5.1': { input: 0.6, output: 2.2 },
+};
+
+// Whether a model takes image input. Unlisted models of the hosted frontier
+// providers are assumed multimodal; other unlisted models are not.
+export function modelSupportsVision(provider: LLMProvider, model: string): boolean {
+  const info = LLM_PROVIDERS.find(p => p.id === provider)?.models.find(m => m.id === model);
+  if (info) return info.supportsVision === true;
+  return provider === 'openai' || provider === 'anthropic' || provider === 'gemini';
+}
+
 // Tool Result Content (from MCP)
 export interface ToolResultContent {
   type: string;
@@ -164,6 +241,18 @@ export interface ToolResultContent {
   };
 }
 
+// File attached to a user message
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  kind: 'image' | 'pdf' | 'text';
+  data: string; // Base64 for images and PDFs, the file's text for text files
+  // Context inserted from a connected server with an @-mention
+  source?: { type: 'resource'; serverName: string; uri: string } | { type: 'prompt'; serverName: string; name: string };
+}
+
 // Chat Message Types
 export interface ChatMessage {
   id: string;
@@ -173,8 +262,14 @@ export interface ChatMessage {
   toolCalls?: ToolCall[];
   toolCallId?: string;
   toolResultContent?: ToolResultContent[]; // Raw MCP tool result for rich rendering
+  attachments?: ChatAttachment[]; // User messages: images, PDFs and text files
   isStreaming?: boolean;
   error?: string;
+  // Assistant messages: the provider and model that produced them, and the tokens used
+  provider?: LLMProvider;
+  model?: string;
+  usage?: LLMUsage;
+  stopReason?: 'budget'; // Notice added when the agent loop hit a turn limit
 }
 
 export interface ToolCall {
@@ -185,6 +280,88 @@ export interface ToolCall {
   result?: unknown;
   error?: string;
   status: 'pending' | 'running' | 'completed' | 'error';
+  startedAt?: number;
+  completedAt?: number;
+}
+
+// One `mcp.callTool` invocation made by orchestrator code
+export interface OrchestratorTraceEntry {
+  id: number;
+  name: string; // As written in the code, usually namespaced
+  arguments: Record<string, unknown>;
+  serverId?: string;
+  serverName?: string;
+  startedAt: number;
+  completedAt?: number; // Unset when the run ended before the call returned
+  result?: unknown;
+  error?: string;
+}
+
+export interface OrchestratorResult {
+  stdout: string;
+  error?: string;
+  returnValue?: unknown; // Value the code returned, if any
+  trace: OrchestratorTraceEntry[];
+}
+
+// Alternative continuations of a conversation after a fork point, created by editing a user message
+export interface ChatBranchSet {
+  tails: ChatMessage[][]; // Messages after the fork point, one list per branch
+  activeIndex: number; // Branch currently shown; its tail is the live message list
+}
+
+// Key of the fork point before the first message
+export const ROOT_BRANCH_KEY = 'root';
+
+// Conversations (stored in IndexedDB)
+export interface ChatConversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  pinned?: boolean;
+  messages: ChatMessage[]; // Active branch
+  branches?: Record<string, ChatBranchSet>; // Keyed by the id of the message each fork follows
+  // Per-conversation settings; unset fields fall back to the global LLM settings
+  provider?: LLMProvider;
+  model?: string;
+  systemPrompt?: string;
+  enabledServerIds?: string[]; // Unset = all connected servers
+  disabledTools?: string[]; // `${serverId}:${toolName}` keys
+}
+
+// Saved orchestrator scripts (stored in localStorage)
+export type WorkflowParameterType = 'string' | 'number' | 'boolean' | 'object';
+
+export interface WorkflowParameter {
+  name: string;
+  type: WorkflowParameterType;
+  description?: string;
+  required?: boolean;
+}
+
+export interface WorkflowRun extends OrchestratorResult {
+  trigger: 'manual' | 'schedule';
+  arguments: Record<string, unknown>;
+  startedAt: number;
+  completedAt: number;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  code: string; // Orchestrator code; arguments are available as `params`
+  parameters: WorkflowParameter[];
+  // Re-run every `intervalMinutes` with `arguments` while the app is open
+  schedule?: {
+    enabled: boolean;
+    intervalMinutes: number;
+    arguments: Record<string, unknown>;
+  };
+  lastRun?: WorkflowRun;
+  createdAt: number;
+  updatedAt: number;
 }
 
 // API Request/Response Types
@@ -201,6 +378,7 @@ export interface LLMChatRequest {
 
 export interface MCPToolDefinition {
   name: string;
+  originalName?: string; // MCP tool name when `name` is namespaced as `server__tool`
   description?: string;
   inputSchema: {
     type: string;
@@ -209,6 +387,7 @@ export interface MCPToolDefinition {
   };
   serverId?: string;
   serverName?: string;
+  annotations?: MCPToolAnnotations;
   examples?: Array<{
     input: Record<string, unknown>;
     output: string;
@@ -216,21 +395,27 @@ export interface MCPToolDefinition {
   deferLoading?: boolean;
 }
 
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
 export interface LLMChatResponse {
   message: ChatMessage;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMUsage;
 }
 
 // Streaming Types
+// Provider streams are normalized into these chunks, sent as `data: <json>` SSE events
 export interface LLMStreamChunk {
   type: 'content' | 'tool_call' | 'done' | 'error';
-  content?: string;
-  toolCall?: Partial<ToolCall>;
-  error?: string;
+  content?: string; // 'content': text delta
+  toolCall?: Partial<ToolCall>; // 'tool_call': id/name when first seen
+  toolCallIndex?: number; // 'tool_call': which call the delta belongs to
+  argumentsDelta?: string; // 'tool_call': partial JSON of the call's arguments
+  usage?: LLMUsage; // 'done'
+  error?: string; // 'error'
 }
 
 // Settings Storage
@@ -238,8 +423,37 @@ export interface LLMSettings {
   activeProvider: LLMProvider | null;
   providers: Record<LLMProvider, LLMProviderConfig>;
   systemPrompt?: string;
+  maxParallelToolCalls?: number; // Independent tool calls run at once per assistant turn (1 = sequential)
+  turnLimits?: Partial<LLMTurnLimits>;
+  toolLoading?: Partial<ToolLoadingPolicy>;
+}
+
+export const DEFAULT_MAX_PARALLEL_TOOL_CALLS = 4;
+
+// Caps on the agent loop for a single user message
+export interface LLMTurnLimits {
+  maxSteps: number; // LLM requests
+  maxToolCalls: number;
+  maxTokens: number; // Prompt + completion tokens across all steps
 }
 
+export const DEFAULT_TURN_LIMITS: LLMTurnLimits = {
+  maxSteps: 10,
+  maxToolCalls: 25,
+  maxTokens: 200000,
+};
+
+// Above either threshold, tools are deferred and discovered through mcp_tool_search
+export interface ToolLoadingPolicy {
+  maxTools: number;
+  maxTokens: number; // Estimated size of all tool definitions
+}
+
+export const DEFAULT_TOOL_LOADING_POLICY: ToolLoadingPolicy = {
+  maxTools: 30,
+  maxTokens: 10000,
+};
+
 // Helper to get all provider keys for iteration
 export const ALL_PROVIDER_KEYS: LLMProvider[] = ['openai', 'anthropic', 'gemini', 'ollama', 'nvidia', 'custom'];
 
@@ -0,0 +1,195 @@
+// @-mentions in the chat input: resources, resource templates and prompts from
+// connected servers, inserted into the outgoing message as attachments
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  MCPResource,
+  MCPResourceTemplate,
+  MCPPrompt,
+  ResourceContentItem,
+  ResourceReadResult,
+  GetPromptResult,
+} from './types';
+import type { ChatAttachment } from './llm-types';
+import { getBinaryAttachmentKind } from './attachments';
+import { getUriTemplateVariables, expandUriTemplate } from './uriTemplate';
+
+// Resources and prompts aggregated across servers carry the server they came from
+export type ServerScoped<T> = T & { serverId: string; serverName: string };
+
+export type MentionItem = ServerScoped<
+  | { type: 'resource'; resource: MCPResource }
+  | { type: 'template'; template: MCPResourceTemplate }
+  | { type: 'prompt'; prompt: MCPPrompt }
+>;
+
+export interface MentionArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MentionContext {
+  readResource: (serverId: string, uri: string) => Promise<unknown>;
+  getPrompt: (serverId: string, name: string, args?: Record<string, string>) => Promise<unknown>;
+}
+
+const MAX_MENTION_RESULTS = 50;
+
+export function getMentionItems(
+  resources: ServerScoped<MCPResource>[],
+  templates: ServerScoped<MCPResourceTemplate>[],
+  prompts: ServerScoped<MCPPrompt>[]
+): MentionItem[] {
+  return [
+    ...resources.map(({ serverId, serverName, ...resource }): MentionItem => ({ type: 'resource', serverId, serverName, resource })),
+    ...templates.map(({ serverId, serverName, ...template }): MentionItem => ({ type: 'template', serverId, serverName, template })),
+    ...prompts.map(({ serverId, serverName, ...prompt }): MentionItem => ({ type: 'prompt', serverId, serverName, prompt })),
+  ];
+}
+
+export function getMentionKey(item: MentionItem): string {
+  const id = item.type === 'resource' ? item.resource.uri
+    : item.type === 'template' ? item.template.uriTemplate
+    : item.prompt.name;
+  return `${item.serverId}:${item.type}:${id}`;
+}
+
+export function getMentionLabel(item: MentionItem): string {
+  if (item.type === 'resource') return item.resource.name || item.resource.uri;
+  if (item.type === 'template') return item.template.name || item.template.uriTemplate;
+  return item.prompt.name;
+}
+
+// URI or template shown under the label; prompts show their description
+export function getMentionDetail(item: MentionItem): string | undefined {
+  if (item.type === 'resource') return item.resource.uri;
+  if (item.type === 'template') return item.template.uriTemplate;
+  return item.prompt.description;
+}
+
+// The `@query` typed just before the cursor, if any; `@` must start a word
+export function findMentionQuery(text: string, cursor: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2] };
+}
+
+export function filterMentionItems(items: MentionItem[], query: string): MentionItem[] {
+  const needle = query.toLowerCase();
+  return items
+    .filter(item => [getMentionLabel(item), getMentionDetail(item), item.serverName]
+      .some(text => text?.toLowerCase().includes(needle)))
+    .slice(0, MAX_MENTION_RESULTS);
+}
+
+// Values collected before a mention can be inserted: prompt arguments or template variables
+export function getMentionArguments(item: MentionItem): MentionArgument[] {
+  if (item.type === 'prompt') return item.prompt.arguments || [];
+  if (item.type === 'template') {
+    return getUriTemplateVariables(item.template.uriTemplate).map(name => ({ name, required: true }));
+  }
+  return [];
+}
+
+function contentToAttachment(item: ResourceContentItem, source: NonNullable<ChatAttachment['source']>): ChatAttachment | null {
+  if (item.text !== undefined) {
+    return {
+      id: uuidv4(),
+      name: item.uri,
+      mimeType: item.mimeType || 'text/plain',
+      size: new TextEncoder().encode(item.text).length,
+      kind: 'text',
+      data: item.text,
+      source,
+    };
+  }
+  const kind = item.blob && getBinaryAttachmentKind(item.mimeType || '');
+  if (!item.blob || !kind) return null;
+  return {
+    id: uuidv4(),
+    name: item.uri,
+    mimeType: item.mimeType || '',
+    size: Math.floor(item.blob.length * 3 / 4),
+    kind,
+    data: item.blob,
+    source,
+  };
+}
+
+async function readResourceAttachments(item: MentionItem, uri: string, context: MentionContext): Promise<ChatAttachment[]> {
+  const result = await context.readResource(item.serverId, uri) as ResourceReadResult;
+  const attachments = (result?.contents || [])
+    .map(content => contentToAttachment(content, { type: 'resource', serverName: item.serverName, uri: content.uri || uri }))
+    .filter((attachment): attachment is ChatAttachment => attachment !== null);
+  if (attachments.length === 0) {
+    throw new Error(`${uri} has no text, image or PDF content to insert`);
+  }
+  return attachments;
+}
+
+// A prompt's messages become one text attachment; images in them are attached alongside
+async function getPromptAttachments(
+  item: Extract<MentionItem, { type: 'prompt' }>,
+  args: Record<string, string>,
+  context: MentionContext
+): Promise<ChatAttachment[]> {
+  const filledArgs = Object.fromEntries(Object.entries(args).filter(([, value]) => value.trim()));
+  const result = await context.getPrompt(
+    item.serverId,
+    item.prompt.name,
+    Object.keys(filledArgs).length > 0 ? filledArgs : undefined
+  ) as GetPromptResult;
+  const source = { type: 'prompt' as const, serverName: item.serverName, name: item.prompt.name };
+
+  const images: ChatAttachment[] = [];
+  const sections = (result?.messages || []).map(message => {
+    const content = message.content;
+    let text: string;
+    if (content.type === 'text') {
+      text = content.text;
+    } else if (content.type === 'resource') {
+      text = content.resource.text ?? `[Resource ${content.resource.uri}]`;
+    } else {
+      const attachment = content.type === 'image'
+        ? contentToAttachment({ type: 'blob', uri: `${item.prompt.name}-image-${images.length + 1}`, blob: content.data, mimeType: content.mimeType }, source)
+        : null;
+      if (attachment) images.push(attachment);
+      text = `[${content.type}]`;
+    }
+    return `${message.role === 'assistant' ? 'Assistant' : 'User'}: ${text}`;
+  });
+
+  const text = sections.join('\n\n');
+  return [
+    {
+      id: uuidv4(),
+      name: item.prompt.name,
+      mimeType: 'text/plain',
+      size: new TextEncoder().encode(text).length,
+      kind: 'text',
+      data: text,
+      source,
+    },
+    ...images,
+  ];
+}
+
+/**
+ * Reads a mentioned resource (expanding a template with `args`) or expands a
+ * mentioned prompt, returning the attachments to add to the message.
+ */
+export async function resolveMention(
+  item: MentionItem,
+  args: Record<string, string>,
+  context: MentionContext
+): Promise<ChatAttachment[]> {
+  switch (item.type) {
+    case 'resource':
+      return readResourceAttachments(item, item.resource.uri, context);
+    case 'template':
+      return readResourceAttachments(item, expandUriTemplate(item.template.uriTemplate, args), context);
+    case 'prompt':
+      return getPromptAttachments(item, args, context);
+  }
+}
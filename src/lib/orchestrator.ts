@@ -1,81 +1,314 @@
+import type { OrchestratorResult, OrchestratorTraceEntry } from './llm-types';
+import { DEFAULT_REQUEST_TIMEOUTS, formatTimeoutDuration } from './useRequestTimeouts';
+
 export interface OrchestratorContext {
-    callTool: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+    // `signal` aborts when the run ends, so nothing keeps running on its behalf
+    callTool: (name: string, args: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>;
+    // Asked before each tool call; the run's time limit is paused while waiting
+    approveToolCall?: (name: string, args: Record<string, unknown>, signal: AbortSignal) => Promise<boolean>;
     log: (...args: unknown[]) => void;
+    // Server a tool name routes to, recorded in the trace
+    resolveServer?: (name: string) => { serverId?: string; serverName?: string } | undefined;
+    // Time limit for the whole run; defaults to the maximum total request timeout
+    timeoutMs?: number;
+    // Exposed to the code as a frozen `params` object (workflow arguments)
+    params?: Record<string, unknown>;
 }
 
-const EXECUTION_TIMEOUT_MS = 30_000;
 const MAX_TOOL_CALLS = 50;
+const MAX_OUTPUT_LENGTH = 100_000;
+
+// Stop a run whose worker hasn't answered a heartbeat for this long: a
+// synchronous loop or runaway allocation that keeps it from reaching its event loop
+const HEARTBEAT_INTERVAL_MS = 1_000;
+const HEARTBEAT_TIMEOUT_MS = 10_000;
+
+// Policy of the sandbox frame, inherited by the worker it starts. Everything
+// that can reach the network (fetch, sockets, fonts, images, importScripts,
+// dynamic import) falls back to `default-src 'none'`; the frame may only run
+// its inline relay, compile the user's code and start its blob worker
+const SANDBOX_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+// Messages sent from the sandbox to the page
+type SandboxMessage =
+    | { type: 'ready' }
+    | { type: 'pong' }
+    | { type: 'log'; text: string }
+    | { type: 'callTool'; id: number; name: string; args: Record<string, unknown> }
+    | { type: 'done'; value?: unknown }
+    | { type: 'error'; message: string };
+
+// Runs inside the worker, wrapped in a closure so user code can't reach the
+// pending tool calls, and exposes `mcp` as a bridge whose tool calls are
+// answered by the page
+const WORKER_SOURCE = `
+(() => {
+const post = self.postMessage.bind(self);
+const AsyncFunction = (async () => {}).constructor;
+const pending = new Map();
+let nextCallId = 0;
 
-// Blocked globals that the sandboxed code must not access
-const BLOCKED_GLOBALS = [
-    'window', 'document', 'location', 'navigator', 'localStorage',
-    'sessionStorage', 'indexedDB', 'fetch', 'XMLHttpRequest',
-    'WebSocket', 'Worker', 'SharedWorker', 'importScripts',
-    'eval', 'Function', 'opener', 'parent', 'top', 'frames',
-    'crypto', 'caches', 'cookieStore',
-];
+const format = (value) => {
+    if (typeof value !== 'object' || value === null) return String(value);
+    try { return JSON.stringify(value, null, 2); } catch { return String(value); }
+};
+
+const mcp = Object.freeze({
+    callTool: (name, args) => new Promise((resolve, reject) => {
+        const id = nextCallId++;
+        let plainArgs;
+        try {
+            plainArgs = JSON.parse(JSON.stringify(args ?? {}));
+        } catch (err) {
+            reject(new Error('Tool arguments must be JSON-serializable'));
+            return;
+        }
+        pending.set(id, { resolve, reject });
+        post({ type: 'callTool', id, name: String(name), args: plainArgs });
+    }),
+    log: (...args) => post({ type: 'log', text: args.map(format).join(' ') }),
+});
+
+self.addEventListener('message', async (event) => {
+    const message = event.data;
+    if (message.type === 'ping') {
+        post({ type: 'pong' });
+        return;
+    }
+    if (message.type === 'toolResult' || message.type === 'toolError') {
+        const call = pending.get(message.id);
+        if (!call) return;
+        pending.delete(message.id);
+        if (message.type === 'toolResult') call.resolve(message.result);
+        else call.reject(new Error(message.message));
+        return;
+    }
+    if (message.type === 'run') {
+        try {
+            const params = Object.freeze(message.params ?? {});
+            const value = await new AsyncFunction('mcp', 'params', '"use strict";\\n' + message.code)(mcp, params);
+            let plainValue;
+            try {
+                plainValue = value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+            } catch {
+                throw new Error('Return value must be JSON-serializable');
+            }
+            post({ type: 'done', value: plainValue });
+        } catch (err) {
+            post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+        }
+    }
+});
+})();
+`;
+
+// Document of the sandbox frame: starts the worker and relays messages
+// between it and the page. `<` is escaped so the source can't close the script
+const FRAME_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_CSP}">
+<script>
+try {
+    const source = ${JSON.stringify(WORKER_SOURCE).replace(/</g, '\\u003c')};
+    const worker = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+    worker.onmessage = (event) => parent.postMessage(event.data, '*');
+    worker.onerror = (event) => {
+        event.preventDefault();
+        parent.postMessage({ type: 'error', message: event.message || 'Sandbox worker crashed' }, '*');
+    };
+    worker.onmessageerror = () => parent.postMessage({ type: 'error', message: 'Sandbox sent a message that could not be read' }, '*');
+    addEventListener('message', (event) => {
+        if (event.source === parent) worker.postMessage(event.data);
+    });
+    parent.postMessage({ type: 'ready' }, '*');
+} catch (err) {
+    parent.postMessage({ type: 'error', message: 'Failed to start sandbox: ' + (err instanceof Error ? err.message : String(err)) }, '*');
+}
+</script>
+</head>
+</html>`;
 
 /**
- * Executes orchestration code in a sandboxed environment.
- * Blocks access to browser globals and enforces execution limits.
- * The code can use `mcp.callTool(name, args)` and `mcp.log(...)`.
+ * Executes orchestration code in a Web Worker started by a hidden
+ * `sandbox="allow-scripts"` frame created for this run. The frame has an opaque
+ * origin (no storage, cookies or access to the page) and a `default-src 'none'`
+ * policy that also binds the worker, so the code has no network access;
+ * `mcp.callTool(name, args)` and `mcp.log(...)` are bridged to the page over
+ * messages. The page enforces the tool call and output limits and removes the
+ * frame (ending the worker) on timeout, or when the worker stops answering the
+ * heartbeat, which bounds runaway loops and allocations. Aborting `signal`
+ * (e.g. the chat's Stop button) ends the run the same way.
+ *
+ * Every tool call is recorded in `trace`, and a value returned by the code
+ * (JSON-serializable) comes back as `returnValue`.
  */
 export async function executeOrchestration(
     code: string,
-    context: OrchestratorContext
-): Promise<{ stdout: string; error?: string }> {
+    context: OrchestratorContext,
+    signal?: AbortSignal
+): Promise<OrchestratorResult> {
+    if (typeof document === 'undefined' || typeof Worker === 'undefined') {
+        return { stdout: '', error: 'JavaScript orchestration requires a browser with Web Worker support', trace: [] };
+    }
+    if (signal?.aborted) {
+        return { stdout: '', error: 'Stopped by user', trace: [] };
+    }
+
     const logs: string[] = [];
+    const trace: OrchestratorTraceEntry[] = [];
+    let returnValue: unknown;
+    let outputLength = 0;
     let toolCallCount = 0;
 
-    const mcp = {
-        callTool: async (name: string, args: Record<string, unknown>) => {
-            toolCallCount++;
-            if (toolCallCount > MAX_TOOL_CALLS) {
-                throw new Error(`Tool call limit exceeded (max ${MAX_TOOL_CALLS})`);
-            }
-            // Validate tool name is a simple identifier
-            if (!/^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(name)) {
-                throw new Error(`Invalid tool name: ${name}`);
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.title = 'Orchestrator sandbox';
+    frame.style.display = 'none';
+    frame.srcdoc = FRAME_HTML;
+    // The frame's origin is opaque, so messages can only be addressed to '*'
+    const send = (message: Record<string, unknown>) => frame.contentWindow?.postMessage(message, '*');
+
+    // Aborted when the run ends: withdraws pending approvals and stops further tool calls
+    const run = new AbortController();
+
+    const error = await new Promise<string | undefined>((resolve) => {
+        let settled = false;
+        const finish = (message?: string) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timeout);
+            clearInterval(heartbeat);
+            signal?.removeEventListener('abort', stop);
+            window.removeEventListener('message', onMessage);
+            window.removeEventListener('messageerror', onMessageError);
+            run.abort();
+            frame.remove();
+            resolve(message);
+        };
+        const stop = () => finish('Stopped by user');
+        signal?.addEventListener('abort', stop);
+
+        // Time spent waiting for the user to approve tool calls doesn't count
+        const timeoutMs = context.timeoutMs ?? DEFAULT_REQUEST_TIMEOUTS.maxTotalTimeoutMs;
+        let remainingMs = timeoutMs;
+        let resumedAt = Date.now();
+        let pendingApprovals = 0;
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+        const startTimer = () => {
+            resumedAt = Date.now();
+            timeout = setTimeout(
+                () => finish(`Execution timed out after ${formatTimeoutDuration(timeoutMs)}`),
+                remainingMs
+            );
+        };
+        const pauseTimer = () => {
+            if (pendingApprovals++ > 0) return;
+            clearTimeout(timeout);
+            remainingMs -= Date.now() - resumedAt;
+        };
+        const resumeTimer = () => {
+            if (--pendingApprovals === 0 && !settled) startTimer();
+        };
+        startTimer();
+
+        // Started once the sandbox is ready; a ping left unanswered for too long ends the run
+        let heartbeat: ReturnType<typeof setInterval> | undefined;
+        let pingSentAt: number | undefined;
+        const startHeartbeat = () => {
+            heartbeat = setInterval(() => {
+                if (pingSentAt === undefined) {
+                    pingSentAt = Date.now();
+                    send({ type: 'ping' });
+                } else if (Date.now() - pingSentAt > HEARTBEAT_TIMEOUT_MS) {
+                    finish(`Sandbox stopped responding for ${formatTimeoutDuration(HEARTBEAT_TIMEOUT_MS)} (long synchronous work or runaway memory use)`);
+                }
+            }, HEARTBEAT_INTERVAL_MS);
+        };
+
+        const callTool = async (id: number, name: string, args: Record<string, unknown>) => {
+            const entry: OrchestratorTraceEntry = { id, name, arguments: args, ...context.resolveServer?.(name), startedAt: Date.now() };
+            trace.push(entry);
+            try {
+                toolCallCount++;
+                if (toolCallCount > MAX_TOOL_CALLS) {
+                    throw new Error(`Tool call limit exceeded (max ${MAX_TOOL_CALLS})`);
+                }
+                // Validate tool name is a simple identifier
+                if (!/^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(name)) {
+                    throw new Error(`Invalid tool name: ${name}`);
+                }
+                if (context.approveToolCall) {
+                    pauseTimer();
+                    let approved: boolean;
+                    try {
+                        approved = await context.approveToolCall(name, args, run.signal);
+                    } finally {
+                        resumeTimer();
+                    }
+                    if (!approved) throw new Error(`User denied permission to call ${name}`);
+                }
+                // The run may have ended while the call waited for approval
+                if (settled) return;
+                const result = await context.callTool(name, args, run.signal);
+                if (settled) return;
+                entry.result = result;
+                entry.completedAt = Date.now();
+                send({ type: 'toolResult', id, result });
+            } catch (err) {
+                if (settled) return;
+                entry.error = err instanceof Error ? err.message : String(err);
+                entry.completedAt = Date.now();
+                send({ type: 'toolError', id, message: entry.error });
             }
-            return context.callTool(name, args);
-        },
-        log: (...args: unknown[]) => {
-            const formattedLog = args.map(a =>
-                typeof a === 'object' ? JSON.stringify(a, null, 2) : String(a)
-            ).join(' ');
-            logs.push(formattedLog);
-            context.log(...args);
-        }
-    };
+        };
 
-    try {
-        // Build shadow bindings that mask dangerous globals with undefined
-        const shadowBindings = BLOCKED_GLOBALS.map(g => `${g} = undefined`).join(', ');
-
-        // Create a sandboxed async function with blocked globals
-        const fn = new Function('mcp', `
-            return (async () => {
-                "use strict";
-                let ${shadowBindings};
-                ${code}
-            })();
-        `);
-
-        // Execute with a timeout
-        await Promise.race([
-            fn(mcp),
-            new Promise((_, reject) =>
-                setTimeout(() => reject(new Error(`Execution timed out after ${EXECUTION_TIMEOUT_MS / 1000}s`)), EXECUTION_TIMEOUT_MS)
-            ),
-        ]);
-
-        return {
-            stdout: logs.join('\n')
+        const onMessage = (event: MessageEvent<SandboxMessage>) => {
+            if (event.source !== frame.contentWindow) return;
+            const message = event.data;
+            switch (message.type) {
+                case 'ready':
+                    // Code in the worker can post messages too; only the first `ready` starts the run
+                    if (heartbeat !== undefined) break;
+                    send({ type: 'run', code, params: context.params });
+                    startHeartbeat();
+                    break;
+                case 'pong':
+                    pingSentAt = undefined;
+                    break;
+                case 'log':
+                    outputLength += message.text.length + 1;
+                    if (outputLength > MAX_OUTPUT_LENGTH) {
+                        finish(`Output limit exceeded (max ${MAX_OUTPUT_LENGTH.toLocaleString()} characters)`);
+                        return;
+                    }
+                    logs.push(message.text);
+                    context.log(message.text);
+                    break;
+                case 'callTool':
+                    void callTool(message.id, message.name, message.args);
+                    break;
+                case 'done':
+                    returnValue = message.value;
+                    finish();
+                    break;
+                case 'error':
+                    finish(message.message);
+                    break;
+            }
         };
-    } catch (err) {
-        return {
-            stdout: logs.join('\n'),
-            error: err instanceof Error ? err.message : String(err)
+        const onMessageError = (event: MessageEvent) => {
+            if (event.source === frame.contentWindow) finish('Sandbox sent a message that could not be read');
         };
-    }
+        window.addEventListener('message', onMessage);
+        window.addEventListener('messageerror', onMessageError);
+        document.body.appendChild(frame);
+    });
+
+    return {
+        stdout: logs.join('\n'),
+        ...(error === undefined ? {} : { error }),
+        ...(returnValue === undefined ? {} : { returnValue }),
+        trace,
+    };
 }
@@ -0,0 +1,57 @@
+// Server log messages (`notifications/message`): levels, filtering and JSONL export
+
+import type { MCPLogLevel, MCPLogMessage } from './types';
+
+// RFC 5424 severities, least to most severe
+export const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// A log message with the server it came from, for the merged console
+export interface ServerLogMessage extends MCPLogMessage {
+  serverId: string;
+  serverName: string;
+}
+
+export interface LogFilter {
+  minLevel: MCPLogLevel;
+  logger: string; // '' for all loggers
+  search: string;
+}
+
+export function isAtLeastLevel(level: MCPLogLevel, minLevel: MCPLogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+// Strings are shown as-is; structured data is pretty-printed JSON
+export function formatLogData(data: unknown): string {
+  if (typeof data === 'string') return data;
+  try {
+    return JSON.stringify(data, null, 2) ?? String(data);
+  } catch {
+    return String(data);
+  }
+}
+
+export function filterLogMessages<T extends MCPLogMessage>(messages: T[], filter: LogFilter): T[] {
+  const needle = filter.search.toLowerCase();
+  return messages.filter(message =>
+    isAtLeastLevel(message.level, filter.minLevel) &&
+    (!filter.logger || message.logger === filter.logger) &&
+    (!needle || [message.logger, formatLogData(message.data)].some(text => text?.toLowerCase().includes(needle)))
+  );
+}
+
+// Messages from several servers in arrival order
+export function mergeLogMessages(sources: { serverId: string; serverName: string; logMessages: MCPLogMessage[] }[]): ServerLogMessage[] {
+  return sources
+    .flatMap(({ serverId, serverName, logMessages }) =>
+      logMessages.map(message => ({ ...message, serverId, serverName })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// One JSON object per line, with ISO timestamps
+export function exportLogsJsonl(messages: ServerLogMessage[]): string {
+  return messages
+    .map(({ timestamp, serverName, level, logger, data }) =>
+      JSON.stringify({ timestamp: new Date(timestamp).toISOString(), server: serverName, level, logger, data }))
+    .join('\n') + '\n';
+}
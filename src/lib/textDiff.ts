@@ -0,0 +1,70 @@
+// Line diff between two texts (longest common subsequence)
+
+export interface TextDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// Above this many LCS table cells the changed region is shown as a full replacement
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Compares two texts line by line. Common leading and trailing lines are
+ * matched first so only the changed region goes through the LCS table.
+ */
+export function diffLines(before: string, after: string): TextDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): TextDiffLine => ({ type: 'unchanged', text }));
+  const tail = a.slice(endA).map((text): TextDiffLine => ({ type: 'unchanged', text }));
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldLines.map((text): TextDiffLine => ({ type: 'removed', text })),
+      ...newLines.map((text): TextDiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i:] and newLines[j:]
+  const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      middle.push({ type: 'unchanged', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      middle.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) middle.push({ type: 'removed', text: oldLines[i++] });
+  while (j < newLines.length) middle.push({ type: 'added', text: newLines[j++] });
+
+  return [...head, ...middle, ...tail];
+}
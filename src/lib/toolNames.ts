@@ -0,0 +1,94 @@
+// Namespaced tool names (`server__tool`) so identical tools on different servers
+// stay distinct when exposed to an LLM.
+
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+// Namespace of saved workflows exposed as tools; a server named like it gets a
+// hash so its tools can't be mistaken for workflows
+export const WORKFLOW_TOOL_NAMESPACE = 'workflow';
+
+interface NamespacableTool {
+  name: string;
+  serverId?: string;
+  serverName?: string;
+}
+
+// Common subset of provider rules: OpenAI and Anthropic allow [a-zA-Z0-9_-]{1,64};
+// Gemini also requires a letter or underscore first.
+const MAX_TOOL_NAME_LENGTH = 64;
+const HASH_LENGTH = 6;
+
+// Short, stable hash (FNV-1a) used to keep truncated names unique
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(HASH_LENGTH, '0').slice(-HASH_LENGTH);
+}
+
+function sanitizeNamePart(text: string): string {
+  return text.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'tool';
+}
+
+/**
+ * Builds the name a tool is exposed under, e.g. `github__search`. Names that
+ * would exceed the provider limit are truncated and suffixed with a hash of
+ * the full name, so the result is stable across reloads.
+ */
+export function namespaceToolName(serverName: string, toolName: string): string {
+  let name = `${sanitizeNamePart(serverName)}${TOOL_NAMESPACE_SEPARATOR}${sanitizeNamePart(toolName)}`;
+  if (!/^[a-zA-Z_]/.test(name)) name = `_${name}`;
+  if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+  return withHashSuffix(name, `${serverName}\u0000${toolName}`);
+}
+
+// `name` with a hash of `key` appended, still within the length limit
+function withHashSuffix(name: string, key: string): string {
+  return `${name.slice(0, MAX_TOOL_NAME_LENGTH - HASH_LENGTH - 1)}_${shortHash(key)}`;
+}
+
+/**
+ * Renames tools to their namespaced names, keeping the MCP name in
+ * `originalName` for execution. Servers that share a display name are told
+ * apart by a hash of their id, as is a server named after the workflow
+ * namespace. Names that still clash once sanitized (e.g. servers "my.server"
+ * and "my server", or tools get.user and get_user) all get a hash of their
+ * server id and tool name.
+ */
+export function namespaceTools<T extends NamespacableTool>(tools: T[]): Array<T & { originalName?: string }> {
+  const serverIdsByName = new Map<string, Set<string>>();
+  for (const tool of tools) {
+    if (!tool.serverId) continue;
+    const name = tool.serverName || tool.serverId;
+    serverIdsByName.set(name, (serverIdsByName.get(name) || new Set()).add(tool.serverId));
+  }
+
+  const namespaced: Array<T & { originalName?: string }> = tools.map(tool => {
+    if (!tool.serverId) return tool;
+    let serverName = tool.serverName || tool.serverId;
+    if ((serverIdsByName.get(serverName)?.size || 0) > 1 || sanitizeNamePart(serverName) === WORKFLOW_TOOL_NAMESPACE) {
+      serverName = `${serverName}_${shortHash(tool.serverId)}`;
+    }
+    return { ...tool, name: namespaceToolName(serverName, tool.name), originalName: tool.name };
+  });
+
+  const nameCounts = new Map<string, number>();
+  for (const tool of namespaced) nameCounts.set(tool.name, (nameCounts.get(tool.name) || 0) + 1);
+  return namespaced.map(tool => tool.serverId && (nameCounts.get(tool.name) || 0) > 1
+    ? { ...tool, name: withHashSuffix(tool.name, `${tool.serverId}\u0000${tool.originalName}`) }
+    : tool);
+}
+
+// Find a tool by the name the LLM used: namespaced, or the bare MCP name as a fallback
+export function findToolByName<T extends NamespacableTool & { originalName?: string }>(tools: T[], name: string): T | undefined {
+  return tools.find(t => t.name === name) || tools.find(t => t.originalName === name);
+}
+
+// Split a namespaced name for display; names without a namespace have no server part
+export function splitToolName(name: string): { server?: string; tool: string } {
+  const index = name.indexOf(TOOL_NAMESPACE_SEPARATOR);
+  if (index <= 0) return { tool: name };
+  return { server: name.slice(0, index), tool: name.slice(index + TOOL_NAMESPACE_SEPARATOR.length) };
+}
@@ -0,0 +1,119 @@
+// Local tool search: a BM25 index over tool names, descriptions and parameter
+// names, plus the policy that decides when tools are deferred behind search.
+
+import type { MCPToolDefinition, ToolLoadingPolicy, LLMSettings } from './llm-types';
+import { DEFAULT_TOOL_LOADING_POLICY } from './llm-types';
+
+export interface ToolSearchResult {
+  tool: MCPToolDefinition;
+  score: number;
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Field weights, applied by repeating a field's terms in the document
+const NAME_WEIGHT = 3;
+const PARAMETER_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'tool', 'tools',
+]);
+
+// Plural stripping so "files" matches "file" and "searches" matches "search"
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (/(ss|x|ch|sh)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+// Split camelCase, snake_case, kebab-case and namespaced names into terms
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+function getDocumentTerms(tool: MCPToolDefinition): string[] {
+  const nameTerms = tokenize(tool.name);
+  const parameterTerms = tokenize(Object.keys(tool.inputSchema?.properties || {}).join(' '));
+  return [
+    ...Array.from({ length: NAME_WEIGHT }, () => nameTerms).flat(),
+    ...tokenize(tool.description || ''),
+    ...Array.from({ length: PARAMETER_WEIGHT }, () => parameterTerms).flat(),
+  ];
+}
+
+/**
+ * Builds an in-memory BM25 index over the given tools. Returns a search
+ * function that ranks tools by relevance to a free-text query.
+ */
+export function createToolSearchIndex(tools: MCPToolDefinition[]) {
+  const documents = tools.map(tool => {
+    const termFrequencies = new Map<string, number>();
+    const terms = getDocumentTerms(tool);
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+    return { tool, termFrequencies, length: terms.length };
+  });
+
+  const documentFrequencies = new Map<string, number>();
+  for (const document of documents) {
+    for (const term of document.termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1);
+    }
+  }
+
+  const averageLength = documents.reduce((sum, d) => sum + d.length, 0) / (documents.length || 1);
+
+  const search = (query: string, limit: number = 5): ToolSearchResult[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    return documents
+      .map(document => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = document.termFrequencies.get(term);
+          if (!frequency) continue;
+          const df = documentFrequencies.get(term) || 0;
+          const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+          score += idf * (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + B * document.length / (averageLength || 1)));
+        }
+        return { tool: document.tool, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  return { search };
+}
+
+// Rough token count of a tool definition as sent to the LLM (~4 characters per token)
+export function estimateToolTokens(tool: MCPToolDefinition): number {
+  return Math.ceil(JSON.stringify({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema }).length / 4);
+}
+
+export function getToolLoadingPolicy(settings: LLMSettings): ToolLoadingPolicy {
+  return { ...DEFAULT_TOOL_LOADING_POLICY, ...settings.toolLoading };
+}
+
+/**
+ * Marks every tool as deferred when the library is larger than the policy
+ * allows, by count or by estimated token size. Deferred tools are left out of
+ * the LLM request and found through `mcp_tool_search` instead.
+ */
+export function applyToolLoadingPolicy(tools: MCPToolDefinition[], policy: ToolLoadingPolicy): MCPToolDefinition[] {
+  const totalTokens = tools.reduce((sum, tool) => sum + estimateToolTokens(tool), 0);
+  const shouldDefer = tools.length > policy.maxTools || totalTokens > policy.maxTokens;
+  return shouldDefer ? tools.map(tool => ({ ...tool, deferLoading: true })) : tools;
+}
@@ -12,11 +12,12 @@ export interface MCPServerInfo {
 
 export interface MCPCapabilities {
   tools?: boolean;
-  resources?: boolean;
+  resources?: boolean | { subscribe?: boolean; listChanged?: boolean };
   prompts?: boolean;
   logging?: boolean;
   sampling?: boolean;
   elicitation?: boolean;
+  completions?: Record<string, unknown>; // Server supports completion/complete
 }
 
 export interface MCPInitializeParams {
@@ -182,6 +183,16 @@ export interface ResourceReadResult {
   contents: ResourceContentItem[];
 }
 
+export interface PromptMessage {
+  role: Role;
+  content: TextContent | ImageContent | AudioContent | { type: 'resource'; resource: ResourceContentItem };
+}
+
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+}
+
 // Transport Types
 
 export type TransportType = 'sse' | 'streamable-http';
@@ -196,21 +207,117 @@ export interface MCPProgressNotification {
   message?: string;
 }
 
+// A tools/call in flight; `progressToken` goes out in `_meta` so progress notifications can be matched to it
+export interface MCPActiveRequest {
+  requestId: string;
+  progressToken: string;
+  method: string;
+  toolName?: string;
+  startedAt: number;
+}
+
+export interface MCPActiveRequestStatus extends MCPActiveRequest {
+  serverId: string;
+  serverName: string;
+  progress?: MCPProgressNotification; // Latest notifications/progress for the token
+}
+
 // Log Message
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
 export interface MCPLogMessage {
-  level: 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+  id: string;
+  level: MCPLogLevel;
   logger?: string;
   data: unknown;
   timestamp: number;
 }
 
+// Content of a subscribed resource, read when subscribing and on each update notification
+export interface MCPResourceUpdate {
+  id: string;
+  uri: string;
+  reason: 'subscribed' | 'resubscribed' | 'updated';
+  timestamp: number;
+  contents?: ResourceContentItem[];
+  error?: string;
+}
+
 // Completion Result
+// What a completion/complete request is for: a prompt or a resource template
+export type MCPCompletionRef = { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string };
+
 export interface MCPCompletionResult {
   values: string[];
   total?: number;
   hasMore?: boolean;
 }
 
+// Protocol Traffic (recorded JSON-RPC messages for the inspector)
+export type MCPTrafficDirection = 'outgoing' | 'incoming';
+
+// 'server-request' marks requests initiated by the server (ping, roots/list, sampling, elicitation)
+export type MCPTrafficKind = 'request' | 'response' | 'notification' | 'server-request';
+
+export interface MCPTrafficEntry {
+  id: string;
+  direction: MCPTrafficDirection;
+  kind: MCPTrafficKind;
+  method?: string; // For responses, the method of the request being answered
+  messageId?: string | number;
+  message: MCPMessage;
+  size: number; // Serialized size in bytes
+  timestamp: number;
+  durationMs?: number; // For responses, time elapsed since the matching request
+  transport?: TransportType;
+}
+
+// Request History (replayable requests sent through sendRequest)
+export interface MCPRequestHistoryEntry {
+  id: string;
+  serverId: string;
+  serverName: string;
+  method: string;
+  params?: Record<string, unknown>;
+  timestamp: number;
+  durationMs: number;
+  status: 'success' | 'error';
+  result?: unknown;
+  error?: string;
+}
+
+// Roots (client-declared URIs that bound where servers may operate)
+export interface MCPRoot {
+  uri: string;
+  name?: string;
+}
+
+export interface ClientRoot extends MCPRoot {
+  id: string;
+  serverId?: string; // Exposed to every server when unset
+}
+
+// Request timeouts (how long to wait for a server's response)
+export interface RequestTimeoutSettings {
+  defaultTimeoutMs: number;
+  resetOnProgress: boolean; // Restart the timeout on each notifications/progress for the request
+  maxTotalTimeoutMs: number; // Hard limit even while progress keeps arriving
+  toolTimeouts: Record<string, Record<string, number>>; // serverId -> tool name -> timeout (ms)
+}
+
+// Tool Approval (confirmation gates for tools called by the chat agent)
+export type ToolApprovalPolicy = 'always-allow' | 'always-ask' | 'never-allow';
+
+export interface ToolApprovalRequest {
+  id: string;
+  toolName: string;
+  serverId?: string;
+  serverName?: string;
+  arguments: Record<string, unknown>;
+  annotations?: MCPToolAnnotations;
+  source: 'chat' | 'orchestrator' | 'replay' | 'workflow';
+}
+
 export interface ServerInstance {
   id: string;
   url: string;
@@ -227,7 +334,12 @@ export interface ServerInstance {
   credentials?: OAuthCredentials;
   customHeaders?: Record<string, string>;
   logMessages: MCPLogMessage[];
+  logLevel?: MCPLogLevel; // Last level sent with logging/setLevel
   activeProgress: Map<string | number, MCPProgressNotification>;
+  activeRequests: MCPActiveRequest[];
+  traffic: MCPTrafficEntry[];
+  resourceSubscriptions: string[]; // URIs, kept across reconnects
+  resourceUpdates: MCPResourceUpdate[];
 }
 
 // Sampling Types (Server requests LLM completion from client)
@@ -0,0 +1,99 @@
+// URI templates (RFC 6570, up to level 4) for MCP resource templates
+
+export type UriTemplateValue = string | string[];
+
+interface OperatorSpec {
+  first: string;
+  separator: string;
+  named: boolean;
+  ifEmpty: string;
+  allowReserved: boolean;
+}
+
+// RFC 6570 appendix A
+const OPERATORS: Record<string, OperatorSpec> = {
+  '': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: false },
+  '+': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '#': { first: '#', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '.': { first: '.', separator: '.', named: false, ifEmpty: '', allowReserved: false },
+  '/': { first: '/', separator: '/', named: false, ifEmpty: '', allowReserved: false },
+  ';': { first: ';', separator: ';', named: true, ifEmpty: '', allowReserved: false },
+  '?': { first: '?', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+  '&': { first: '&', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+};
+
+const EXPRESSION_PATTERN = /\{([^}]+)\}/g;
+
+interface VariableSpec {
+  name: string;
+  explode: boolean;
+  prefix?: number; // `{var:3}` keeps the first 3 characters
+}
+
+function parseExpression(expression: string): { operator: OperatorSpec; variables: VariableSpec[] } {
+  const operatorKey = expression[0] in OPERATORS ? expression[0] : '';
+  const variables = expression
+    .slice(operatorKey.length)
+    .split(',')
+    .map(spec => /^([^:*]+)(?::(\d+)|(\*))?$/.exec(spec.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => ({
+      name: match[1],
+      explode: match[3] === '*',
+      ...(match[2] ? { prefix: Number(match[2]) } : {}),
+    }));
+  return { operator: OPERATORS[operatorKey], variables };
+}
+
+// Unreserved characters pass through; `+` and `#` also keep reserved characters and existing %XX escapes
+function encodeValue(value: string, allowReserved: boolean): string {
+  if (allowReserved) {
+    return value
+      .split(/(%[0-9A-Fa-f]{2})/)
+      .map((part, index) => index % 2 === 1 ? part : encodeURI(part).replace(/%5B/g, '[').replace(/%5D/g, ']'))
+      .join('');
+  }
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function expandExpression(expression: string, values: Record<string, UriTemplateValue | undefined>): string {
+  const { operator, variables } = parseExpression(expression);
+  const named = (name: string, encoded: string) =>
+    operator.named ? (encoded === '' ? `${name}${operator.ifEmpty}` : `${name}=${encoded}`) : encoded;
+
+  const parts: string[] = [];
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+
+    if (typeof value === 'string') {
+      const text = variable.prefix !== undefined ? [...value].slice(0, variable.prefix).join('') : value;
+      parts.push(named(variable.name, encodeValue(text, operator.allowReserved)));
+    } else if (variable.explode) {
+      parts.push(...value.map(item => named(variable.name, encodeValue(item, operator.allowReserved))));
+    } else {
+      const joined = value.map(item => encodeValue(item, operator.allowReserved)).join(',');
+      parts.push(operator.named ? `${variable.name}=${joined}` : joined);
+    }
+  }
+  return parts.length > 0 ? operator.first + parts.join(operator.separator) : '';
+}
+
+// Variable names in the order they appear, without duplicates
+export function getUriTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+    for (const variable of parseExpression(match[1]).variables) {
+      names.add(variable.name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Expands a URI template. Undefined variables (and empty lists) are dropped
+ * along with their operator prefix, as RFC 6570 specifies.
+ */
+export function expandUriTemplate(template: string, values: Record<string, UriTemplateValue | undefined>): string {
+  return template.replace(EXPRESSION_PATTERN, (_, expression: string) => expandExpression(expression, values));
+}
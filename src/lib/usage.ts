@@ -0,0 +1,82 @@
+// Token usage and cost accounting for chat turns and conversations
+
+import type { ChatMessage, LLMProvider, LLMTurnLimits, LLMUsage, LLMSettings } from './llm-types';
+import { LLM_MODEL_PRICING, FREE_PROVIDERS, DEFAULT_TURN_LIMITS } from './llm-types';
+
+export interface UsageSummary {
+  usage: LLMUsage;
+  cost: number; // USD, for the steps whose model has a known price
+  unpricedSteps: number; // Steps whose cost could not be estimated
+}
+
+// Progress of the current user turn against its limits
+export interface TurnBudget {
+  steps: number;
+  toolCalls: number;
+  tokens: number;
+  limits: LLMTurnLimits;
+}
+
+// Error recorded on tool calls skipped because the turn ran out of tool calls; they never ran
+export const TOOL_BUDGET_EXHAUSTED_ERROR = 'Tool call budget exhausted';
+
+export const EMPTY_USAGE: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+export function addUsage(a: LLMUsage, b: LLMUsage | undefined): LLMUsage {
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+// Cost in USD, or null when the model has no known price
+export function estimateCost(usage: LLMUsage, provider?: LLMProvider, model?: string): number | null {
+  if (provider && FREE_PROVIDERS.includes(provider)) return 0;
+  const pricing = model ? LLM_MODEL_PRICING[model] : undefined;
+  if (!pricing) return null;
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+export function summarizeUsage(messages: ChatMessage[]): UsageSummary {
+  const summary: UsageSummary = { usage: EMPTY_USAGE, cost: 0, unpricedSteps: 0 };
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !message.usage) continue;
+    summary.usage = addUsage(summary.usage, message.usage);
+    const cost = estimateCost(message.usage, message.provider, message.model);
+    if (cost === null) {
+      summary.unpricedSteps++;
+    } else {
+      summary.cost += cost;
+    }
+  }
+  return summary;
+}
+
+export function getTurnLimits(settings: LLMSettings): LLMTurnLimits {
+  return { ...DEFAULT_TURN_LIMITS, ...settings.turnLimits };
+}
+
+// Steps, tool calls and tokens used since the last user message
+export function getTurnBudget(messages: ChatMessage[], limits: LLMTurnLimits): TurnBudget {
+  const turn = messages.slice(messages.findLastIndex(m => m.role === 'user') + 1);
+  const steps = turn.filter(m => m.role === 'assistant' && !m.stopReason && !m.error);
+  return {
+    steps: steps.length,
+    toolCalls: steps.reduce((count, m) =>
+      count + (m.toolCalls?.filter(tc => tc.error !== TOOL_BUDGET_EXHAUSTED_ERROR).length || 0), 0),
+    tokens: summarizeUsage(turn).usage.totalTokens,
+    limits,
+  };
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatConversation, ChatMessage, ChatBranchSet } from './llm-types';
+import { loadConversations, saveConversation, deleteConversation as deleteStoredConversation } from './conversationStore';
+
+const ACTIVE_CONVERSATION_KEY = 'mcp-active-conversation';
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 60;
+
+// Title derived from the first user message
+function deriveTitle(messages: ChatMessage[]): string | null {
+  const firstUserMessage = messages.find(m => m.role === 'user' && m.content.trim());
+  if (!firstUserMessage) return null;
+  const text = firstUserMessage.content.trim().replace(/\s+/g, ' ');
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1)}…` : text;
+}
+
+// No branch tree and an empty one are the same
+function isSameBranches(a?: Record<string, ChatBranchSet>, b?: Record<string, ChatBranchSet>): boolean {
+  if (a === b) return true;
+  return Object.keys(a || {}).length === 0 && Object.keys(b || {}).length === 0;
+}
+
+// Pinned first, then most recently active
+export function sortConversations(conversations: ChatConversation[]): ChatConversation[] {
+  return [...conversations].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+}
+
+/**
+ * Full-text search over conversation titles, message text and tool call names.
+ * Returns each match with a short snippet around the first hit in the messages.
+ */
+export function searchConversations(
+  conversations: ChatConversation[],
+  query: string
+): Array<{ conversation: ChatConversation; snippet?: string }> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations.map(conversation => ({ conversation }));
+
+  const results: Array<{ conversation: ChatConversation; snippet?: string }> = [];
+  for (const conversation of conversations) {
+    let snippet: string | undefined;
+    for (const message of conversation.messages) {
+      const text = [message.content, ...(message.toolCalls || []).map(tc => tc.name)].join(' ');
+      const index = text.toLowerCase().indexOf(needle);
+      if (index >= 0) {
+        const start = Math.max(0, index - 30);
+        snippet = `${start > 0 ? '…' : ''}${text.slice(start, index + needle.length + 50).replace(/\s+/g, ' ')}`;
+        break;
+      }
+    }
+    if (snippet !== undefined || conversation.title.toLowerCase().includes(needle)) {
+      results.push({ conversation, snippet });
+    }
+  }
+  return results;
+}
+
+export function useConversations() {
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Mirrors state so updates can be persisted without waiting for a render
+  const conversationsRef = useRef<ChatConversation[]>([]);
+
+  const commit = useCallback((next: ChatConversation[]) => {
+    conversationsRef.current = next;
+    setConversations(next);
+  }, []);
+
+  const persist = useCallback((conversation: ChatConversation) => {
+    saveConversation(conversation).catch(err => {
+      console.error('Failed to save conversation:', err);
+    });
+  }, []);
+
+  // Load conversations from IndexedDB on mount
+  useEffect(() => {
+    let cancelled = false;
+    loadConversations()
+      .then(loaded => {
+        if (cancelled) return;
+        commit(loaded);
+        const storedActiveId = localStorage.getItem(ACTIVE_CONVERSATION_KEY);
+        const active = loaded.find(c => c.id === storedActiveId) || sortConversations(loaded)[0];
+        setActiveConversationId(active?.id || null);
+      })
+      .catch(err => {
+        console.error('Failed to load conversations:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [commit]);
+
+  // Remember the active conversation across reloads
+  useEffect(() => {
+    if (!isLoaded || typeof window === 'undefined') return;
+    if (activeConversationId) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, activeConversationId);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  }, [activeConversationId, isLoaded]);
+
+  const createConversation = useCallback((settings: Partial<ChatConversation> = {}) => {
+    const now = Date.now();
+    const conversation: ChatConversation = {
+      ...settings,
+      id: uuidv4(),
+      title: settings.title || DEFAULT_CONVERSATION_TITLE,
+      createdAt: now,
+      updatedAt: now,
+      messages: settings.messages || [],
+    };
+    commit([...conversationsRef.current, conversation]);
+    persist(conversation);
+    setActiveConversationId(conversation.id);
+    return conversation;
+  }, [commit, persist]);
+
+  const updateConversation = useCallback((id: string, patch: Partial<Omit<ChatConversation, 'id'>>) => {
+    const current = conversationsRef.current.find(c => c.id === id);
+    if (!current) return;
+    const updated = { ...current, ...patch };
+    commit(conversationsRef.current.map(c => c.id === id ? updated : c));
+    persist(updated);
+  }, [commit, persist]);
+
+  // Store new messages and branches; titles the conversation from its first user message
+  const setConversationMessages = useCallback((
+    id: string,
+    messages: ChatMessage[],
+    branches?: Record<string, ChatBranchSet>
+  ) => {
+    const current = conversationsRef.current.find(c => c.id === id);
+    // Opening a conversation reports its messages back unchanged (with `{}` for
+    // missing branches); that must not count as an edit or bump `updatedAt`
+    if (!current || (current.messages === messages && isSameBranches(current.branches, branches))) return;
+    const title = current.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(messages) : null;
+    updateConversation(id, {
+      messages,
+      branches,
+      updatedAt: Date.now(),
+      ...(title ? { title } : {}),
+    });
+  }, [updateConversation]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    updateConversation(id, { title: title.trim() || DEFAULT_CONVERSATION_TITLE });
+  }, [updateConversation]);
+
+  const togglePinned = useCallback((id: string) => {
+    const current = conversationsRef.current.find(c => c.id === id);
+    if (current) updateConversation(id, { pinned: !current.pinned });
+  }, [updateConversation]);
+
+  const deleteConversation = useCallback((id: string) => {
+    const remaining = conversationsRef.current.filter(c => c.id !== id);
+    commit(remaining);
+    deleteStoredConversation(id).catch(err => {
+      console.error('Failed to delete conversation:', err);
+    });
+    setActiveConversationId(prev => prev === id ? sortConversations(remaining)[0]?.id || null : prev);
+  }, [commit]);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || null;
+
+  return {
+    conversations,
+    activeConversation,
+    isLoaded,
+    setActiveConversationId,
+    createConversation,
+    updateConversation,
+    setConversationMessages,
+    renameConversation,
+    togglePinned,
+    deleteConversation,
+  };
+}
@@ -4,88 +4,249 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import type {
   ChatMessage,
+  ChatAttachment,
+  ChatBranchSet,
   ToolCall,
   LLMSettings,
   LLMChatResponse,
   ToolResultContent,
   MCPToolDefinition,
+  LLMUsage,
+  OrchestratorResult,
+  Workflow,
 } from './llm-types';
+import { ROOT_BRANCH_KEY, DEFAULT_MAX_PARALLEL_TOOL_CALLS } from './llm-types';
+import type { ToolApprovalRequest } from './types';
 import { executeOrchestration } from './orchestrator';
-
-const CHAT_HISTORY_KEY = 'mcp-chat-history';
-
-// Load chat history from localStorage
-function loadChatHistory(): ChatMessage[] {
-  if (typeof window === 'undefined') return [];
+import type { OrchestratorContext } from './orchestrator';
+import { DEFAULT_REQUEST_TIMEOUTS, formatTimeoutDuration } from './useRequestTimeouts';
+import { parseLLMStream } from './llm-stream';
+import { getTurnLimits, TOOL_BUDGET_EXHAUSTED_ERROR } from './usage';
+import { findToolByName } from './toolNames';
+import { createToolSearchIndex, applyToolLoadingPolicy, getToolLoadingPolicy } from './toolSearch';
+import { findWorkflowByToolName, isWorkflowToolName, runWorkflow, workflowsToTools } from './workflows';
+
+// Parse streamed tool call arguments; incomplete or empty JSON yields no arguments
+function parseToolArguments(text: string): Record<string, unknown> {
+  if (!text.trim()) return {};
   try {
-    const stored = localStorage.getItem(CHAT_HISTORY_KEY);
-    if (!stored) return [];
-    return JSON.parse(stored);
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
   } catch {
-    return [];
+    return {};
   }
 }
 
-// Save chat history to localStorage
-function saveChatHistory(messages: ChatMessage[]) {
-  if (typeof window === 'undefined') return;
-  try {
-    // Limit to last 100 messages to prevent localStorage from growing too large
-    const toStore = messages.slice(-100);
-    localStorage.setItem(CHAT_HISTORY_KEY, JSON.stringify(toStore));
-  } catch {
-    // Ignore storage errors
+/**
+ * Groups an assistant turn's tool calls into consecutive batches that can run
+ * concurrently. A call joins the current batch unless it could interfere with
+ * a call already in it: read-only calls may share a server with other
+ * read-only calls, any other call needs its server to itself. The orchestrator
+ * and saved workflows drive arbitrary tools, so they always run alone.
+ */
+function planToolCallBatches(toolCalls: ToolCall[], tools: MCPToolDefinition[]): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let batch: ToolCall[] = [];
+  let readOnlyServers = new Set<string>();
+  let writeServers = new Set<string>();
+
+  for (const toolCall of toolCalls) {
+    const toolDef = findToolByName(tools, toolCall.name);
+    const server = toolDef?.serverId || 'default';
+    const isReadOnly = toolCall.name === 'mcp_tool_search' || toolDef?.annotations?.readOnlyHint === true;
+    const isExclusive = (name: string) => name === 'javascript_orchestrator' || isWorkflowToolName(name);
+
+    const conflicts = isExclusive(toolCall.name) || batch.some(tc => isExclusive(tc.name)) ||
+      writeServers.has(server) || (!isReadOnly && readOnlyServers.has(server));
+    if (conflicts && batch.length > 0) {
+      batches.push(batch);
+      batch = [];
+      readOnlyServers = new Set();
+      writeServers = new Set();
+    }
+
+    batch.push(toolCall);
+    if (toolCall.name !== 'mcp_tool_search') {
+      (isReadOnly ? readOnlyServers : writeServers).add(server);
+    }
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+// Map items through an async worker with at most `limit` in flight; results keep input order
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+// Tool result text for the LLM: outcome, a one-line summary per tool call, the return value and logs
+function formatOrchestratorResult(result: OrchestratorResult): string {
+  const sections = [result.error ? `Execution failed: ${result.error}` : 'Execution successful.'];
+  if (result.trace.length > 0) {
+    sections.push(`Tool calls:\n${result.trace.map(entry => {
+      const duration = entry.completedAt ? ` ${entry.completedAt - entry.startedAt}ms` : '';
+      const outcome = entry.error ? `error: ${entry.error}` : entry.completedAt ? 'ok' : 'did not finish';
+      return `- ${entry.name}${duration}: ${outcome}`;
+    }).join('\n')}`);
+  }
+  if (result.returnValue !== undefined) {
+    sections.push(`Return value:\n${JSON.stringify(result.returnValue, null, 2)}`);
+  }
+  sections.push(`Logs:\n${result.stdout}`);
+  return sections.join('\n');
+}
+
+/**
+ * Builds an assistant message from the normalized /api/llm/chat stream,
+ * reporting each partial state so the bubble can render as tokens arrive.
+ */
+async function readStreamedMessage(
+  body: ReadableStream<Uint8Array>,
+  onUpdate: (message: ChatMessage) => void
+): Promise<ChatMessage> {
+  const id = uuidv4();
+  const timestamp = Date.now();
+  let content = '';
+  let usage: LLMUsage | undefined;
+  const toolCalls = new Map<number, { id: string; name: string; argumentsText: string }>();
+
+  const snapshot = (isStreaming: boolean): ChatMessage => {
+    const calls = [...toolCalls.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, tc]): ToolCall => ({
+        id: tc.id,
+        name: tc.name,
+        arguments: isStreaming ? {} : parseToolArguments(tc.argumentsText),
+        status: 'pending',
+      }));
+    return {
+      id,
+      role: 'assistant',
+      content,
+      timestamp,
+      toolCalls: calls.length > 0 ? calls : undefined,
+      usage,
+      isStreaming,
+    };
+  };
+
+  onUpdate(snapshot(true));
+
+  for await (const chunk of parseLLMStream(body)) {
+    if (chunk.type === 'error') {
+      throw new Error(chunk.error || 'Stream failed');
+    }
+    if (chunk.type === 'done') {
+      usage = chunk.usage;
+      break;
+    }
+
+    if (chunk.type === 'content' && chunk.content) {
+      content += chunk.content;
+    } else if (chunk.type === 'tool_call') {
+      const index = chunk.toolCallIndex ?? toolCalls.size;
+      const call = toolCalls.get(index) || { id: uuidv4(), name: '', argumentsText: '' };
+      if (chunk.toolCall?.id) call.id = chunk.toolCall.id;
+      if (chunk.toolCall?.name) call.name = chunk.toolCall.name;
+      call.argumentsText += chunk.argumentsDelta || '';
+      toolCalls.set(index, call);
+    }
+
+    onUpdate(snapshot(true));
   }
+
+  return snapshot(false);
 }
 
 interface UseLLMChatOptions {
   settings: LLMSettings;
   tools?: MCPToolDefinition[];
-  onToolCall?: (toolCall: ToolCall) => Promise<unknown>;
+  // `signal` aborts when the call is no longer wanted (Stop, or the orchestrator run ended)
+  onToolCall?: (toolCall: ToolCall, signal?: AbortSignal) => Promise<unknown>;
+  // Saved workflows, offered to the model as tools
+  workflows?: Workflow[];
+  // Resolves to false if the user denies the call; used for destructive/open-world tools
+  onApproveToolCall?: (request: Omit<ToolApprovalRequest, 'id'>, signal?: AbortSignal) => Promise<boolean>;
+  // Time limit for an orchestrator or workflow run (the maximum total request timeout)
+  orchestratorTimeoutMs?: number;
+  // Conversation to resume; the hook owns the messages and branches from then on
+  initialMessages?: ChatMessage[];
+  initialBranches?: Record<string, ChatBranchSet>;
+  // Called with the settled message list (not on every streamed token) and the branch tree
+  onMessagesChange?: (messages: ChatMessage[], branches: Record<string, ChatBranchSet>) => void;
+}
+
+export interface MessageBranchInfo {
+  index: number;
+  count: number;
 }
 
 interface UseLLMChatReturn {
   messages: ChatMessage[];
   isLoading: boolean;
   error: string | null;
-  sendMessage: (content: string) => Promise<void>;
+  sendMessage: (content: string, attachments?: ChatAttachment[]) => Promise<void>;
   clearMessages: () => void;
   retryLastMessage: () => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  getBranchInfo: (messageId: string) => MessageBranchInfo | null;
+  switchBranch: (messageId: string, index: number) => void;
+  stopGeneration: () => void;
+}
+
+// Fork point of the message at `index`: the id of the message before it
+function getBranchKey(messages: ChatMessage[], index: number): string {
+  return index > 0 ? messages[index - 1].id : ROOT_BRANCH_KEY;
 }
 
-export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions): UseLLMChatReturn {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+export function useLLMChat({
+  settings,
+  tools,
+  onToolCall,
+  workflows,
+  onApproveToolCall,
+  orchestratorTimeoutMs = DEFAULT_REQUEST_TIMEOUTS.maxTotalTimeoutMs,
+  initialMessages,
+  initialBranches,
+  onMessagesChange,
+}: UseLLMChatOptions): UseLLMChatReturn {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => initialMessages || []);
+  const [branches, setBranches] = useState<Record<string, ChatBranchSet>>(() => initialBranches || {});
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const onMessagesChangeRef = useRef(onMessagesChange);
+  onMessagesChangeRef.current = onMessagesChange;
 
-  // Load chat history on mount
+  // Report messages when they change (once streaming settles)
   useEffect(() => {
-    const stored = loadChatHistory();
-    if (stored.length > 0) {
-      setMessages(stored);
+    if (!messages.some(m => m.isStreaming)) {
+      onMessagesChangeRef.current?.(messages, branches);
     }
-    setIsInitialized(true);
-  }, []);
+  }, [messages, branches]);
 
-  // Save chat history when messages change
+  // Stop generating when the conversation is closed
   useEffect(() => {
-    if (isInitialized && messages.length > 0) {
-      saveChatHistory(messages);
-    }
-  }, [messages, isInitialized]);
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const clearMessages = useCallback(() => {
     setMessages([]);
+    setBranches({});
     setError(null);
-    // Also clear from localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(CHAT_HISTORY_KEY);
-    }
   }, []);
 
-  const sendMessage = useCallback(async (content: string) => {
+  // Send a user message after `history`, replacing whatever followed it in the live list
+  const sendFrom = useCallback(async (history: ChatMessage[], content: string, attachments?: ChatAttachment[]) => {
     if (!settings.activeProvider) {
       setError('No LLM provider selected. Please configure one in settings.');
       return;
@@ -96,6 +257,12 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
       setError('Provider configuration not found.');
       return;
     }
+    const maxParallelToolCalls = settings.maxParallelToolCalls || DEFAULT_MAX_PARALLEL_TOOL_CALLS;
+    const limits = getTurnLimits(settings);
+    // Large tool libraries are deferred; tools found via mcp_tool_search join later steps
+    const loadableTools = applyToolLoadingPolicy(tools || [], getToolLoadingPolicy(settings));
+    const searchIndex = createToolSearchIndex(loadableTools);
+    const discoveredToolNames = new Set<string>();
 
     // Add user message
     const userMessage: ChatMessage = {
@@ -103,9 +270,10 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
       role: 'user',
       content,
       timestamp: Date.now(),
+      ...(attachments?.length ? { attachments } : {}),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    setMessages([...history, userMessage]);
     setIsLoading(true);
     setError(null);
 
@@ -113,13 +281,95 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
-    abortControllerRef.current = new AbortController();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Insert a message, or replace it if it is already shown (streaming updates)
+    const upsertMessage = (message: ChatMessage) => {
+      setMessages(prev => prev.some(m => m.id === message.id)
+        ? prev.map(m => m.id === message.id ? message : m)
+        : [...prev, message]);
+    };
+
+    // Keep whatever text an interrupted stream produced, minus its unfinished tool calls
+    const discardStreamingMessage = () => {
+      setMessages(prev => prev
+        .filter(m => !(m.isStreaming && !m.content))
+        .map(m => m.isStreaming ? { ...m, isStreaming: false, toolCalls: undefined } : m));
+    };
+
+    // Mark a tool call as failed and build the error result message
+    const failToolCall = (assistantMessageId: string, toolCall: ToolCall, errorMessage: string): ChatMessage => {
+      setMessages(prev => prev.map(m =>
+        m.id === assistantMessageId && m.toolCalls
+          ? {
+            ...m,
+            toolCalls: m.toolCalls?.map(tc =>
+              tc.id === toolCall.id
+                ? { ...tc, status: 'error' as const, error: errorMessage, completedAt: Date.now() }
+                : tc
+            ),
+          }
+          : m
+      ));
+
+      const toolErrorMessage: ChatMessage = {
+        id: uuidv4(),
+        role: 'tool',
+        content: JSON.stringify({ error: errorMessage }),
+        timestamp: Date.now(),
+        toolCallId: toolCall.id,
+      };
+      return toolErrorMessage;
+    };
+
+    const approveToolCall = (
+      toolCall: ToolCall,
+      toolDef: MCPToolDefinition | undefined,
+      source: ToolApprovalRequest['source'],
+      signal?: AbortSignal
+    ) => {
+      if (!onApproveToolCall) return Promise.resolve(true);
+      return onApproveToolCall({
+        toolName: toolDef?.originalName || toolCall.name,
+        serverId: toolDef?.serverId,
+        serverName: toolDef?.serverName,
+        arguments: toolCall.arguments,
+        annotations: toolDef?.annotations,
+        source,
+      }, signal);
+    };
+
+    // End the turn with a notice instead of another LLM request
+    const stopForBudget = (reason: string) => {
+      const notice: ChatMessage = {
+        id: uuidv4(),
+        role: 'assistant',
+        content: `Stopped: budget exhausted (${reason}).`,
+        timestamp: Date.now(),
+        stopReason: 'budget',
+      };
+      setMessages(prev => [...prev, notice]);
+    };
 
     try {
-      let currentMessages = [...messages, userMessage];
+      let currentMessages = [...history, userMessage];
       let continueLoop = true;
+      let steps = 0;
+      let turnToolCalls = 0;
+      let turnTokens = 0;
+
+      while (continueLoop && !abortController.signal.aborted) {
+        if (steps >= limits.maxSteps) {
+          stopForBudget(`reached the limit of ${limits.maxSteps} steps for this message`);
+          break;
+        }
+        if (turnTokens >= limits.maxTokens) {
+          stopForBudget(`used ${turnTokens} of ${limits.maxTokens} tokens for this message`);
+          break;
+        }
+        steps++;
 
-      while (continueLoop) {
         const response = await fetch('/api/llm/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -127,13 +377,17 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
             provider: settings.activeProvider,
             model: config.model,
             messages: currentMessages,
-            tools: [...(tools || []), ...getInternalTools(tools || [])].filter(t => !t.deferLoading),
+            tools: [
+              ...loadableTools.filter(t => !t.deferLoading || discoveredToolNames.has(t.name)),
+              ...getInternalTools(loadableTools, workflows || [], orchestratorTimeoutMs),
+            ],
             apiKey: config.apiKey,
             baseUrl: config.baseUrl,
             customHeaders: config.customHeaders,
-            systemPrompt: settings.systemPrompt || getDefaultSystemPrompt(tools, true),
+            systemPrompt: settings.systemPrompt || getDefaultSystemPrompt(loadableTools, true),
+            stream: true,
           }),
-          signal: abortControllerRef.current?.signal,
+          signal: abortController.signal,
         });
 
         if (!response.ok) {
@@ -141,47 +395,59 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
           throw new Error(errorData.error || `Request failed: ${response.status}`);
         }
 
-        const data: LLMChatResponse = await response.json();
-        const assistantMessage = data.message;
+        let assistantMessage: ChatMessage;
+        if (response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+          assistantMessage = await readStreamedMessage(response.body, upsertMessage);
+        } else {
+          const data: LLMChatResponse = await response.json();
+          assistantMessage = { ...data.message, usage: data.usage };
+        }
+        assistantMessage = { ...assistantMessage, provider: settings.activeProvider, model: config.model };
+        turnTokens += assistantMessage.usage?.totalTokens || 0;
 
-        // Add assistant message to state
-        setMessages(prev => [...prev, assistantMessage]);
+        // Add (or finalize) assistant message in state
+        upsertMessage(assistantMessage);
         currentMessages = [...currentMessages, assistantMessage];
 
         // Check if there are tool calls to process
         if (assistantMessage.toolCalls && assistantMessage.toolCalls.length > 0 && onToolCall) {
-          // Process each tool call
-          for (const toolCall of assistantMessage.toolCalls) {
+          // Run one tool call and build its result message; the caller appends results in call order
+          const executeToolCall = async (toolCall: ToolCall): Promise<ChatMessage> => {
+            // Stopped mid-turn: answer the remaining calls so the history stays valid
+            if (abortController.signal.aborted) {
+              return failToolCall(assistantMessage.id, toolCall, 'Stopped by user');
+            }
+
             // Check for internal tools first
             if (toolCall.name === 'mcp_tool_search') {
-              const query = (toolCall.arguments.query as string || '').toLowerCase();
-              const matches = (tools || []).filter(t =>
-                t.name.toLowerCase().includes(query) ||
-                t.description?.toLowerCase().includes(query)
-              );
-
-              const result = {
-                content: [{
-                  type: 'text',
-                  text: `Found ${matches.length} tools matching "${query}":\n` +
-                    matches.map(m => `- ${m.name}: ${m.description || 'No description'}`).join('\n')
-                }]
-              };
+              const query = String(toolCall.arguments.query || '');
+              const limit = typeof toolCall.arguments.limit === 'number' ? toolCall.arguments.limit : 5;
+              const matches = searchIndex.search(query, limit);
+              // Discovered tools are sent with the next request so the model can call them
+              matches.forEach(({ tool }) => discoveredToolNames.add(tool.name));
 
-              // Add tool result message
               const toolResultMessage: ChatMessage = {
                 id: uuidv4(),
                 role: 'tool',
-                content: result.content[0].text,
+                content: matches.length > 0
+                  ? `Found ${matches.length} tools matching "${query}". They can be called directly in your next step:\n` +
+                    JSON.stringify(matches.map(({ tool, score }) => ({
+                      name: tool.name,
+                      server: tool.serverName,
+                      description: tool.description,
+                      inputSchema: tool.inputSchema,
+                      score: Math.round(score * 100) / 100,
+                    })), null, 2)
+                  : `No tools found matching "${query}". Try different keywords.`,
                 timestamp: Date.now(),
                 toolCallId: toolCall.id,
               };
-              setMessages(prev => [...prev, toolResultMessage]);
-              currentMessages = [...currentMessages, toolResultMessage];
-              continue;
+              return toolResultMessage;
             }
 
-            if (toolCall.name === 'javascript_orchestrator') {
+            // Saved workflows run their stored code in the same sandbox as the orchestrator
+            const workflow = findWorkflowByToolName(workflows || [], toolCall.name);
+            if (toolCall.name === 'javascript_orchestrator' || workflow) {
               const code = toolCall.arguments.code as string;
 
               // Update status to running
@@ -190,37 +456,45 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
                   ? {
                     ...m,
                     toolCalls: m.toolCalls?.map(tc =>
-                      tc.id === toolCall.id ? { ...tc, status: 'running' as const } : tc
+                      tc.id === toolCall.id ? { ...tc, status: 'running' as const, startedAt: Date.now() } : tc
                     ),
                   }
                   : m
               ));
 
               try {
-                const orchResult = await executeOrchestration(code, {
-                  callTool: async (name, args) => {
-                    const tDef = tools?.find(t => t.name === name);
-                    // Create a tool call object for recursive calling
-                    const subToolCall: ToolCall = {
-                      id: uuidv4(),
-                      name,
-                      arguments: args,
-                      serverId: tDef?.serverId,
-                      status: 'running'
-                    };
-                    return await onToolCall(subToolCall);
+                // Create a tool call object for recursive calling
+                const toSubToolCall = (name: string, args: Record<string, unknown>): [ToolCall, MCPToolDefinition | undefined] => {
+                  const tDef = findToolByName(tools || [], name);
+                  return [{
+                    id: uuidv4(),
+                    name: tDef?.originalName || name,
+                    arguments: args,
+                    serverId: tDef?.serverId,
+                    status: 'running'
+                  }, tDef];
+                };
+                const orchestratorContext: OrchestratorContext = {
+                  callTool: (name, args, signal) => onToolCall(toSubToolCall(name, args)[0], signal),
+                  approveToolCall: (name, args, signal) => {
+                    const [subToolCall, tDef] = toSubToolCall(name, args);
+                    return approveToolCall(subToolCall, tDef, 'orchestrator', signal);
                   },
-                  log: (...args) => console.log('[Orchestrator]', ...args)
-                });
-
-                const resultText = orchResult.error
-                  ? `Execution failed: ${orchResult.error}\nLogs:\n${orchResult.stdout}`
-                  : `Execution successful.\nLogs:\n${orchResult.stdout}`;
+                  log: (...args) => console.log(workflow ? `[Workflow ${workflow.name}]` : '[Orchestrator]', ...args),
+                  resolveServer: (name) => {
+                    const tDef = findToolByName(tools || [], name);
+                    return tDef && { serverId: tDef.serverId, serverName: tDef.serverName };
+                  },
+                  timeoutMs: orchestratorTimeoutMs,
+                };
+                const orchResult = workflow
+                  ? await runWorkflow(workflow, toolCall.arguments, orchestratorContext, abortController.signal)
+                  : await executeOrchestration(code, orchestratorContext, abortController.signal);
 
                 const toolResultMessage: ChatMessage = {
                   id: uuidv4(),
                   role: 'tool',
-                  content: resultText,
+                  content: formatOrchestratorResult(orchResult),
                   timestamp: Date.now(),
                   toolCallId: toolCall.id,
                 };
@@ -231,15 +505,13 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
                     ? {
                       ...m,
                       toolCalls: m.toolCalls?.map(tc =>
-                        tc.id === toolCall.id ? { ...tc, status: 'completed' as const, result: orchResult } : tc
+                        tc.id === toolCall.id ? { ...tc, status: 'completed' as const, result: orchResult, completedAt: Date.now() } : tc
                       ),
                     }
                     : m
                 ));
 
-                setMessages(prev => [...prev, toolResultMessage]);
-                currentMessages = [...currentMessages, toolResultMessage];
-                continue;
+                return toolResultMessage;
               } catch (orchErr) {
                 const errorMessage = orchErr instanceof Error ? orchErr.message : 'Orchestration failed';
                 const toolResultMessage: ChatMessage = {
@@ -249,23 +521,31 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
                   timestamp: Date.now(),
                   toolCallId: toolCall.id,
                 };
-                setMessages(prev => [...prev, toolResultMessage]);
-                currentMessages = [...currentMessages, toolResultMessage];
-                continue;
+                return toolResultMessage;
               }
             }
 
             // Normal MCP tool handling
-            const toolDef = tools?.find(t => t.name === toolCall.name);
-            const toolCallWithServer = { ...toolCall, serverId: toolDef?.serverId };
+            // Namespaced names map back to the server and the tool's MCP name
+            const toolDef = findToolByName(tools || [], toolCall.name);
+            const toolCallWithServer = { ...toolCall, name: toolDef?.originalName || toolCall.name, serverId: toolDef?.serverId };
+
+            // Destructive/open-world tools wait for the user's approval; Stop withdraws the prompt
+            if (!(await approveToolCall(toolCall, toolDef, 'chat', abortController.signal))) {
+              return failToolCall(
+                assistantMessage.id,
+                toolCall,
+                abortController.signal.aborted ? 'Stopped by user' : `User denied permission to call ${toolCall.name}`
+              );
+            }
 
-            // Update tool call status to running
+            // Update tool call status to running, recording the server it was routed to
             setMessages(prev => prev.map(m =>
               m.id === assistantMessage.id && m.toolCalls
                 ? {
                   ...m,
                   toolCalls: m.toolCalls?.map(tc =>
-                    tc.id === toolCall.id ? { ...tc, status: 'running' as const } : tc
+                    tc.id === toolCall.id ? { ...tc, status: 'running' as const, serverId: toolCallWithServer.serverId, startedAt: Date.now() } : tc
                   ),
                 }
                 : m
@@ -273,7 +553,7 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
 
             try {
               // Execute the tool with server routing
-              const result = await onToolCall(toolCallWithServer);
+              const result = await onToolCall(toolCallWithServer, abortController.signal);
 
               // Update tool call with result
               setMessages(prev => prev.map(m =>
@@ -282,7 +562,7 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
                     ...m,
                     toolCalls: m.toolCalls?.map(tc =>
                       tc.id === toolCall.id
-                        ? { ...tc, status: 'completed' as const, result }
+                        ? { ...tc, status: 'completed' as const, result, completedAt: Date.now() }
                         : tc
                     ),
                   }
@@ -319,37 +599,33 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
                 toolResultContent: contentItems.length > 0 ? contentItems : undefined,
               };
 
-              setMessages(prev => [...prev, toolResultMessage]);
-              currentMessages = [...currentMessages, toolResultMessage];
+              return toolResultMessage;
             } catch (toolError) {
-              // Update tool call with error
+              // Update tool call with error and add error tool result message
               const errorMessage = toolError instanceof Error ? toolError.message : 'Tool execution failed';
-
-              setMessages(prev => prev.map(m =>
-                m.id === assistantMessage.id && m.toolCalls
-                  ? {
-                    ...m,
-                    toolCalls: m.toolCalls?.map(tc =>
-                      tc.id === toolCall.id
-                        ? { ...tc, status: 'error' as const, error: errorMessage }
-                        : tc
-                    ),
-                  }
-                  : m
-              ));
-
-              // Add error tool result message
-              const toolErrorMessage: ChatMessage = {
-                id: uuidv4(),
-                role: 'tool',
-                content: JSON.stringify({ error: errorMessage }),
-                timestamp: Date.now(),
-                toolCallId: toolCall.id,
-              };
-
-              setMessages(prev => [...prev, toolErrorMessage]);
-              currentMessages = [...currentMessages, toolErrorMessage];
+              return failToolCall(assistantMessage.id, toolCall, errorMessage);
             }
+          };
+
+          // Calls beyond the turn's tool call budget are answered with an error, never run
+          const allowedCount = Math.max(0, limits.maxToolCalls - turnToolCalls);
+          const allowedCalls = assistantMessage.toolCalls.slice(0, allowedCount);
+          turnToolCalls += allowedCalls.length;
+
+          // Independent calls run concurrently; each batch's results are appended in call order
+          for (const batch of planToolCallBatches(allowedCalls, tools || [])) {
+            const toolResultMessages = await runWithConcurrency(batch, maxParallelToolCalls, executeToolCall);
+            setMessages(prev => [...prev, ...toolResultMessages]);
+            currentMessages = [...currentMessages, ...toolResultMessages];
+          }
+
+          const skippedCalls = assistantMessage.toolCalls.slice(allowedCount);
+          if (skippedCalls.length > 0) {
+            const skippedMessages = skippedCalls.map(tc => failToolCall(assistantMessage.id, tc, TOOL_BUDGET_EXHAUSTED_ERROR));
+            setMessages(prev => [...prev, ...skippedMessages]);
+            currentMessages = [...currentMessages, ...skippedMessages];
+            stopForBudget(`reached the limit of ${limits.maxToolCalls} tool calls for this message`);
+            break;
           }
           // Continue the loop to get the assistant's response after tool execution
         } else {
@@ -362,6 +638,7 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
         // Request was cancelled, don't show error
         return;
       }
+      discardStreamingMessage();
       const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
       setError(errorMessage);
 
@@ -377,9 +654,21 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
         },
       ]);
     } finally {
+      if (abortController.signal.aborted) {
+        discardStreamingMessage();
+      }
       setIsLoading(false);
     }
-  }, [settings, messages, tools, onToolCall]);
+  }, [settings, tools, onToolCall, workflows, onApproveToolCall, orchestratorTimeoutMs]);
+
+  const sendMessage = useCallback(
+    (content: string, attachments?: ChatAttachment[]) => sendFrom(messages, content, attachments),
+    [messages, sendFrom]
+  );
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   const retryLastMessage = useCallback(async () => {
     // Find the last user message
@@ -388,12 +677,54 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
 
     const lastUserMessage = messages[lastUserMessageIndex];
 
-    // Remove all messages after the last user message
-    setMessages(prev => prev.slice(0, lastUserMessageIndex));
-
-    // Resend the message
-    await sendMessage(lastUserMessage.content);
-  }, [messages, sendMessage]);
+    // Resend the message, dropping everything after it
+    await sendFrom(messages.slice(0, lastUserMessageIndex), lastUserMessage.content, lastUserMessage.attachments);
+  }, [messages, sendFrom]);
+
+  // Fork the conversation at a user message: the current continuation is kept as a branch
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (!original || original.role !== 'user' || (!content.trim() && !original.attachments?.length)) return;
+
+    const key = getBranchKey(messages, index);
+    setBranches(prev => {
+      const existing = prev[key];
+      const tails = existing ? [...existing.tails] : [];
+      tails[existing?.activeIndex ?? 0] = messages.slice(index);
+      // The new branch's messages live in `messages` until another branch is selected
+      tails.push([]);
+      return { ...prev, [key]: { tails, activeIndex: tails.length - 1 } };
+    });
+
+    // Attachments stay with the edited message
+    await sendFrom(messages.slice(0, index), content.trim(), original.attachments);
+  }, [messages, sendFrom]);
+
+  const getBranchInfo = useCallback((messageId: string): MessageBranchInfo | null => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return null;
+    const branchSet = branches[getBranchKey(messages, index)];
+    if (!branchSet || branchSet.tails.length < 2) return null;
+    return { index: branchSet.activeIndex, count: branchSet.tails.length };
+  }, [messages, branches]);
+
+  // Show another branch at the fork point before `messageId`, saving the current one
+  const switchBranch = useCallback((messageId: string, targetIndex: number) => {
+    if (isLoading) return;
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    const key = getBranchKey(messages, index);
+    const branchSet = branches[key];
+    if (!branchSet || targetIndex === branchSet.activeIndex || !branchSet.tails[targetIndex]) return;
+
+    const tails = [...branchSet.tails];
+    tails[branchSet.activeIndex] = messages.slice(index);
+    setBranches({ ...branches, [key]: { tails, activeIndex: targetIndex } });
+    setMessages([...messages.slice(0, index), ...tails[targetIndex]]);
+    setError(null);
+  }, [isLoading, messages, branches]);
 
   return {
     messages,
@@ -402,22 +733,32 @@ export function useLLMChat({ settings, tools, onToolCall }: UseLLMChatOptions):
     sendMessage,
     clearMessages,
     retryLastMessage,
+    editMessage,
+    getBranchInfo,
+    switchBranch,
+    stopGeneration,
   };
 }
 
 function getDefaultSystemPrompt(tools?: MCPToolDefinition[], useAdvancedTools: boolean = false): string {
   let prompt = `You are a helpful AI assistant integrated with MCP (Model Context Protocol) servers. You can help users interact with connected MCP servers and their tools.`;
 
+  // Deferred tools are left out of the list; the model finds them with mcp_tool_search
+  const loadedTools = tools?.filter(t => !t.deferLoading);
+  const deferredCount = (tools?.length || 0) - (loadedTools?.length || 0);
+
   if (useAdvancedTools) {
     prompt += `\n\n### Advanced Tool Use
-You have access to a large library of tools. To optimize performance and context, some tools are deferred.
-Use 'mcp_tool_search' to find tools for specific tasks (e.g., searching for "github" or "database").
-Use 'javascript_orchestrator' for complex workflows that require loops, multiple tool calls, or data processing. The orchestrator can execute JS code and use 'await mcp.callTool(name, args)' and 'mcp.log(message)'.`;
+${deferredCount > 0
+    ? `You have access to a library of ${deferredCount} more tools that are not listed, to save context.`
+    : 'You have access to a library of tools.'}
+Use 'mcp_tool_search' to find tools for specific tasks (e.g., searching for "github" or "database"). It returns each match's full input schema, and the tools it finds can be called in your next step.
+Use 'javascript_orchestrator' for complex workflows that require loops, multiple tool calls, or data processing. The orchestrator can execute JS code and use 'await mcp.callTool(name, args)' and 'mcp.log(message)'; a value the code returns is passed back as structured output.`;
   }
 
-  if (tools && tools.length > 0) {
+  if (loadedTools && loadedTools.length > 0) {
     prompt += `\n\nYou have access to the following tools from connected MCP servers. Use them when appropriate to help the user:\n`;
-    for (const tool of tools) {
+    for (const tool of loadedTools) {
       prompt += `\n- ${tool.name}${tool.serverName ? ` (from ${tool.serverName})` : ''}: ${tool.description || 'No description'}`;
       if (tool.examples && tool.examples.length > 0) {
         prompt += `\n  Examples:`;
@@ -434,11 +775,11 @@ Use 'javascript_orchestrator' for complex workflows that require loops, multiple
   return prompt;
 }
 
-function getInternalTools(tools: MCPToolDefinition[]): MCPToolDefinition[] {
+function getInternalTools(tools: MCPToolDefinition[], workflows: Workflow[], orchestratorTimeoutMs: number): MCPToolDefinition[] {
   const internal: MCPToolDefinition[] = [
     {
       name: 'javascript_orchestrator',
-      description: 'Execute JavaScript code to coordinate multiple MCP tool calls. Use "await mcp.callTool(name, args)" and "mcp.log(message)". Efficient for loops and parallel work.',
+      description: `Execute JavaScript code to coordinate multiple MCP tool calls. Use "await mcp.callTool(name, args)" and "mcp.log(message)", and \`return\` a JSON-serializable value for structured output. Efficient for loops and parallel work. Runs in an isolated sandbox without network, DOM or storage access, limited to ${formatTimeoutDuration(orchestratorTimeoutMs)} and 50 tool calls.`,
       inputSchema: {
         type: 'object',
         properties: {
@@ -455,18 +796,25 @@ function getInternalTools(tools: MCPToolDefinition[]): MCPToolDefinition[] {
   // Always include the tool search capability
   internal.push({
     name: 'mcp_tool_search',
-    description: 'Search for tools in the full MCP tool library by name or description. Use this to discover available tools.',
+    description: 'Search the full MCP tool library by keywords matched against tool names, descriptions and parameter names. Returns the best matches ranked by relevance, with full input schemas; matched tools can be called in the next step.',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'The search term (e.g., "github", "search", "documents").'
+          description: 'Keywords describing the task (e.g., "github issues", "search documents").'
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of tools to return (default 5).'
         }
       },
       required: ['query']
     }
   });
 
+  // Saved workflows are always loaded: they are few and chosen by the user
+  internal.push(...workflowsToTools(workflows));
+
   return internal;
 }
@@ -6,6 +6,7 @@ import type {
   ConnectionStatus,
   MCPRequest,
   MCPResponse,
+  MCPNotification,
   MCPMessage,
   MCPTool,
   MCPResource,
@@ -24,9 +25,23 @@ import type {
   ElicitRequestParams,
   ElicitResult,
   MCPProgressNotification,
+  MCPActiveRequest,
+  MCPActiveRequestStatus,
   MCPLogMessage,
+  MCPLogLevel,
+  MCPCompletionRef,
   MCPCompletionResult,
+  MCPTrafficDirection,
+  MCPTrafficEntry,
+  MCPTrafficKind,
+  MCPRequestHistoryEntry,
+  MCPResourceUpdate,
+  ResourceReadResult,
+  RequestTimeoutSettings,
+  ClientRoot,
 } from './types';
+import { DEFAULT_REQUEST_TIMEOUTS, getRequestTimeoutPolicy, formatTimeoutDuration } from './useRequestTimeouts';
+import { getRootsForServer } from './useRoots';
 
 // Helper to normalize resource - some servers swap name/uri
 function normalizeResource(resource: MCPResource): MCPResource {
@@ -48,6 +63,14 @@ function normalizeResource(resource: MCPResource): MCPResource {
 
 const MCP_PROTOCOL_VERSION = '2025-06-18';
 const STORAGE_KEY = 'mcp-servers';
+// Maximum number of traffic entries kept per server (oldest are dropped first)
+const MAX_TRAFFIC_ENTRIES = 500;
+// Maximum number of log messages kept per server (oldest are dropped first)
+const MAX_LOG_MESSAGES = 1000;
+// Maximum number of subscribed-resource reads kept per server
+const MAX_RESOURCE_UPDATES = 100;
+// Maximum number of unanswered request timings kept across servers (oldest are dropped first)
+const MAX_REQUEST_TIMINGS = 1000;
 
 // Detect transport type based on URL pattern
 function detectTransportType(url: string): TransportType {
@@ -66,6 +89,17 @@ interface UseMultiServerMcpOptions {
   onSamplingRequest?: (request: SamplingRequest) => void;
   onElicitationRequest?: (request: ElicitationRequest) => void;
   onProgress?: (serverId: string, progress: MCPProgressNotification) => void;
+  onRequestComplete?: (entry: Omit<MCPRequestHistoryEntry, 'id'>) => void;
+  timeouts?: RequestTimeoutSettings;
+  roots?: ClientRoot[];
+}
+
+interface PendingRequest {
+  resolve: (value: MCPResponse) => void;
+  reject: (error: Error) => void;
+  timeout?: NodeJS.Timeout;
+  progressToken?: string | number;
+  onProgress?: () => void; // Restarts the timeout when progress resets it
 }
 
 interface ServerConnection {
@@ -75,11 +109,7 @@ interface ServerConnection {
   customHeaders: Record<string, string> | null;
   sessionId: string | null;
   messageEndpoint: string | null;
-  pendingRequests: Map<string, {
-    resolve: (value: MCPResponse) => void;
-    reject: (error: Error) => void;
-    timeout: NodeJS.Timeout;
-  }>;
+  pendingRequests: Map<string, PendingRequest>;
   abortController: AbortController | null;
 }
 
@@ -90,6 +120,7 @@ interface StoredServer {
   credentials?: OAuthCredentials;
   customHeaders?: Record<string, string>;
   wasConnected?: boolean; // Track if server was connected before page refresh
+  resourceSubscriptions?: string[];
 }
 
 // Load servers from localStorage
@@ -110,6 +141,10 @@ function loadStoredServers(): (ServerInstance & { wasConnected?: boolean })[] {
       customHeaders: s.customHeaders,
       logMessages: [],
       activeProgress: new Map(),
+      activeRequests: [],
+      traffic: [],
+      resourceSubscriptions: s.resourceSubscriptions || [],
+      resourceUpdates: [],
     }));
   } catch {
     return [];
@@ -127,6 +162,7 @@ function saveServers(servers: ServerInstance[]) {
       credentials: s.credentials,
       customHeaders: s.customHeaders,
       wasConnected: s.status === 'connected', // Remember connection state
+      resourceSubscriptions: s.resourceSubscriptions.length > 0 ? s.resourceSubscriptions : undefined,
     }));
     localStorage.setItem(STORAGE_KEY, JSON.stringify(toStore));
   } catch {
@@ -144,6 +180,16 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
   const serversToAutoConnectRef = useRef<Set<string>>(new Set());
   const reconnectAttemptsRef = useRef<Map<string, number>>(new Map());
   const reconnectTimersRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  // Send times of in-flight requests, keyed by `${serverId}:${direction}:${id}`, for response timing
+  const requestTimingsRef = useRef<Map<string, { method: string; timestamp: number }>>(new Map());
+  // Read when each request is sent, so new settings apply without re-creating the callbacks
+  const timeoutsRef = useRef(options.timeouts);
+  timeoutsRef.current = options.timeouts;
+  // Read when a server asks for roots/list; the last set announced to servers is kept for comparison
+  const roots = options.roots;
+  const rootsRef = useRef(roots);
+  rootsRef.current = roots;
+  const announcedRootsRef = useRef(roots);
 
   // Load servers from localStorage on mount
   useEffect(() => {
@@ -178,6 +224,72 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     ));
   }, []);
 
+  // Record a JSON-RPC message in the server's traffic log (shown in the Traffic panel)
+  const recordTraffic = useCallback((serverId: string, direction: MCPTrafficDirection, message: MCPMessage) => {
+    const hasId = 'id' in message && message.id !== undefined && message.id !== null;
+    const hasMethod = 'method' in message;
+    const kind: MCPTrafficKind = hasMethod
+      ? hasId
+        ? direction === 'incoming' ? 'server-request' : 'request'
+        : 'notification'
+      : 'response';
+    const timestamp = Date.now();
+    let method = hasMethod ? (message as MCPRequest | MCPNotification).method : undefined;
+    let durationMs: number | undefined;
+
+    if (hasId) {
+      const messageId = String((message as MCPRequest | MCPResponse).id);
+      if (kind === 'response') {
+        // Responses travel in the opposite direction of the request they answer
+        const requestDirection = direction === 'incoming' ? 'outgoing' : 'incoming';
+        const timingKey = `${serverId}:${requestDirection}:${messageId}`;
+        const timing = requestTimingsRef.current.get(timingKey);
+        if (timing) {
+          method = timing.method;
+          durationMs = timestamp - timing.timestamp;
+          requestTimingsRef.current.delete(timingKey);
+        }
+      } else if (method) {
+        const timings = requestTimingsRef.current;
+        timings.set(`${serverId}:${direction}:${messageId}`, { method, timestamp });
+        // Requests that are never answered (e.g. unanswered server requests) must not pile up
+        if (timings.size > MAX_REQUEST_TIMINGS) {
+          timings.delete(timings.keys().next().value!);
+        }
+      }
+    }
+
+    let size = 0;
+    try {
+      size = new TextEncoder().encode(JSON.stringify(message)).length;
+    } catch {
+      // Unserializable message, leave size at 0
+    }
+
+    const entry: MCPTrafficEntry = {
+      id: uuidv4(),
+      direction,
+      kind,
+      method,
+      messageId: hasId ? (message as MCPRequest | MCPResponse).id : undefined,
+      message,
+      size,
+      timestamp,
+      durationMs,
+      transport: connectionsRef.current.get(serverId)?.transport,
+    };
+
+    setServers(prev => prev.map(s => {
+      if (s.id !== serverId) return s;
+      return { ...s, traffic: [...s.traffic, entry].slice(-MAX_TRAFFIC_ENTRIES) };
+    }));
+  }, []);
+
+  // Clear the recorded traffic for a server
+  const clearTraffic = useCallback((serverId: string) => {
+    updateServer(serverId, { traffic: [] });
+  }, [updateServer]);
+
   // Send a JSON-RPC notification (no response expected)
   const sendNotification = useCallback((serverId: string, method: string, params?: Record<string, unknown>) => {
     const connection = connectionsRef.current.get(serverId);
@@ -186,7 +298,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       return;
     }
 
-    const notification = {
+    const notification: MCPNotification = {
       jsonrpc: '2.0',
       method,
       params,
@@ -218,6 +330,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }
 
     console.log(`[${serverId}] Sending MCP notification:`, method);
+    recordTraffic(serverId, 'outgoing', notification);
 
     fetch(apiEndpoint, {
       method: 'POST',
@@ -226,7 +339,22 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }).catch(error => {
       console.error('Failed to send notification:', error);
     });
-  }, []);
+  }, [recordTraffic]);
+
+  // Tell connected servers whose roots changed to fetch roots/list again
+  useEffect(() => {
+    if (roots === announcedRootsRef.current) return;
+    const previous = announcedRootsRef.current || [];
+    announcedRootsRef.current = roots;
+    for (const server of servers) {
+      if (server.status !== 'connected') continue;
+      const before = JSON.stringify(getRootsForServer(previous, server.id));
+      const after = JSON.stringify(getRootsForServer(roots || [], server.id));
+      if (before !== after) {
+        sendNotification(server.id, 'notifications/roots/list_changed');
+      }
+    }
+  }, [roots, servers, sendNotification]);
 
   // Send a JSON-RPC response back to the server (for server-initiated requests like ping, roots/list)
   const sendServerResponse = useCallback((serverId: string, requestId: string | number, result: unknown) => {
@@ -266,6 +394,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }
 
     console.log(`[${serverId}] Sending response for server request:`, requestId);
+    recordTraffic(serverId, 'outgoing', response);
 
     fetch(apiEndpoint, {
       method: 'POST',
@@ -274,17 +403,39 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }).catch(error => {
       console.error('Failed to send response:', error);
     });
-  }, []);
+  }, [recordTraffic]);
 
 
-  // Send a JSON-RPC request to a specific server
-  const sendRequest = useCallback(async (serverId: string, method: string, params?: Record<string, unknown>): Promise<unknown> => {
+  // Send a JSON-RPC request to a specific server over its transport; pass `id` to be able to cancel it
+  const sendRequestOverTransport = useCallback(async (serverId: string, method: string, params?: Record<string, unknown>, id: string = uuidv4()): Promise<unknown> => {
     const connection = connectionsRef.current.get(serverId);
     if (!connection) {
       throw new Error('Server not found');
     }
 
-    const id = uuidv4();
+    const policy = getRequestTimeoutPolicy(timeoutsRef.current || DEFAULT_REQUEST_TIMEOUTS, serverId, method, params);
+    const startedAt = Date.now();
+    const progressToken = (params?._meta as { progressToken?: string | number } | undefined)?.progressToken;
+
+    // (Re)start the request's timeout, never running past the maximum total
+    const armTimeout = (pending: PendingRequest) => {
+      clearTimeout(pending.timeout);
+      const remainingMs = policy.maxTotalTimeoutMs - (Date.now() - startedAt);
+      pending.timeout = setTimeout(() => {
+        connection.pendingRequests.delete(id);
+        requestTimingsRef.current.delete(`${serverId}:outgoing:${id}`);
+        const elapsed = formatTimeoutDuration(Date.now() - startedAt);
+        // Let the server stop working on a request nobody is waiting for any more
+        sendNotification(serverId, 'notifications/cancelled', {
+          requestId: id,
+          reason: `Request timed out after ${elapsed}`,
+        });
+        const serverName = servers.find(s => s.id === serverId)?.name || serverId;
+        const target = method === 'tools/call' && typeof params?.name === 'string' ? `${method} (${params.name})` : method;
+        pending.reject(new Error(`Request timed out: ${target} on ${serverName} after ${elapsed}`));
+      }, Math.max(0, Math.min(policy.timeoutMs, remainingMs)));
+    };
+
     const request: MCPRequest = {
       jsonrpc: '2.0',
       id,
@@ -314,134 +465,158 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       }
 
       console.log(`[${serverId}] Sending Streamable HTTP request:`, method, 'sessionId:', connection.sessionId);
-
-      const response = await fetch('/api/mcp/streamable', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(request),
+      recordTraffic(serverId, 'outgoing', request);
+
+      // Registered like an SSE request so timeouts, cancelRequest and disconnects can reject it and abort the stream
+      const abortController = new AbortController();
+      const pending: PendingRequest = { resolve: () => {}, reject: () => {}, progressToken };
+      const cancellation = new Promise<never>((_, reject) => {
+        pending.reject = (error: Error) => {
+          reject(error);
+          abortController.abort();
+        };
       });
+      if (policy.resetOnProgress) pending.onProgress = () => armTimeout(pending);
+      connection.pendingRequests.set(id, pending);
+      armTimeout(pending);
 
-      // Capture session ID from response
-      const responseSessionId = response.headers.get('mcp-session-id');
-      console.log(`[${serverId}] Response session ID:`, responseSessionId, 'current:', connection.sessionId);
-      if (responseSessionId) {
-        connection.sessionId = responseSessionId;
-        console.log(`[${serverId}] Session ID updated to:`, connection.sessionId);
-      }
+      const receive = async (): Promise<unknown> => {
+        const response = await fetch('/api/mcp/streamable', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(request),
+          signal: abortController.signal,
+        });
+
+        // Capture session ID from response
+        const responseSessionId = response.headers.get('mcp-session-id');
+        console.log(`[${serverId}] Response session ID:`, responseSessionId, 'current:', connection.sessionId);
+        if (responseSessionId) {
+          connection.sessionId = responseSessionId;
+          console.log(`[${serverId}] Session ID updated to:`, connection.sessionId);
+        }
 
-      const contentType = response.headers.get('content-type') || '';
-
-      // Handle SSE responses (streaming)
-      if (contentType.includes('text/event-stream') && response.body) {
-        return new Promise((resolve, reject) => {
-          const reader = response.body!.getReader();
-          const decoder = new TextDecoder();
-          let buffer = '';
-
-          const processStream = async () => {
-            try {
-              while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
-
-                for (const line of lines) {
-                  if (line.startsWith('data:')) {
-                    const data = line.slice(5).trim();
-                    if (data) {
-                      try {
-                        const parsed = JSON.parse(data) as MCPMessage;
-
-                        // Check if this is a request FROM the server (sampling/elicitation/ping/roots)
-                        if ('method' in parsed && 'id' in parsed) {
-                          const server = servers.find(s => s.id === serverId);
-                          const serverName = server?.name || 'Unknown Server';
-
-                          if (parsed.method === 'ping') {
-                            // Respond to server ping
-                            sendServerResponse(serverId, parsed.id as string | number, {});
-                          } else if (parsed.method === 'roots/list') {
-                            // Respond with empty roots (browser-based client)
-                            sendServerResponse(serverId, parsed.id as string | number, { roots: [] });
-                          } else if (parsed.method === 'sampling/createMessage') {
-                            const samplingRequest: SamplingRequest = {
-                              id: parsed.id,
-                              serverId,
-                              serverName,
-                              params: parsed.params as unknown as CreateMessageRequestParams,
-                              timestamp: Date.now(),
-                            };
-                            options.onSamplingRequest?.(samplingRequest);
-                          } else if (parsed.method === 'elicitation/create') {
-                            const elicitationRequest: ElicitationRequest = {
-                              id: parsed.id,
-                              serverId,
-                              serverName,
-                              params: parsed.params as unknown as ElicitRequestParams,
-                              timestamp: Date.now(),
-                            };
-                            options.onElicitationRequest?.(elicitationRequest);
+        const contentType = response.headers.get('content-type') || '';
+
+        // Handle SSE responses (streaming)
+        if (contentType.includes('text/event-stream') && response.body) {
+          return new Promise((resolve, reject) => {
+            const reader = response.body!.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            const processStream = async () => {
+              try {
+                while (true) {
+                  const { done, value } = await reader.read();
+                  if (done) break;
+
+                  buffer += decoder.decode(value, { stream: true });
+                  const lines = buffer.split('\n');
+                  buffer = lines.pop() || '';
+
+                  for (const line of lines) {
+                    if (line.startsWith('data:')) {
+                      const data = line.slice(5).trim();
+                      if (data) {
+                        try {
+                          const parsed = JSON.parse(data) as MCPMessage;
+                          recordTraffic(serverId, 'incoming', parsed);
+
+                          // Check if this is a request FROM the server (sampling/elicitation/ping/roots)
+                          if ('method' in parsed && 'id' in parsed) {
+                            const server = servers.find(s => s.id === serverId);
+                            const serverName = server?.name || 'Unknown Server';
+
+                            if (parsed.method === 'ping') {
+                              // Respond to server ping
+                              sendServerResponse(serverId, parsed.id as string | number, {});
+                            } else if (parsed.method === 'roots/list') {
+                              // Respond with the roots configured for this server
+                              sendServerResponse(serverId, parsed.id as string | number, { roots: getRootsForServer(rootsRef.current || [], serverId) });
+                            } else if (parsed.method === 'sampling/createMessage') {
+                              const samplingRequest: SamplingRequest = {
+                                id: parsed.id,
+                                serverId,
+                                serverName,
+                                params: parsed.params as unknown as CreateMessageRequestParams,
+                                timestamp: Date.now(),
+                              };
+                              options.onSamplingRequest?.(samplingRequest);
+                            } else if (parsed.method === 'elicitation/create') {
+                              const elicitationRequest: ElicitationRequest = {
+                                id: parsed.id,
+                                serverId,
+                                serverName,
+                                params: parsed.params as unknown as ElicitRequestParams,
+                                timestamp: Date.now(),
+                              };
+                              options.onElicitationRequest?.(elicitationRequest);
+                            }
+                            continue;
                           }
-                          continue;
-                        }
 
-                        // Check if this is a notification (no id, has method)
-                        if ('method' in parsed && !('id' in parsed)) {
-                          handleNotification(serverId, (parsed as { method: string; params?: Record<string, unknown> }).method, (parsed as { params?: Record<string, unknown> }).params);
-                          continue;
-                        }
+                          // Check if this is a notification (no id, has method)
+                          if ('method' in parsed && !('id' in parsed)) {
+                            handleNotification(serverId, (parsed as { method: string; params?: Record<string, unknown> }).method, (parsed as { params?: Record<string, unknown> }).params);
+                            continue;
+                          }
 
-                        // Check if this is a response to our request
-                        if ('id' in parsed && String(parsed.id) === id) {
-                          const resp = parsed as MCPResponse;
-                          if (resp.error) {
-                            reject(new Error(`${resp.error.message} (code: ${resp.error.code})`));
-                          } else {
-                            resolve(resp.result);
+                          // Check if this is a response to our request
+                          if ('id' in parsed && String(parsed.id) === id) {
+                            const resp = parsed as MCPResponse;
+                            if (resp.error) {
+                              reject(new Error(`${resp.error.message} (code: ${resp.error.code})`));
+                            } else {
+                              resolve(resp.result);
+                            }
+                            return;
                           }
-                          return;
+                        } catch {
+                          // Continue reading
                         }
-                      } catch {
-                        // Continue reading
                       }
                     }
                   }
                 }
+                reject(new Error('Stream ended without response'));
+              } catch (error) {
+                reject(error);
               }
-              reject(new Error('Stream ended without response'));
-            } catch (error) {
-              reject(error);
-            }
-          };
+            };
 
-          processStream();
-        });
-      }
+            processStream();
+          });
+        }
 
-      // Handle JSON responses
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Request failed: ${response.status} - ${errorText}`);
-      }
+        // Handle JSON responses
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Request failed: ${response.status} - ${errorText}`);
+        }
+
+        const data = await response.json();
+        if (data?.jsonrpc === '2.0') {
+          recordTraffic(serverId, 'incoming', data as MCPResponse);
+        }
+        if (data.error) {
+          throw new Error(`${data.error.message} (code: ${data.error.code})`);
+        }
+        return data.result;
+      };
 
-      const data = await response.json();
-      if (data.error) {
-        throw new Error(`${data.error.message} (code: ${data.error.code})`);
+      try {
+        return await Promise.race([receive(), cancellation]);
+      } finally {
+        clearTimeout(pending.timeout);
+        connection.pendingRequests.delete(id);
+        requestTimingsRef.current.delete(`${serverId}:outgoing:${id}`);
       }
-      return data.result;
     }
 
     // For SSE transport, use pending requests map
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        connection.pendingRequests.delete(id);
-        reject(new Error(`Request timeout: ${method}`));
-      }, 30000);
-
-      connection.pendingRequests.set(id, {
+      const pending: PendingRequest = {
         resolve: (response: MCPResponse) => {
           if (response.error) {
             reject(new Error(`${response.error.message} (code: ${response.error.code})`));
@@ -450,8 +625,11 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
           }
         },
         reject,
-        timeout,
-      });
+        progressToken,
+      };
+      if (policy.resetOnProgress) pending.onProgress = () => armTimeout(pending);
+      connection.pendingRequests.set(id, pending);
+      armTimeout(pending);
 
       const targetUrl = connection.messageEndpoint || connection.serverUrl;
 
@@ -476,18 +654,52 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       }
 
       console.log(`[${serverId}] Sending MCP request:`, method, 'to:', targetUrl);
+      recordTraffic(serverId, 'outgoing', request);
 
       fetch('/api/mcp/message', {
         method: 'POST',
         headers,
         body: JSON.stringify(request),
       }).catch(error => {
-        clearTimeout(timeout);
+        clearTimeout(pending.timeout);
         connection.pendingRequests.delete(id);
+        requestTimingsRef.current.delete(`${serverId}:outgoing:${id}`);
         reject(error);
       });
     });
-  }, [servers, options]);
+  }, [servers, options, recordTraffic, sendNotification]);
+
+  // Send a JSON-RPC request and report its outcome (used for request history/replay)
+  const sendRequest = useCallback(async (serverId: string, method: string, params?: Record<string, unknown>, requestId?: string): Promise<unknown> => {
+    const startedAt = Date.now();
+    const serverName = servers.find(s => s.id === serverId)?.name || serverId;
+    try {
+      const result = await sendRequestOverTransport(serverId, method, params, requestId);
+      options.onRequestComplete?.({
+        serverId,
+        serverName,
+        method,
+        params,
+        timestamp: startedAt,
+        durationMs: Date.now() - startedAt,
+        status: 'success',
+        result,
+      });
+      return result;
+    } catch (error) {
+      options.onRequestComplete?.({
+        serverId,
+        serverName,
+        method,
+        params,
+        timestamp: startedAt,
+        durationMs: Date.now() - startedAt,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }, [servers, options, sendRequestOverTransport]);
 
   // Fetch all items from a paginated list endpoint
   const fetchAllWithPagination = useCallback(async (serverId: string, method: string, itemsKey: string): Promise<unknown[]> => {
@@ -509,6 +721,23 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     return allItems;
   }, [sendRequest]);
 
+  // Read a subscribed resource and add its contents (or the read error) to the update timeline
+  const recordResourceUpdate = useCallback(async (serverId: string, uri: string, reason: MCPResourceUpdate['reason']) => {
+    let update: MCPResourceUpdate;
+    try {
+      const result = await sendRequest(serverId, 'resources/read', { uri }) as ResourceReadResult;
+      update = { id: uuidv4(), uri, reason, timestamp: Date.now(), contents: result?.contents || [] };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read resource';
+      update = { id: uuidv4(), uri, reason, timestamp: Date.now(), error: message };
+    }
+    setServers(prev => prev.map(s => {
+      if (s.id !== serverId) return s;
+      return { ...s, resourceUpdates: [...s.resourceUpdates, update].slice(-MAX_RESOURCE_UPDATES) };
+    }));
+    return update;
+  }, [sendRequest]);
+
   // Handle notifications from the server (list-changed, progress, logging, cancellation, resource updates)
   const handleNotification = useCallback((serverId: string, method: string, params?: Record<string, unknown>) => {
     const connection = connectionsRef.current.get(serverId);
@@ -533,12 +762,16 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
         updateServer(serverId, { prompts });
       }).catch(err => console.error(`[${serverId}] Failed to re-fetch prompts:`, err));
     } else if (method === 'notifications/resources/updated') {
-      // A subscribed resource was updated — re-read it and notify
+      // A subscribed resource was updated — re-read it, record it on the timeline and notify
       const uri = params?.uri as string | undefined;
       if (uri) {
-        sendRequest(serverId, 'resources/read', { uri }).then(result => {
-          options.onNotification?.(serverId, method, { uri, ...result as Record<string, unknown> });
-        }).catch(err => console.error(`[${serverId}] Failed to re-read updated resource:`, err));
+        recordResourceUpdate(serverId, uri, 'updated').then(update => {
+          if (update.error) {
+            console.error(`[${serverId}] Failed to re-read updated resource:`, update.error);
+          } else {
+            options.onNotification?.(serverId, method, { uri, contents: update.contents });
+          }
+        });
       }
     } else if (method === 'notifications/progress') {
       // Progress notification
@@ -555,18 +788,23 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
         updated.set(progress.progressToken, progress);
         return { ...s, activeProgress: updated };
       }));
+      // Progress keeps the matching request alive when the timeout resets on progress
+      for (const pending of connection?.pendingRequests.values() || []) {
+        if (pending.progressToken === progress.progressToken) pending.onProgress?.();
+      }
       options.onProgress?.(serverId, progress);
     } else if (method === 'notifications/message') {
       // Log message from server
       const logMessage: MCPLogMessage = {
-        level: (params?.level as MCPLogMessage['level']) ?? 'info',
+        id: uuidv4(),
+        level: (params?.level as MCPLogLevel) ?? 'info',
         logger: params?.logger as string | undefined,
         data: params?.data,
         timestamp: Date.now(),
       };
       setServers(prev => prev.map(s => {
         if (s.id !== serverId) return s;
-        return { ...s, logMessages: [...s.logMessages, logMessage] };
+        return { ...s, logMessages: [...s.logMessages, logMessage].slice(-MAX_LOG_MESSAGES) };
       }));
       options.onNotification?.(serverId, method, params);
     } else if (method === 'notifications/cancelled') {
@@ -577,6 +815,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
         if (pending) {
           clearTimeout(pending.timeout);
           connection.pendingRequests.delete(requestId);
+          requestTimingsRef.current.delete(`${serverId}:outgoing:${requestId}`);
           pending.reject(new Error(`Request cancelled by server: ${params?.reason || 'no reason'}`));
         }
       }
@@ -584,7 +823,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       // Pass through any other notifications
       options.onNotification?.(serverId, method, params);
     }
-  }, [sendRequest, updateServer, options]);
+  }, [sendRequest, updateServer, recordResourceUpdate, options]);
 
   // Handle incoming SSE messages for a server
   const createMessageHandler = useCallback((serverId: string) => {
@@ -593,6 +832,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       try {
         const data = JSON.parse(eventData) as MCPMessage;
         const connection = connectionsRef.current.get(serverId);
+        recordTraffic(serverId, 'incoming', data);
 
         if ('id' in data && data.id !== undefined) {
           // Check if this is a request FROM the server (sampling/elicitation/ping/roots)
@@ -604,8 +844,8 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
               // Respond to server ping
               sendServerResponse(serverId, data.id, {});
             } else if (data.method === 'roots/list') {
-              // Respond with empty roots (browser-based client)
-              sendServerResponse(serverId, data.id, { roots: [] });
+              // Respond with the roots configured for this server
+              sendServerResponse(serverId, data.id, { roots: getRootsForServer(rootsRef.current || [], serverId) });
             } else if (data.method === 'sampling/createMessage') {
               // Server is requesting LLM sampling
               const samplingRequest: SamplingRequest = {
@@ -645,7 +885,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
         console.error('Failed to parse SSE message:', error);
       }
     };
-  }, [options, servers, sendServerResponse, handleNotification]);
+  }, [options, servers, sendServerResponse, handleNotification, recordTraffic]);
 
   // Handle endpoint event for a server
   const createEndpointHandler = useCallback((serverId: string) => {
@@ -714,6 +954,10 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       customHeaders,
       logMessages: [],
       activeProgress: new Map(),
+      activeRequests: [],
+      traffic: [],
+      resourceSubscriptions: [],
+      resourceUpdates: [],
     };
 
     setServers(prev => {
@@ -906,7 +1150,7 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
           elicitation: {
             form: {},
           },
-          // Roots: Advertise roots support (browser client returns empty list)
+          // Roots: Advertise the user-configured roots (see useRoots); edits send list_changed
           roots: {
             listChanged: true,
           },
@@ -1000,13 +1244,24 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
 
       options.onServerChange?.(serverId, 'connected');
 
+      // Subscriptions don't survive a new session; renew them and take a fresh baseline read
+      const capabilitiesResources = initResult.capabilities?.resources;
+      const subscriptions = servers.find(s => s.id === serverId)?.resourceSubscriptions || [];
+      if (typeof capabilitiesResources === 'object' && capabilitiesResources.subscribe) {
+        for (const uri of subscriptions) {
+          sendRequest(serverId, 'resources/subscribe', { uri })
+            .then(() => recordResourceUpdate(serverId, uri, 'resubscribed'))
+            .catch(err => console.error(`[${serverId}] Failed to resubscribe to ${uri}:`, err));
+        }
+      }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Connection failed';
       updateServer(serverId, { status: 'error', error: errorMessage });
       options.onError?.(serverId, error instanceof Error ? error : new Error(errorMessage));
       throw error;
     }
-  }, [servers, activeServerId, updateServer, sendRequest, sendNotification, createMessageHandler, createEndpointHandler, options]);
+  }, [servers, activeServerId, updateServer, sendRequest, sendNotification, recordResourceUpdate, createMessageHandler, createEndpointHandler, options]);
 
   // Keep connectServerRef in sync for reconnection
   connectServerRef.current = connectServer;
@@ -1032,6 +1287,10 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
         connection.pendingRequests.delete(id);
       }
 
+      for (const key of requestTimingsRef.current.keys()) {
+        if (key.startsWith(`${serverId}:`)) requestTimingsRef.current.delete(key);
+      }
+
       connectionsRef.current.delete(serverId);
     }
 
@@ -1045,7 +1304,9 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       capabilities: undefined,
       error: undefined,
       logMessages: [],
+      logLevel: undefined,
       activeProgress: new Map(),
+      activeRequests: [],
     });
 
     // Select another server if this was active
@@ -1089,26 +1350,74 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     ));
   }, [servers, disconnectServer]);
 
-  // Call a tool on the active server
-  const callTool = useCallback(async (name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> => {
+  // Cancel an in-flight request
+  const cancelRequest = useCallback((serverId: string, requestId: string, reason?: string) => {
+    sendNotification(serverId, 'notifications/cancelled', {
+      requestId,
+      reason: reason || 'Cancelled by client',
+    });
+
+    // Also reject the local pending request if it exists
+    const connection = connectionsRef.current.get(serverId);
+    if (connection) {
+      const pending = connection.pendingRequests.get(requestId);
+      if (pending) {
+        clearTimeout(pending.timeout);
+        connection.pendingRequests.delete(requestId);
+        pending.reject(new Error('Request cancelled by client'));
+      }
+    }
+    requestTimingsRef.current.delete(`${serverId}:outgoing:${requestId}`);
+  }, [sendNotification]);
+
+  // Call a tool with a progress token; it is listed in `activeRequests` (and cancellable) until it settles
+  const callToolWithProgress = useCallback(async (serverId: string, name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolCallResult> => {
+    if (signal?.aborted) throw new Error('Request cancelled by client');
+    const requestId = uuidv4();
+    const activeRequest: MCPActiveRequest = {
+      requestId,
+      progressToken: requestId,
+      method: 'tools/call',
+      toolName: name,
+      startedAt: Date.now(),
+    };
+    setServers(prev => prev.map(s =>
+      s.id === serverId ? { ...s, activeRequests: [...s.activeRequests, activeRequest] } : s
+    ));
+
+    // Aborting tells the server to stop and rejects the pending call
+    const onAbort = () => cancelRequest(serverId, requestId, 'Caller aborted the request');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const result = await sendRequest(serverId, 'tools/call', {
+        name,
+        arguments: args,
+        _meta: { progressToken: activeRequest.progressToken },
+      }, requestId);
+      return result as ToolCallResult;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      setServers(prev => prev.map(s => {
+        if (s.id !== serverId) return s;
+        const activeProgress = new Map(s.activeProgress);
+        activeProgress.delete(activeRequest.progressToken);
+        return { ...s, activeProgress, activeRequests: s.activeRequests.filter(r => r.requestId !== requestId) };
+      }));
+    }
+  }, [sendRequest, cancelRequest]);
+
+  const callTool = useCallback(async (name: string, args: Record<string, unknown> = {}, signal?: AbortSignal): Promise<ToolCallResult> => {
     if (!activeServerId) {
       throw new Error('No active server');
     }
-    const result = await sendRequest(activeServerId, 'tools/call', {
-      name,
-      arguments: args,
-    });
-    return result as ToolCallResult;
-  }, [activeServerId, sendRequest]);
+    return callToolWithProgress(activeServerId, name, args, signal);
+  }, [activeServerId, callToolWithProgress]);
 
   // Call a tool on a specific server
-  const callToolOnServer = useCallback(async (serverId: string, name: string, args: Record<string, unknown> = {}): Promise<ToolCallResult> => {
-    const result = await sendRequest(serverId, 'tools/call', {
-      name,
-      arguments: args,
-    });
-    return result as ToolCallResult;
-  }, [sendRequest]);
+  const callToolOnServer = useCallback(async (serverId: string, name: string, args: Record<string, unknown> = {}, signal?: AbortSignal): Promise<ToolCallResult> => {
+    return callToolWithProgress(serverId, name, args, signal);
+  }, [callToolWithProgress]);
 
   // Read a resource from the active server
   const readResource = useCallback(async (uri: string) => {
@@ -1129,6 +1438,19 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     });
   }, [activeServerId, sendRequest]);
 
+  // Read a resource from a specific server
+  const readResourceOnServer = useCallback(async (serverId: string, uri: string) => {
+    return await sendRequest(serverId, 'resources/read', { uri });
+  }, [sendRequest]);
+
+  // Get a prompt from a specific server
+  const getPromptOnServer = useCallback(async (serverId: string, name: string, args?: Record<string, string>) => {
+    return await sendRequest(serverId, 'prompts/get', {
+      name,
+      arguments: args,
+    });
+  }, [sendRequest]);
+
   // Get aggregated data across all connected servers
   const getAllTools = useCallback(() => {
     return servers
@@ -1136,12 +1458,30 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
       .flatMap(s => s.tools.map(t => ({ ...t, serverId: s.id, serverName: s.name })));
   }, [servers]);
 
+  // Tool calls in flight on connected servers, with their latest progress
+  const getAllActiveRequests = useCallback((): MCPActiveRequestStatus[] => {
+    return servers
+      .filter(s => s.status === 'connected')
+      .flatMap(s => s.activeRequests.map(r => ({
+        ...r,
+        serverId: s.id,
+        serverName: s.name,
+        progress: s.activeProgress.get(r.progressToken),
+      })));
+  }, [servers]);
+
   const getAllResources = useCallback(() => {
     return servers
       .filter(s => s.status === 'connected')
       .flatMap(s => s.resources.map(r => ({ ...r, serverId: s.id, serverName: s.name })));
   }, [servers]);
 
+  const getAllResourceTemplates = useCallback(() => {
+    return servers
+      .filter(s => s.status === 'connected')
+      .flatMap(s => s.resourceTemplates.map(t => ({ ...t, serverId: s.id, serverName: s.name })));
+  }, [servers]);
+
   const getAllPrompts = useCallback(() => {
     return servers
       .filter(s => s.status === 'connected')
@@ -1190,13 +1530,14 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }
 
     console.log(`[${serverId}] Sending sampling response for request:`, requestId);
+    recordTraffic(serverId, 'outgoing', response);
 
     await fetch(apiEndpoint, {
       method: 'POST',
       headers,
       body: JSON.stringify(response),
     });
-  }, []);
+  }, [recordTraffic]);
 
   // Respond to an elicitation request from a server
   const respondToElicitationRequest = useCallback(async (
@@ -1240,65 +1581,71 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     }
 
     console.log(`[${serverId}] Sending elicitation response for request:`, requestId);
+    recordTraffic(serverId, 'outgoing', response);
 
     await fetch(apiEndpoint, {
       method: 'POST',
       headers,
       body: JSON.stringify(response),
     });
-  }, []);
+  }, [recordTraffic]);
 
   // Ping a server and wait for response
   const pingServer = useCallback(async (serverId: string): Promise<void> => {
     await sendRequest(serverId, 'ping', {});
   }, [sendRequest]);
 
-  // Cancel an in-flight request
-  const cancelRequest = useCallback((serverId: string, requestId: string, reason?: string) => {
-    sendNotification(serverId, 'notifications/cancelled', {
-      requestId,
-      reason: reason || 'Cancelled by client',
-    });
-
-    // Also reject the local pending request if it exists
-    const connection = connectionsRef.current.get(serverId);
-    if (connection) {
-      const pending = connection.pendingRequests.get(requestId);
-      if (pending) {
-        clearTimeout(pending.timeout);
-        connection.pendingRequests.delete(requestId);
-        pending.reject(new Error('Request cancelled by client'));
-      }
-    }
-  }, [sendNotification]);
-
-  // Subscribe to resource updates
+  // Subscribe to resource updates; the subscription is remembered and renewed on reconnect
   const subscribeResource = useCallback(async (serverId: string, uri: string): Promise<void> => {
     await sendRequest(serverId, 'resources/subscribe', { uri });
-  }, [sendRequest]);
+    setServers(prev => prev.map(s => {
+      if (s.id !== serverId || s.resourceSubscriptions.includes(uri)) return s;
+      return { ...s, resourceSubscriptions: [...s.resourceSubscriptions, uri] };
+    }));
+    await recordResourceUpdate(serverId, uri, 'subscribed');
+  }, [sendRequest, recordResourceUpdate]);
 
-  // Unsubscribe from resource updates
+  // Unsubscribe from resource updates and drop the resource's update timeline
   const unsubscribeResource = useCallback(async (serverId: string, uri: string): Promise<void> => {
-    await sendRequest(serverId, 'resources/unsubscribe', { uri });
+    try {
+      await sendRequest(serverId, 'resources/unsubscribe', { uri });
+    } finally {
+      setServers(prev => prev.map(s => {
+        if (s.id !== serverId) return s;
+        return {
+          ...s,
+          resourceSubscriptions: s.resourceSubscriptions.filter(u => u !== uri),
+          resourceUpdates: s.resourceUpdates.filter(u => u.uri !== uri),
+        };
+      }));
+    }
   }, [sendRequest]);
 
-  // Get completion/autocomplete suggestions
+  // Get completion/autocomplete suggestions; `contextArguments` are the other values already filled in
   const getCompletion = useCallback(async (
     serverId: string,
-    ref: { type: 'ref/prompt'; name: string } | { type: 'ref/resource'; uri: string },
-    argument: { name: string; value: string }
+    ref: MCPCompletionRef,
+    argument: { name: string; value: string },
+    contextArguments?: Record<string, string>
   ): Promise<MCPCompletionResult> => {
     const result = await sendRequest(serverId, 'completion/complete', {
       ref,
       argument,
+      ...(contextArguments && Object.keys(contextArguments).length > 0 ? { context: { arguments: contextArguments } } : {}),
     }) as { completion: MCPCompletionResult };
     return result.completion;
   }, [sendRequest]);
 
   // Set the minimum log level on a server
-  const setLogLevel = useCallback(async (serverId: string, level: MCPLogMessage['level']): Promise<void> => {
+  const setLogLevel = useCallback(async (serverId: string, level: MCPLogLevel): Promise<void> => {
     await sendRequest(serverId, 'logging/setLevel', { level });
-  }, [sendRequest]);
+    updateServer(serverId, { logLevel: level });
+  }, [sendRequest, updateServer]);
+
+  // Clear the received log messages for a server
+  const clearLogs = useCallback((serverId: string) => {
+    updateServer(serverId, { logMessages: [] });
+  }, [updateServer]);
 
   // Auto-connect servers that were previously connected on page load
   useEffect(() => {
@@ -1356,8 +1703,12 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     callToolOnServer,
     readResource,
     getPrompt,
+    readResourceOnServer,
+    getPromptOnServer,
     getAllTools,
     getAllResources,
+    getAllActiveRequests,
+    getAllResourceTemplates,
     getAllPrompts,
     respondToSamplingRequest,
     respondToElicitationRequest,
@@ -1367,5 +1718,8 @@ export function useMultiServerMcp(options: UseMultiServerMcpOptions = {}) {
     unsubscribeResource,
     getCompletion,
     setLogLevel,
+    clearLogs,
+    clearTraffic,
+    sendRequest,
   };
 }
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { MCPRequestHistoryEntry } from './types';
+
+const HISTORY_STORAGE_KEY = 'mcp-request-history';
+const MAX_HISTORY_ENTRIES = 100;
+
+// Only requests that are meaningful to replay are recorded
+export const REPLAYABLE_METHODS = ['tools/call', 'resources/read', 'prompts/get'];
+
+// Load request history from localStorage
+function loadHistory(): MCPRequestHistoryEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+// Save request history to localStorage
+function saveHistory(history: MCPRequestHistoryEntry[]) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Ignore storage errors (e.g. quota exceeded by large results)
+  }
+}
+
+// Short label for a history entry: tool name, resource URI or prompt name
+export function getHistoryEntryLabel(entry: Pick<MCPRequestHistoryEntry, 'method' | 'params'>): string {
+  const params = entry.params || {};
+  if (entry.method === 'resources/read') return String(params.uri ?? '');
+  return String(params.name ?? '');
+}
+
+// `_meta` (e.g. a progress token) belongs to the original request; replays must not reuse it
+function stripRequestMeta(params?: Record<string, unknown>): Record<string, unknown> | undefined {
+  if (!params || !('_meta' in params)) return params;
+  const rest = { ...params };
+  delete rest._meta;
+  return rest;
+}
+
+export function useRequestHistory() {
+  const [history, setHistory] = useState<MCPRequestHistoryEntry[]>([]);
+  const [isInitialized, setIsInitialized] = useState(false);
+
+  useEffect(() => {
+    setHistory(loadHistory());
+    setIsInitialized(true);
+  }, []);
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveHistory(history);
+    }
+  }, [history, isInitialized]);
+
+  const recordRequest = useCallback((entry: Omit<MCPRequestHistoryEntry, 'id'>) => {
+    if (!REPLAYABLE_METHODS.includes(entry.method)) return;
+    setHistory(prev => [{ ...entry, params: stripRequestMeta(entry.params), id: uuidv4() }, ...prev].slice(0, MAX_HISTORY_ENTRIES));
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    setHistory(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+  }, []);
+
+  return {
+    history,
+    recordRequest,
+    removeEntry,
+    clearHistory,
+  };
+}
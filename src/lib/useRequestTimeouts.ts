@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { RequestTimeoutSettings } from './types';
+
+const TIMEOUTS_STORAGE_KEY = 'mcp-request-timeouts';
+
+export const DEFAULT_REQUEST_TIMEOUTS: RequestTimeoutSettings = {
+  defaultTimeoutMs: 60_000,
+  resetOnProgress: true,
+  maxTotalTimeoutMs: 10 * 60_000,
+  toolTimeouts: {},
+};
+
+// The timeout that applies to one request
+export interface RequestTimeoutPolicy {
+  timeoutMs: number;
+  resetOnProgress: boolean;
+  maxTotalTimeoutMs: number;
+}
+
+// Load timeout settings from localStorage
+function loadTimeouts(): RequestTimeoutSettings {
+  if (typeof window === 'undefined') return DEFAULT_REQUEST_TIMEOUTS;
+  try {
+    const stored = localStorage.getItem(TIMEOUTS_STORAGE_KEY);
+    if (!stored) return DEFAULT_REQUEST_TIMEOUTS;
+    return { ...DEFAULT_REQUEST_TIMEOUTS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_REQUEST_TIMEOUTS;
+  }
+}
+
+// Save timeout settings to localStorage
+function saveTimeouts(settings: RequestTimeoutSettings) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(TIMEOUTS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// tools/call uses the tool's own timeout when one is set; everything else uses the default
+export function getRequestTimeoutPolicy(
+  settings: RequestTimeoutSettings,
+  serverId: string,
+  method: string,
+  params?: Record<string, unknown>
+): RequestTimeoutPolicy {
+  const toolTimeout = method === 'tools/call' && typeof params?.name === 'string'
+    ? settings.toolTimeouts[serverId]?.[params.name]
+    : undefined;
+  return {
+    timeoutMs: toolTimeout ?? settings.defaultTimeoutMs,
+    resetOnProgress: settings.resetOnProgress,
+    maxTotalTimeoutMs: settings.maxTotalTimeoutMs,
+  };
+}
+
+export function formatTimeoutDuration(ms: number): string {
+  return ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+export function useRequestTimeouts() {
+  const [settings, setSettings] = useState<RequestTimeoutSettings>(DEFAULT_REQUEST_TIMEOUTS);
+  const [isInitialized, setIsInitialized] = useState(false);
+
+  useEffect(() => {
+    setSettings(loadTimeouts());
+    setIsInitialized(true);
+  }, []);
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveTimeouts(settings);
+    }
+  }, [settings, isInitialized]);
+
+  const updateSettings = useCallback((patch: Partial<Omit<RequestTimeoutSettings, 'toolTimeouts'>>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  // Pass null to fall back to the default timeout
+  const setToolTimeout = useCallback((serverId: string, toolName: string, timeoutMs: number | null) => {
+    setSettings(prev => {
+      const serverTimeouts = { ...prev.toolTimeouts[serverId] };
+      if (timeoutMs === null) {
+        delete serverTimeouts[toolName];
+      } else {
+        serverTimeouts[toolName] = timeoutMs;
+      }
+      return { ...prev, toolTimeouts: { ...prev.toolTimeouts, [serverId]: serverTimeouts } };
+    });
+  }, []);
+
+  return {
+    settings,
+    updateSettings,
+    setToolTimeout,
+  };
+}
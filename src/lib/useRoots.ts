@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { ClientRoot, MCPRoot } from './types';
+
+const ROOTS_STORAGE_KEY = 'mcp-roots';
+
+export type RootInput = Omit<ClientRoot, 'id'>;
+
+// Load roots from localStorage
+function loadRoots(): ClientRoot[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(ROOTS_STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+// Save roots to localStorage
+function saveRoots(roots: ClientRoot[]) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(ROOTS_STORAGE_KEY, JSON.stringify(roots));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Any absolute URI is accepted (file://, https://, custom schemes); returns an error message or null
+export function validateRootUri(uri: string): string | null {
+  const trimmed = uri.trim();
+  if (!trimmed) return 'URI is required';
+  if (!/^[A-Za-z][A-Za-z0-9+.-]*:/.test(trimmed)) return 'URI must start with a scheme, e.g. file:// or https://';
+  try {
+    new URL(trimmed);
+  } catch {
+    return 'Not a valid URI';
+  }
+  return null;
+}
+
+// The roots/list answer for a server: global roots plus the server's own
+export function getRootsForServer(roots: ClientRoot[], serverId: string): MCPRoot[] {
+  return roots
+    .filter(root => !root.serverId || root.serverId === serverId)
+    .map(({ uri, name }) => (name ? { uri, name } : { uri }));
+}
+
+export function useRoots() {
+  const [roots, setRoots] = useState<ClientRoot[]>([]);
+  const [isInitialized, setIsInitialized] = useState(false);
+
+  useEffect(() => {
+    setRoots(loadRoots());
+    setIsInitialized(true);
+  }, []);
+
+  useEffect(() => {
+    if (isInitialized) {
+      saveRoots(roots);
+    }
+  }, [roots, isInitialized]);
+
+  // Create a root, or update the one with `id`
+  const saveRoot = useCallback((input: RootInput, id?: string) => {
+    const root: ClientRoot = { ...input, uri: input.uri.trim(), name: input.name?.trim() || undefined, id: id || uuidv4() };
+    setRoots(prev => prev.some(r => r.id === root.id)
+      ? prev.map(r => r.id === root.id ? root : r)
+      : [...prev, root]);
+  }, []);
+
+  const deleteRoot = useCallback((id: string) => {
+    setRoots(prev => prev.filter(r => r.id !== id));
+  }, []);
+
+  return {
+    roots,
+    saveRoot,
+    deleteRoot,
+  };
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { MCPToolAnnotations, ToolApprovalPolicy, ToolApprovalRequest } from './types';
+
+const POLICIES_STORAGE_KEY = 'mcp-tool-policies';
+// Policies for tools without a serverId (e.g. the active-server fallback)
+const DEFAULT_SERVER_KEY = 'default';
+
+// serverId -> tool name -> policy
+type ToolPolicies = Record<string, Record<string, ToolApprovalPolicy>>;
+
+// Load tool approval policies from localStorage
+function loadPolicies(): ToolPolicies {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(POLICIES_STORAGE_KEY);
+    if (!stored) return {};
+    return JSON.parse(stored);
+  } catch {
+    return {};
+  }
+}
+
+// Save tool approval policies to localStorage
+function savePolicies(policies: ToolPolicies) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(POLICIES_STORAGE_KEY, JSON.stringify(policies));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+// Tools explicitly marked destructive (and not read-only) or open-world need approval by default
+export function toolNeedsApproval(annotations?: MCPToolAnnotations): boolean {
+  if (!annotations) return false;
+  const destructive = annotations.destructiveHint === true && annotations.readOnlyHint !== true;
+  return destructive || annotations.openWorldHint === true;
+}
+
+export function useToolApproval() {
+  const [policies, setPolicies] = useState<ToolPolicies>({});
+  const [isInitialized, setIsInitialized] = useState(false);
+  // Orchestrator code can request several approvals at once; they are shown one at a time
+  const [queue, setQueue] = useState<ToolApprovalRequest[]>([]);
+  const resolversRef = useRef(new Map<string, (approved: boolean) => void>());
+  const policiesRef = useRef<ToolPolicies>({});
+
+  useEffect(() => {
+    const stored = loadPolicies();
+    policiesRef.current = stored;
+    setPolicies(stored);
+    setIsInitialized(true);
+  }, []);
+
+  useEffect(() => {
+    policiesRef.current = policies;
+    if (isInitialized) {
+      savePolicies(policies);
+    }
+  }, [policies, isInitialized]);
+
+  const getPolicy = useCallback((serverId: string | undefined, toolName: string): ToolApprovalPolicy | undefined => {
+    return policiesRef.current[serverId || DEFAULT_SERVER_KEY]?.[toolName];
+  }, []);
+
+  // Pass null to fall back to the annotation-based default
+  const setPolicy = useCallback((serverId: string | undefined, toolName: string, policy: ToolApprovalPolicy | null) => {
+    const serverKey = serverId || DEFAULT_SERVER_KEY;
+    setPolicies(prev => {
+      const serverPolicies = { ...prev[serverKey] };
+      if (policy) {
+        serverPolicies[toolName] = policy;
+      } else {
+        delete serverPolicies[toolName];
+      }
+      return { ...prev, [serverKey]: serverPolicies };
+    });
+  }, []);
+
+  /**
+   * Resolves to true if the tool call may proceed. Applies the stored policy
+   * first; without one, only tools whose annotations need approval prompt the user.
+   * Aborting `signal` withdraws a queued request and resolves to false.
+   */
+  const requestApproval = useCallback((request: Omit<ToolApprovalRequest, 'id'>, signal?: AbortSignal): Promise<boolean> => {
+    const policy = getPolicy(request.serverId, request.toolName);
+    if (policy === 'always-allow') return Promise.resolve(true);
+    if (policy === 'never-allow') return Promise.resolve(false);
+    if (policy !== 'always-ask' && !toolNeedsApproval(request.annotations)) {
+      return Promise.resolve(true);
+    }
+
+    if (signal?.aborted) return Promise.resolve(false);
+    const id = uuidv4();
+    return new Promise<boolean>(resolve => {
+      resolversRef.current.set(id, resolve);
+      setQueue(prev => [...prev, { ...request, id }]);
+      signal?.addEventListener('abort', () => {
+        if (!resolversRef.current.delete(id)) return;
+        setQueue(prev => prev.filter(r => r.id !== id));
+        resolve(false);
+      }, { once: true });
+    });
+  }, [getPolicy]);
+
+  const respond = useCallback((request: ToolApprovalRequest, approved: boolean, remember: boolean) => {
+    if (remember) {
+      setPolicy(request.serverId, request.toolName, approved ? 'always-allow' : 'never-allow');
+    }
+    resolversRef.current.get(request.id)?.(approved);
+    resolversRef.current.delete(request.id);
+    setQueue(prev => prev.filter(r => r.id !== request.id));
+  }, [setPolicy]);
+
+  const pendingRequest = queue[0] || null;
+
+  const handleApprove = useCallback((remember: boolean = false) => {
+    if (pendingRequest) respond(pendingRequest, true, remember);
+  }, [pendingRequest, respond]);
+
+  const handleDeny = useCallback((remember: boolean = false) => {
+    if (pendingRequest) respond(pendingRequest, false, remember);
+  }, [pendingRequest, respond]);
+
+  return {
+    policies,
+    getPolicy,
+    setPolicy,
+    requestApproval,
+    pendingRequest,
+    pendingCount: queue.length,
+    handleApprove,
+    handleDeny,
+  };
+}
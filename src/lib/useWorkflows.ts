@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { toast } from 'sonner';
+import type { MCPTool, ToolApprovalRequest } from './types';
+import type { Workflow, WorkflowRun } from './llm-types';
+import { runWorkflow as executeWorkflow, isWorkflowDue } from './workflows';
+import { namespaceTools, findToolByName } from './toolNames';
+
+const WORKFLOWS_STORAGE_KEY = 'mcp-workflows';
+// How often schedules are checked; runs happen at most this late
+const SCHEDULE_CHECK_INTERVAL_MS = 15_000;
+// Stored copies of the last run are cut to these sizes so large output can't fill storage
+const MAX_STORED_OUTPUT_LENGTH = 10_000;
+const MAX_STORED_VALUE_LENGTH = 2_000;
+
+export type WorkflowInput = Omit<Workflow, 'id' | 'createdAt' | 'updatedAt' | 'lastRun'>;
+
+// Load workflows from localStorage
+function loadWorkflows(): Workflow[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(WORKFLOWS_STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+function truncateText(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}… (truncated)` : text;
+}
+
+// Large values are stored as a truncated JSON preview
+function truncateValue(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  const json = JSON.stringify(value) ?? '';
+  return json.length > MAX_STORED_VALUE_LENGTH ? truncateText(json, MAX_STORED_VALUE_LENGTH) : value;
+}
+
+function trimRunForStorage(run: WorkflowRun): WorkflowRun {
+  return {
+    ...run,
+    stdout: truncateText(run.stdout, MAX_STORED_OUTPUT_LENGTH),
+    returnValue: truncateValue(run.returnValue),
+    trace: (run.trace || []).map(entry => ({
+      ...entry,
+      // Arguments stay an object for the trace view
+      arguments: JSON.stringify(entry.arguments).length > MAX_STORED_VALUE_LENGTH
+        ? { truncated: truncateValue(entry.arguments) }
+        : entry.arguments,
+      result: truncateValue(entry.result),
+    })),
+  };
+}
+
+// Save workflows to localStorage; false when storage is full or unavailable
+function saveWorkflows(workflows: Workflow[]): boolean {
+  if (typeof window === 'undefined') return true;
+  try {
+    const stored = workflows.map(w => w.lastRun ? { ...w, lastRun: trimRunForStorage(w.lastRun) } : w);
+    localStorage.setItem(WORKFLOWS_STORAGE_KEY, JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface UseWorkflowsOptions {
+  tools: Array<MCPTool & { serverId?: string; serverName?: string }>;
+  onCallTool: (name: string, args: Record<string, unknown>, serverId?: string, signal?: AbortSignal) => Promise<unknown>;
+  onApproveToolCall?: (request: Omit<ToolApprovalRequest, 'id'>, signal?: AbortSignal) => Promise<boolean>;
+  timeoutMs?: number; // Time limit for a run
+}
+
+export function useWorkflows({ tools, onCallTool, onApproveToolCall, timeoutMs }: UseWorkflowsOptions) {
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const workflowsRef = useRef<Workflow[]>([]);
+  const runningRef = useRef(new Set<string>());
+  // Reported once per failure streak rather than on every change
+  const saveFailedRef = useRef(false);
+  // Scheduled runs fire from a timer, so they read the latest tools and callbacks from refs
+  const optionsRef = useRef({ tools, onCallTool, onApproveToolCall, timeoutMs });
+  optionsRef.current = { tools, onCallTool, onApproveToolCall, timeoutMs };
+
+  useEffect(() => {
+    const stored = loadWorkflows();
+    workflowsRef.current = stored;
+    setWorkflows(stored);
+    setIsInitialized(true);
+  }, []);
+
+  useEffect(() => {
+    workflowsRef.current = workflows;
+    if (isInitialized) {
+      const saved = saveWorkflows(workflows);
+      if (!saved && !saveFailedRef.current) {
+        toast.error('Workflows could not be saved: browser storage is full');
+      }
+      saveFailedRef.current = !saved;
+    }
+  }, [workflows, isInitialized]);
+
+  // Create a workflow, or update the one with `id`
+  const saveWorkflow = useCallback((input: WorkflowInput, id?: string): string => {
+    const now = Date.now();
+    const workflowId = id || uuidv4();
+    setWorkflows(prev => prev.some(w => w.id === workflowId)
+      ? prev.map(w => w.id === workflowId ? { ...w, ...input, updatedAt: now } : w)
+      : [...prev, { ...input, id: workflowId, createdAt: now, updatedAt: now }]);
+    return workflowId;
+  }, []);
+
+  const deleteWorkflow = useCallback((id: string) => {
+    setWorkflows(prev => prev.filter(w => w.id !== id));
+  }, []);
+
+  /**
+   * Runs a workflow without an LLM. Tool calls go through the same approval
+   * gate as chat; the run is recorded as the workflow's `lastRun`.
+   */
+  const runWorkflow = useCallback(async (
+    id: string,
+    args: Record<string, unknown>,
+    trigger: WorkflowRun['trigger'] = 'manual'
+  ): Promise<WorkflowRun | null> => {
+    const workflow = workflowsRef.current.find(w => w.id === id);
+    if (!workflow || runningRef.current.has(id)) return null;
+
+    runningRef.current.add(id);
+    setRunningIds([...runningRef.current]);
+    const startedAt = Date.now();
+
+    const findTool = (name: string) => {
+      const tool = findToolByName(namespaceTools(optionsRef.current.tools), name);
+      if (!tool) throw new Error(`Tool not found: ${name}`);
+      return tool;
+    };
+
+    const result = await executeWorkflow(workflow, args, {
+      callTool: async (name, toolArgs, signal) => {
+        const tool = findTool(name);
+        return optionsRef.current.onCallTool(tool.originalName || tool.name, toolArgs, tool.serverId, signal);
+      },
+      approveToolCall: async (name, toolArgs, signal) => {
+        const { onApproveToolCall } = optionsRef.current;
+        if (!onApproveToolCall) return true;
+        const tool = findTool(name);
+        return onApproveToolCall({
+          toolName: tool.originalName || tool.name,
+          serverId: tool.serverId,
+          serverName: tool.serverName,
+          arguments: toolArgs,
+          annotations: tool.annotations,
+          source: 'workflow',
+        }, signal);
+      },
+      log: (...logArgs) => console.log(`[Workflow ${workflow.name}]`, ...logArgs),
+      resolveServer: (name) => {
+        const tool = findToolByName(namespaceTools(optionsRef.current.tools), name);
+        return tool && { serverId: tool.serverId, serverName: tool.serverName };
+      },
+      timeoutMs: optionsRef.current.timeoutMs,
+    });
+
+    const run: WorkflowRun = { trigger, arguments: args, startedAt, completedAt: Date.now(), ...result };
+    setWorkflows(prev => prev.map(w => w.id === id ? { ...w, lastRun: run } : w));
+    runningRef.current.delete(id);
+    setRunningIds([...runningRef.current]);
+    return run;
+  }, []);
+
+  // Scheduled workflows re-run while the app is open
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      for (const workflow of workflowsRef.current) {
+        if (workflow.schedule && isWorkflowDue(workflow, now)) {
+          void runWorkflow(workflow.id, workflow.schedule.arguments, 'schedule');
+        }
+      }
+    }, SCHEDULE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [runWorkflow]);
+
+  return {
+    workflows,
+    runningIds,
+    saveWorkflow,
+    deleteWorkflow,
+    runWorkflow,
+  };
+}
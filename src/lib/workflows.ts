@@ -0,0 +1,101 @@
+// Saved orchestrator workflows: input schemas, exposure as LLM tools and execution
+
+import type { MCPToolDefinition, OrchestratorResult, Workflow } from './llm-types';
+import type { JSONSchema } from './jsonSchema';
+import { validateAgainstSchema } from './jsonSchema';
+import { executeOrchestration } from './orchestrator';
+import type { OrchestratorContext } from './orchestrator';
+import { namespaceToolName, TOOL_NAMESPACE_SEPARATOR, WORKFLOW_TOOL_NAMESPACE } from './toolNames';
+
+// Shortest interval a schedule may use, so a misconfigured workflow cannot flood servers
+export const MIN_SCHEDULE_INTERVAL_MINUTES = 1;
+
+export function getWorkflowToolName(workflow: Pick<Workflow, 'name'>): string {
+  return namespaceToolName(WORKFLOW_TOOL_NAMESPACE, workflow.name);
+}
+
+export function isWorkflowToolName(name: string): boolean {
+  return name.startsWith(`${WORKFLOW_TOOL_NAMESPACE}${TOOL_NAMESPACE_SEPARATOR}`);
+}
+
+export function findWorkflowByToolName(workflows: Workflow[], name: string): Workflow | undefined {
+  return workflows.find(w => getWorkflowToolName(w) === name);
+}
+
+// Object schema for the declared parameters, used for the run form, validation and the LLM tool
+export function getWorkflowInputSchema(workflow: Pick<Workflow, 'parameters'>): JSONSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(workflow.parameters.map(p => [
+      p.name,
+      { type: p.type, ...(p.description ? { description: p.description } : {}) },
+    ])),
+    required: workflow.parameters.filter(p => p.required).map(p => p.name),
+  };
+}
+
+export function workflowsToTools(workflows: Workflow[]): MCPToolDefinition[] {
+  return workflows.map(workflow => {
+    const schema = getWorkflowInputSchema(workflow);
+    return {
+      name: getWorkflowToolName(workflow),
+      description: `Saved workflow "${workflow.name}"${workflow.description ? `: ${workflow.description}` : ''}`,
+      inputSchema: {
+        type: 'object',
+        properties: schema.properties,
+        required: schema.required,
+      },
+    };
+  });
+}
+
+// Problems that prevent saving a workflow, e.g. a missing name or a clash with another workflow
+export function getWorkflowProblems(workflow: Omit<Workflow, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }, workflows: Workflow[]): string[] {
+  const problems: string[] = [];
+  if (!workflow.name.trim()) problems.push('Name is required');
+  if (!workflow.code.trim()) problems.push('Code is required');
+
+  const toolName = getWorkflowToolName(workflow);
+  if (workflow.name.trim() && workflows.some(w => w.id !== workflow.id && getWorkflowToolName(w) === toolName)) {
+    problems.push(`Another workflow is already exposed as ${toolName}`);
+  }
+
+  const names = workflow.parameters.map(p => p.name.trim());
+  if (names.some(name => !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name))) {
+    problems.push('Parameter names must be identifiers (letters, digits and underscores)');
+  }
+  if (new Set(names).size !== names.length) problems.push('Parameter names must be unique');
+
+  if (workflow.schedule?.enabled && !(workflow.schedule.intervalMinutes >= MIN_SCHEDULE_INTERVAL_MINUTES)) {
+    problems.push(`Schedule interval must be at least ${MIN_SCHEDULE_INTERVAL_MINUTES} minute`);
+  }
+  return problems;
+}
+
+/**
+ * Runs a workflow's code in the orchestrator sandbox. Arguments are validated
+ * against the declared parameters and exposed to the code as `params`.
+ */
+export async function runWorkflow(
+  workflow: Workflow,
+  args: Record<string, unknown>,
+  context: OrchestratorContext,
+  signal?: AbortSignal
+): Promise<OrchestratorResult> {
+  const violations = validateAgainstSchema(args, getWorkflowInputSchema(workflow));
+  if (violations.length > 0) {
+    return {
+      stdout: '',
+      error: `Invalid arguments: ${violations.map(v => `${v.path}: ${v.message}`).join('; ')}`,
+      trace: [],
+    };
+  }
+  return executeOrchestration(workflow.code, { ...context, params: args }, signal);
+}
+
+export function isWorkflowDue(workflow: Workflow, now: number): boolean {
+  const schedule = workflow.schedule;
+  if (!schedule?.enabled || !(schedule.intervalMinutes >= MIN_SCHEDULE_INTERVAL_MINUTES)) return false;
+  const lastScheduled = Math.max(workflow.lastRun?.startedAt || 0, workflow.updatedAt);
+  return now - lastScheduled >= schedule.intervalMinutes * 60_000;
+}